@@ -0,0 +1,459 @@
+#!/usr/bin/env bun
+/**
+ * QUALITY GATES CLI
+ * ==================
+ * Runs the same quality gates as the Stop hook, outside of a Claude session,
+ * so developers and pre-commit hooks get the same verdict Claude gets.
+ *
+ * COMMANDS:
+ *   run [files...]       Run the gates and report the results
+ *   dry-run [files...]   Show the commands `run` would execute
+ *   list                 List the configured gates
+ *   explain [files...]   Show the resolved config and why each gate would
+ *                        run or be skipped
+ *
+ * Gates are scoped to changed files exactly as in the Stop hook. Without
+ * file arguments these are the files git reports as changed (Claude's
+ * session tracking isn't available outside a session unless `--session`
+ * names one). `--all` runs every gate in full.
+ *
+ * OPTIONS:
+ *   --cwd <dir>       Project directory (default: current directory)
+ *   --all             Ignore changed files and run every gate in full
+ *   --gate <name>     Only this gate (repeatable)
+ *   --session <id>    Use the files Claude touched in this session
+ *   --sequential      Run gates one at a time, stopping at the first failure
+ *   --json            Print JSON instead of a human-readable report
+ *
+ * EXIT CODES:
+ *   0  All gates passed (or nothing needed checking)
+ *   1  At least one gate failed or timed out
+ *   2  Invalid arguments or config
+ */
+
+import { resolve } from "path";
+import { parseArgs } from "util";
+import {
+  loadConfig,
+  QualityGateConfigError,
+  type QualityGatesConfig,
+} from "../src/config";
+import {
+  planQualityGates,
+  runQualityGates,
+  type QualityGateResult,
+} from "../src/gates";
+import { parseGateOutput, summarizeGateOutput } from "../src/parsers";
+import { getTouchedFiles, resolveChangedFiles } from "../src/tracking";
+
+// Characters of output shown per failed gate in the human-readable report
+const MAX_OUTPUT_LENGTH = 4000;
+
+const USAGE = `Usage: quality-gates <run|dry-run|list|explain> [options] [files...]
+
+Options:
+  --cwd <dir>       Project directory (default: current directory)
+  --all             Ignore changed files and run every gate in full
+  --gate <name>     Only this gate (repeatable)
+  --session <id>    Use the files Claude touched in this session
+  --sequential      Run gates one at a time, stopping at the first failure
+  --json            Print JSON instead of a human-readable report
+  -h, --help        Show this help`;
+
+const COMMANDS = ["run", "dry-run", "list", "explain"] as const;
+type Command = (typeof COMMANDS)[number];
+
+interface CliOptions {
+  cwd: string;
+  all: boolean;
+  gates: string[];
+  session?: string;
+  sequential: boolean;
+  json: boolean;
+  /** Files given on the command line */
+  files: string[];
+}
+
+class UsageError extends Error {}
+
+// =============================================================================
+// HELPER FUNCTIONS
+// =============================================================================
+
+/**
+ * Parse argv into a command and options.
+ */
+function parseCli(argv: string[]): { command: Command; options: CliOptions } {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      cwd: { type: "string" },
+      all: { type: "boolean", default: false },
+      gate: { type: "string", multiple: true },
+      session: { type: "string" },
+      sequential: { type: "boolean", default: false },
+      json: { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+
+  const [command, ...files] = positionals;
+  if (values.help) {
+    console.log(USAGE);
+    process.exit(0);
+  }
+  if (!command || !COMMANDS.includes(command as Command)) {
+    throw new UsageError(
+      command ? `Unknown command: ${command}` : "Missing command"
+    );
+  }
+  if (values.all && files.length > 0) {
+    throw new UsageError("--all can't be combined with file arguments");
+  }
+
+  return {
+    command: command as Command,
+    options: {
+      cwd: resolve(values.cwd ?? process.cwd()),
+      all: values.all,
+      gates: values.gate ?? [],
+      session: values.session,
+      sequential: values.sequential,
+      json: values.json,
+      files,
+    },
+  };
+}
+
+/**
+ * Apply `--gate` filters to the config.
+ */
+function selectGates(
+  config: QualityGatesConfig,
+  names: string[]
+): QualityGatesConfig {
+  if (names.length === 0) {
+    return config;
+  }
+  const unknown = names.filter((n) => !config.gates.some((g) => g.name === n));
+  if (unknown.length > 0) {
+    throw new UsageError(
+      `Unknown gate${unknown.length > 1 ? "s" : ""}: ${unknown.join(", ")}`
+    );
+  }
+  return {
+    ...config,
+    gates: config.gates.filter((g) => names.includes(g.name)),
+  };
+}
+
+/**
+ * Work out which files to scope the gates to.
+ * Returns undefined for a full run.
+ */
+async function changedFilesFor(
+  config: QualityGatesConfig,
+  options: CliOptions
+): Promise<{ files: string[] | undefined; from: string }> {
+  if (options.all) {
+    return { files: undefined, from: "--all" };
+  }
+  if (options.files.length > 0) {
+    return { files: options.files, from: "command line" };
+  }
+  if (options.session) {
+    const files = await resolveChangedFiles(options.cwd, {
+      changeTracking: "session",
+      baseRef: config.baseRef,
+      touchedFiles: await getTouchedFiles(options.session),
+    });
+    return { files, from: `session ${options.session}` };
+  }
+  const files = await resolveChangedFiles(options.cwd, {
+    changeTracking: "git",
+    baseRef: config.baseRef,
+    touchedFiles: [],
+  });
+  return {
+    files,
+    from: config.baseRef ? `git (since ${config.baseRef})` : "git",
+  };
+}
+
+function formatDuration(ms: number | undefined): string {
+  if (ms === undefined) return "";
+  return ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${ms}ms`;
+}
+
+function statusLabel(result: QualityGateResult): string {
+  if (result.timedOut) return "TIME";
+  if (result.skipped) return "SKIP";
+  return result.passed ? "PASS" : "FAIL";
+}
+
+// =============================================================================
+// COMMANDS
+// =============================================================================
+
+async function list(config: QualityGatesConfig, options: CliOptions) {
+  if (options.json) {
+    console.log(JSON.stringify({ source: config.source, gates: config.gates }));
+    return 0;
+  }
+
+  console.log(`Quality gates from ${config.source}:\n`);
+  for (const gate of config.gates) {
+    const notes = [
+      gate.enabled === false && "disabled",
+      gate.dependsOn?.length && `after ${gate.dependsOn.join(", ")}`,
+      gate.files && `files: ${gate.files.join(", ")}`,
+    ].filter(Boolean);
+    console.log(
+      `  ${gate.name.padEnd(12)} ${[gate.command, ...gate.args].join(" ")}${
+        notes.length > 0 ? `  (${notes.join("; ")})` : ""
+      }`
+    );
+  }
+  return 0;
+}
+
+async function dryRun(config: QualityGatesConfig, options: CliOptions) {
+  const changed = await changedFilesFor(config, options);
+  const plan = await planQualityGates(options.cwd, config.gates, {
+    changedFiles: changed.files,
+    fullRunOn: config.fullRunOn,
+  });
+
+  if (options.json) {
+    console.log(JSON.stringify({ changedFiles: changed.files, ...plan }));
+    return 0;
+  }
+
+  if (changed.files?.length === 0) {
+    console.log("No changed files; nothing would run.");
+    return 0;
+  }
+  if (plan.fullRunTrigger) {
+    console.log(
+      `${plan.fullRunTrigger} changed, so every gate runs in full.\n`
+    );
+  }
+  for (const gate of plan.gates) {
+    console.log(
+      gate.command
+        ? `  ${gate.name.padEnd(12)} ${gate.command.join(" ")}`
+        : `  ${gate.name.padEnd(12)} (skipped: ${gate.skipReason})`
+    );
+  }
+  return 0;
+}
+
+async function explain(config: QualityGatesConfig, options: CliOptions) {
+  const changed = await changedFilesFor(config, options);
+  const plan = await planQualityGates(options.cwd, config.gates, {
+    changedFiles: changed.files,
+    fullRunOn: config.fullRunOn,
+  });
+
+  if (options.json) {
+    console.log(
+      JSON.stringify({
+        config: { ...config, toolchain: config.toolchain.id },
+        changedFiles: changed.files,
+        changedFilesFrom: changed.from,
+        ...plan,
+      })
+    );
+    return 0;
+  }
+
+  const { toolchain } = config;
+  console.log(`Config:      ${config.source}`);
+  console.log(
+    `Toolchain:   ${toolchain.id}${
+      toolchain.marker ? ` (found ${toolchain.marker})` : ""
+    }`
+  );
+  console.log(
+    `Mode:        ${options.sequential ? "sequential (--sequential)" : config.mode}, concurrency ${config.concurrency}, timeout ${formatDuration(config.timeout)}`
+  );
+  console.log(
+    `Safety valve: ${config.maxStopDenials} blocks without progress, ${config.stuckLimit} identical failures`
+  );
+  console.log(`Full run on: ${config.fullRunOn.join(", ")}`);
+  console.log(
+    `Tracking:    ${config.changeTracking} in the Stop hook; ${changed.from} here`
+  );
+
+  if (!changed.files) {
+    console.log(`\nChanged files: not used (full run)`);
+  } else if (changed.files.length === 0) {
+    console.log(
+      `\nChanged files: none (the Stop hook would allow stopping without running any gates)`
+    );
+  } else {
+    console.log(`\nChanged files (${changed.files.length}):`);
+    for (const file of changed.files) console.log(`  ${file}`);
+  }
+  if (plan.fullRunTrigger) {
+    console.log(
+      `\n${plan.fullRunTrigger} matches fullRunOn: every gate runs in full.`
+    );
+  }
+
+  console.log(`\nGates (in run order):`);
+  for (const gatePlan of plan.gates) {
+    const gate = config.gates.find((g) => g.name === gatePlan.name)!;
+    console.log(`\n  ${gate.name}`);
+    console.log(`    command:    ${[gate.command, ...gate.args].join(" ")}`);
+    if (gate.scopedArgs) {
+      console.log(
+        `    scoped:     ${[gate.command, ...gate.scopedArgs].join(" ")}`
+      );
+    }
+    if (gate.files) console.log(`    files:      ${gate.files.join(", ")}`);
+    if (gate.dependsOn?.length) {
+      console.log(`    depends on: ${gate.dependsOn.join(", ")}`);
+    }
+    if (gate.timeout) {
+      console.log(`    timeout:    ${formatDuration(gate.timeout)}`);
+    }
+    if (gate.parser) console.log(`    parser:     ${gate.parser}`);
+    console.log(
+      gatePlan.command
+        ? `    would run:  ${gatePlan.command.join(" ")}`
+        : `    skipped:    ${gatePlan.skipReason}`
+    );
+  }
+  return 0;
+}
+
+async function run(config: QualityGatesConfig, options: CliOptions) {
+  const changed = await changedFilesFor(config, options);
+
+  if (changed.files?.length === 0) {
+    if (options.json) {
+      console.log(
+        JSON.stringify({ passed: true, changedFiles: [], results: [] })
+      );
+    } else {
+      console.log("No changed files; nothing to check.");
+    }
+    return 0;
+  }
+
+  const results = await runQualityGates(options.cwd, config.gates, {
+    mode: options.sequential ? "sequential" : config.mode,
+    concurrency: config.concurrency,
+    timeout: config.timeout,
+    changedFiles: changed.files,
+    fullRunOn: config.fullRunOn,
+  });
+  const failures = results.filter((r) => !r.passed);
+  const gateFor = (name: string) => config.gates.find((g) => g.name === name)!;
+
+  if (options.json) {
+    console.log(
+      JSON.stringify({
+        passed: failures.length === 0,
+        source: config.source,
+        toolchain: config.toolchain.id,
+        changedFiles: changed.files,
+        results: results.map((result) => ({
+          ...result,
+          diagnostics: result.passed
+            ? []
+            : parseGateOutput(gateFor(result.name), result.output, options.cwd),
+        })),
+      })
+    );
+    return failures.length > 0 ? 1 : 0;
+  }
+
+  console.log(
+    `Quality gates from ${config.source} (toolchain: ${config.toolchain.id})`
+  );
+  console.log(
+    changed.files
+      ? `Checking ${changed.files.length} changed file(s) from ${changed.from}\n`
+      : `Running every gate in full\n`
+  );
+  for (const result of results) {
+    const detail = result.skipped
+      ? result.skipReason
+      : formatDuration(result.durationMs);
+    console.log(
+      `  ${statusLabel(result)}  ${result.name.padEnd(12)} ${detail}`
+    );
+  }
+
+  const perGateLength = Math.floor(
+    MAX_OUTPUT_LENGTH / Math.max(1, failures.length)
+  );
+  for (const failure of failures) {
+    console.log(`\n── ${failure.name} ${"─".repeat(40)}`);
+    console.log(
+      summarizeGateOutput(
+        gateFor(failure.name),
+        failure.output,
+        options.cwd,
+        perGateLength
+      )
+    );
+  }
+
+  console.log(
+    failures.length > 0
+      ? `\n${failures.length} of ${results.length} gates failed`
+      : `\nAll quality gates passed`
+  );
+  return failures.length > 0 ? 1 : 0;
+}
+
+// =============================================================================
+// MAIN
+// =============================================================================
+
+async function main(): Promise<number> {
+  let parsed;
+  try {
+    parsed = parseCli(process.argv.slice(2));
+  } catch (error) {
+    console.error(`${(error as Error).message}\n\n${USAGE}`);
+    return 2;
+  }
+  const { command, options } = parsed;
+
+  let config;
+  try {
+    config = selectGates(await loadConfig(options.cwd), options.gates);
+  } catch (error) {
+    if (
+      error instanceof QualityGateConfigError ||
+      error instanceof UsageError
+    ) {
+      console.error(error.message);
+      return 2;
+    }
+    throw error;
+  }
+
+  switch (command) {
+    case "list":
+      return list(config, options);
+    case "dry-run":
+      return dryRun(config, options);
+    case "explain":
+      return explain(config, options);
+    case "run":
+      return run(config, options);
+  }
+}
+
+main()
+  .then((code) => process.exit(code))
+  .catch((error) => {
+    console.error("[quality-gates] Error:", error);
+    process.exit(2);
+  });
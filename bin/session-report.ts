@@ -0,0 +1,136 @@
+#!/usr/bin/env bun
+/**
+ * SESSION REPORT CLI
+ * ===================
+ * Writes a report of what Claude did in a session, for reviewers to read
+ * before merging its work. See src/report.ts for what's in it.
+ *
+ * USAGE:
+ *   session-report <session-id> [options]
+ *   session-report --transcript <path> [options]
+ *
+ * The session's records are read from the project's audit log (see
+ * src/audit.ts). Its transcript is read from `--transcript`, or found
+ * under ~/.claude/projects by session ID; the report still works without
+ * it, minus the prompt text and tool errors.
+ *
+ * OPTIONS:
+ *   --cwd <dir>          Project directory (default: current directory)
+ *   --transcript <path>  Session transcript (the hooks' transcript_path)
+ *   --format <format>    "markdown" (default) or "html"
+ *   --output <file>      Write the report here instead of stdout
+ *
+ * EXIT CODES:
+ *   0  Report written
+ *   2  Invalid arguments, or nothing recorded for the session
+ */
+
+import { basename, resolve } from "path";
+import { parseArgs } from "util";
+import { readAuditLog } from "../src/audit";
+import {
+  buildSessionReport,
+  findTranscript,
+  parseTranscript,
+  renderHtml,
+  renderMarkdown,
+} from "../src/report";
+
+const USAGE = `Usage: session-report <session-id> [options]
+       session-report --transcript <path> [options]
+
+Options:
+  --cwd <dir>          Project directory (default: current directory)
+  --transcript <path>  Session transcript (the hooks' transcript_path)
+  --format <format>    "markdown" (default) or "html"
+  --output <file>      Write the report here instead of stdout
+  -h, --help           Show this help`;
+
+const FORMATS = ["markdown", "html"] as const;
+type Format = (typeof FORMATS)[number];
+
+// =============================================================================
+// MAIN
+// =============================================================================
+
+async function main(): Promise<number> {
+  let values, positionals;
+  try {
+    ({ values, positionals } = parseArgs({
+      args: process.argv.slice(2),
+      allowPositionals: true,
+      options: {
+        cwd: { type: "string" },
+        transcript: { type: "string" },
+        format: { type: "string", default: "markdown" },
+        output: { type: "string" },
+        help: { type: "boolean", short: "h", default: false },
+      },
+    }));
+  } catch (error) {
+    console.error(`${(error as Error).message}\n\n${USAGE}`);
+    return 2;
+  }
+
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const format = values.format as Format;
+  if (!FORMATS.includes(format)) {
+    console.error(`Unknown format: ${values.format}\n\n${USAGE}`);
+    return 2;
+  }
+
+  const [sessionArg] = positionals;
+  if (!sessionArg && !values.transcript) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  const transcriptPath = values.transcript
+    ? resolve(values.transcript)
+    : findTranscript(sessionArg!);
+  let transcript = null;
+  if (transcriptPath) {
+    const file = Bun.file(transcriptPath);
+    if (!(await file.exists())) {
+      console.error(`Transcript not found: ${transcriptPath}`);
+      return 2;
+    }
+    transcript = parseTranscript(await file.text());
+  }
+
+  // Transcripts are named after their session
+  const sessionId =
+    sessionArg ?? transcript?.sessionId ?? basename(transcriptPath!, ".jsonl");
+
+  const cwd = resolve(values.cwd ?? transcript?.cwd ?? process.cwd());
+  const records = await readAuditLog(cwd, sessionId);
+  if (records.length === 0 && !transcript) {
+    console.error(
+      `Nothing recorded for session ${sessionId}: no audit records in ${cwd} and no transcript`
+    );
+    return 2;
+  }
+
+  const report = buildSessionReport(sessionId, records, transcript, cwd);
+  const rendered =
+    format === "html" ? renderHtml(report) : renderMarkdown(report);
+
+  if (values.output) {
+    await Bun.write(resolve(values.output), rendered);
+    console.error(`Wrote ${resolve(values.output)}`);
+  } else {
+    process.stdout.write(rendered);
+  }
+  return 0;
+}
+
+main()
+  .then((code) => process.exit(code))
+  .catch((error) => {
+    console.error("[session-report] Error:", error);
+    process.exit(2);
+  });
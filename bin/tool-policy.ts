@@ -0,0 +1,203 @@
+#!/usr/bin/env bun
+/**
+ * TOOL POLICY CLI
+ * ================
+ * Checks a tool policy (see src/policy.ts) without starting a session.
+ *
+ * COMMANDS:
+ *   test                  Run the `tests` in the policy files
+ *   check <tool> [input]  Show how one tool call is rewritten and decided;
+ *                         input is the tool_input as JSON (default: {})
+ *
+ * OPTIONS:
+ *   --cwd <dir>       Project directory (default: current directory)
+ *   --user <file>     User policy file (default: ~/.claude/tool-policy.json)
+ *   --json            Print JSON instead of a human-readable report
+ *
+ * EXIT CODES:
+ *   0  Tests passed (or check completed)
+ *   1  At least one test failed
+ *   2  Invalid arguments or policy
+ */
+
+import { resolve } from "path";
+import { parseArgs } from "util";
+import {
+  decideToolCall,
+  loadPolicy,
+  runPolicyTests,
+  ToolPolicyError,
+  USER_POLICY_PATH,
+  type ToolPolicy,
+} from "../src/policy";
+import { applyTransformers } from "../src/transform";
+
+const USAGE = `Usage: tool-policy test [options]
+       tool-policy check <tool> [input-json] [options]
+
+Options:
+  --cwd <dir>       Project directory (default: current directory)
+  --user <file>     User policy file (default: ${USER_POLICY_PATH})
+  --json            Print JSON instead of a human-readable report
+  -h, --help        Show this help`;
+
+// =============================================================================
+// COMMANDS
+// =============================================================================
+
+function test(policy: ToolPolicy, cwd: string, json: boolean): number {
+  const results = runPolicyTests(policy, cwd);
+  const failed = results.filter((r) => !r.passed);
+
+  if (json) {
+    console.log(
+      JSON.stringify({
+        passed: failed.length === 0,
+        results: results.map((r) => ({
+          source: r.test.source,
+          tool: r.test.tool,
+          expect: r.test.expect,
+          actual: r.actual,
+          passed: r.passed,
+          decidedBy: r.match?.source,
+        })),
+      })
+    );
+    return failed.length > 0 ? 1 : 0;
+  }
+
+  if (results.length === 0) {
+    console.log(
+      `No tests in ${policy.sources.join(", ") || "any policy file"}.`
+    );
+    return 0;
+  }
+
+  for (const r of results) {
+    const matched = r.match ? ` via ${r.match.source}` : "";
+    console.log(
+      `  ${r.passed ? "PASS" : "FAIL"}  ${r.test.source}: ${r.test.tool} -> ${
+        r.actual
+      }${r.passed ? "" : ` (expected ${r.test.expect})`}${matched}`
+    );
+  }
+  console.log(
+    failed.length > 0
+      ? `\n${failed.length} of ${results.length} policy tests failed`
+      : `\nAll ${results.length} policy tests passed`
+  );
+  return failed.length > 0 ? 1 : 0;
+}
+
+async function check(
+  policy: ToolPolicy,
+  cwd: string,
+  json: boolean,
+  tool: string,
+  input: unknown
+): Promise<number> {
+  // Same order as the hook: rewrite first, then decide
+  const transformed = await applyTransformers(
+    tool,
+    input,
+    cwd,
+    policy.transforms
+  );
+  const match = decideToolCall(policy, tool, transformed.input, cwd);
+
+  if (json) {
+    console.log(
+      JSON.stringify({
+        decision: match?.decision ?? "none",
+        reason: match?.reason,
+        source: match?.source,
+        changes: transformed.changes,
+        input: transformed.input,
+      })
+    );
+    return 0;
+  }
+
+  for (const change of transformed.changes) {
+    console.log(`rewrite: ${change.summary} (${change.id})`);
+  }
+  if (transformed.changes.length > 0) {
+    console.log(`input: ${JSON.stringify(transformed.input)}`);
+  }
+  if (match) {
+    console.log(`${match.decision}: ${match.reason}`);
+  } else {
+    console.log("none: no rule or check matches; normal permissions apply");
+  }
+  return 0;
+}
+
+// =============================================================================
+// MAIN
+// =============================================================================
+
+async function main(): Promise<number> {
+  let values, positionals;
+  try {
+    ({ values, positionals } = parseArgs({
+      args: process.argv.slice(2),
+      allowPositionals: true,
+      options: {
+        cwd: { type: "string" },
+        user: { type: "string" },
+        json: { type: "boolean", default: false },
+        help: { type: "boolean", short: "h", default: false },
+      },
+    }));
+  } catch (error) {
+    console.error(`${(error as Error).message}\n\n${USAGE}`);
+    return 2;
+  }
+
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const [command, tool, inputJson] = positionals;
+  if (command !== "test" && !(command === "check" && tool)) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  let input: unknown = {};
+  if (inputJson) {
+    try {
+      input = JSON.parse(inputJson);
+    } catch (error) {
+      console.error(`Invalid input JSON: ${(error as Error).message}`);
+      return 2;
+    }
+  }
+
+  const cwd = resolve(values.cwd ?? process.cwd());
+  let policy;
+  try {
+    policy = await loadPolicy(
+      cwd,
+      values.user ? resolve(values.user) : USER_POLICY_PATH
+    );
+  } catch (error) {
+    if (error instanceof ToolPolicyError) {
+      console.error(error.message);
+      return 2;
+    }
+    throw error;
+  }
+
+  return command === "test"
+    ? test(policy, cwd, values.json)
+    : check(policy, cwd, values.json, tool!, input);
+}
+
+main()
+  .then((code) => process.exit(code))
+  .catch((error) => {
+    console.error("[tool-policy] Error:", error);
+    process.exit(2);
+  });
@@ -4,6 +4,15 @@
  * ===================
  * This hook fires AFTER a tool has executed successfully.
  *
+ * BUILT-IN BEHAVIOR:
+ * - Records files touched by Write/Edit/MultiEdit/NotebookEdit (and by Bash
+ *   where detectable) in session state, so the Stop hook only gates on
+ *   Claude's own changes. See src/tracking.ts.
+ * - Scans tool output for secrets (see src/secrets.ts): warns Claude about
+ *   them in `additionalContext`, and redacts them from MCP tool output.
+ * - Records every call, the files it touched and any secrets found in the
+ *   audit log (see src/audit.ts).
+ *
  * USE CASES:
  * - Log tool results for auditing/debugging
  * - Inject additional context based on tool results
@@ -20,7 +29,7 @@
  * - permission_mode?: string - The permission mode (default, acceptEdits, etc.)
  * - hook_event_name: "PostToolUse"
  * - tool_name: string - Name of the tool that was called
- * - tool_input: unknown - The input parameters that were passed
+ * - tool_input: object - The input parameters that were passed
  * - tool_response: unknown - The response/output from the tool
  * - tool_use_id: string - Unique ID for this tool invocation
  *
@@ -37,44 +46,103 @@
  */
 
 import type {
-  PostToolUseHookInput,
   PostToolUseHookSpecificOutput,
   SyncHookJSONOutput,
 } from "@anthropic-ai/claude-agent-sdk";
+import { defineHook } from "../src/hook";
+import { loadPolicy, ToolPolicyError } from "../src/policy";
+import {
+  describeFindings,
+  redactSecrets,
+  scanToolOutput,
+} from "../src/secrets";
+import { extractTouchedFiles, recordToolChanges } from "../src/tracking";
+import { xmlTag } from "../src/utils";
+
+/**
+ * Tools whose output echoes what Claude wrote; writes are scanned before
+ * they happen instead.
+ */
+const WRITE_TOOLS = ["Write", "Edit", "MultiEdit", "NotebookEdit"];
 
 // =============================================================================
 // MAIN HOOK LOGIC
 // =============================================================================
 
-async function main() {
-  // Read input from stdin
-  const inputText = await Bun.stdin.text();
-  const input: PostToolUseHookInput = JSON.parse(inputText);
-
+defineHook("PostToolUse", async (input, { audit }) => {
   // Extract useful information from the input
-  const { session_id, tool_name, tool_input, tool_response, tool_use_id } =
+  const { session_id, cwd, tool_name, tool_input, tool_response, tool_use_id } =
     input;
 
   // Array to collect context messages to inject
   const contextMessages: string[] = [];
 
+  // Record the files the call touched in the audit log
+  audit.files = extractTouchedFiles(tool_name, tool_input);
+
+  // ---------------------------------------------------------------------------
+  // Track files touched this session (used by the Stop hook)
+  // ---------------------------------------------------------------------------
+  const touched = await recordToolChanges(
+    session_id,
+    cwd,
+    tool_name,
+    tool_input
+  );
+  if (touched.length > 0) {
+    console.error(`[PostToolUse] Tracked: ${touched.join(", ")}`);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Scan the output for secrets
+  // ---------------------------------------------------------------------------
+  let updatedMCPToolOutput: unknown;
+  if (!WRITE_TOOLS.includes(tool_name)) {
+    let settings;
+    try {
+      settings = (await loadPolicy(cwd)).secrets;
+    } catch (error) {
+      if (!(error instanceof ToolPolicyError)) throw error;
+      // PreToolUse already reports a broken policy on every call
+      console.error(`[PostToolUse] Skipping secret scan: ${error.message}`);
+    }
+
+    const findings = settings ? scanToolOutput(tool_response, settings) : [];
+    if (settings && findings.length > 0) {
+      const redact =
+        settings.onOutput === "redact" && tool_name.startsWith("mcp__");
+      if (redact) {
+        updatedMCPToolOutput = redactSecrets(tool_response, settings);
+      }
+      audit.decision = redact ? "redact" : "warn";
+      audit.reason = `Secrets in output: ${findings
+        .map((f) => `${f.rule} (${f.fingerprint})`)
+        .join(", ")}`;
+      console.error(
+        `[PostToolUse] ${findings.length} secret(s) in ${tool_name} output${
+          redact ? " (redacted)" : ""
+        }`
+      );
+      contextMessages.push(
+        xmlTag(
+          "secret-warning",
+          `The ${tool_name} output ${
+            redact ? "contained (now redacted)" : "contains"
+          } what looks like a secret:\n${describeFindings(
+            findings
+          )}\nDo not copy it into files, commands, commits or messages.`
+        )
+      );
+    }
+  }
+
   // ---------------------------------------------------------------------------
   // YOUR LOGIC HERE
   // ---------------------------------------------------------------------------
   // This is where you implement your post-tool-use behavior.
   // Examples:
   //
-  // 1. Track file changes:
-  //    if (tool_name === 'Write' || tool_name === 'Edit') {
-  //      const filePath = (tool_input as { file_path?: string }).file_path;
-  //      const state = await getState(session_id) || { modifiedFiles: [] };
-  //      if (filePath && !state.modifiedFiles.includes(filePath)) {
-  //        state.modifiedFiles.push(filePath);
-  //        await saveState(state);
-  //      }
-  //    }
-  //
-  // 2. Auto-commit after writes (example with git):
+  // 1. Auto-commit after writes (example with git):
   //    if (tool_name === 'Write') {
   //      const filePath = (tool_input as { file_path?: string }).file_path;
   //      if (filePath) {
@@ -84,11 +152,11 @@ async function main() {
   //      }
   //    }
   //
-  // 3. Log tool results:
+  // 2. Log tool results:
   //    console.error(`[PostToolUse] ${tool_name} completed (ID: ${tool_use_id})`);
   //    console.error(`[PostToolUse] Result preview: ${JSON.stringify(tool_response).slice(0, 200)}`);
   //
-  // 4. Inject reminders after certain tools:
+  // 3. Inject reminders after certain tools:
   //    if (tool_name === 'Bash') {
   //      const command = (tool_input as { command?: string }).command || '';
   //      if (command.includes('npm test') || command.includes('bun test')) {
@@ -96,14 +164,14 @@ async function main() {
   //      }
   //    }
   //
-  // 5. Track test results:
+  // 4. Track test results:
   //    if (tool_name === 'Bash') {
   //      const command = (tool_input as { command?: string }).command || '';
   //      const response = String(tool_response);
   //      if (command.includes('test')) {
-  //        const state = await getState(session_id) || {};
-  //        state.lastTestResult = response.includes('PASS') ? 'passed' : 'failed';
-  //        await saveState(state);
+  //        await updateSection(session_id, 'tests', (tests) => {
+  //          tests.lastResult = response.includes('PASS') ? 'passed' : 'failed';
+  //        });
   //      }
   //    }
   // ---------------------------------------------------------------------------
@@ -117,8 +185,8 @@ async function main() {
     // Inject collected context (if any)
     additionalContext:
       contextMessages.length > 0 ? contextMessages.join("\n") : undefined,
-    // For MCP tools, you can modify the output:
-    // updatedMCPToolOutput: modifiedResponse,
+    // Redacted MCP tool output (if any)
+    updatedMCPToolOutput,
   };
 
   const output: SyncHookJSONOutput = {
@@ -126,13 +194,6 @@ async function main() {
     hookSpecificOutput,
   };
 
-  // Write output to stdout
-  console.log(JSON.stringify(output));
-}
-
-main().catch((error) => {
-  console.error("[PostToolUse] Error:", error);
-  // On error, output a minimal valid response to not break the flow
-  console.log(JSON.stringify({ continue: true }));
-  process.exit(1);
+  // The runtime writes it to stdout (see src/hook.ts)
+  return output;
 });
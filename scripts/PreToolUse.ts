@@ -4,6 +4,27 @@
  * ==================
  * This hook fires BEFORE a tool is executed.
  *
+ * BUILT-IN BEHAVIOR:
+ * - Applies the allow/deny/ask rules in `.tool-policy.json` and
+ *   `~/.claude/tool-policy.json` (see src/policy.ts), and checks Bash
+ *   commands against a catalog of dangerous operations (see
+ *   src/danger.ts).
+ * - Denies file edits outside the project, through escaping symlinks, or to
+ *   protected paths like lockfiles and CI configs (see src/sandbox.ts).
+ * Tool calls nothing matches go through Claude Code's normal permission
+ * flow.
+ * - Enforces per-session tool quotas from the policy (see src/quota.ts).
+ * - Rewrites tool inputs through the transformers in src/transform.ts
+ *   (no `--no-verify` commits, `vitest --run`, the project's package
+ *   manager instead of npm, an opt-in default Bash timeout), logging each
+ *   change.
+ * - Records every call, its rewrites and the decision in the audit log
+ *   (see src/audit.ts).
+ *
+ * Each of these is a handler in the PreToolUse chain (see src/chain.ts):
+ * transform, then rules, write-sandbox, secret-scan and bash-checks, then
+ * quota. Register your own below; the most restrictive decision wins.
+ *
  * USE CASES:
  * - Validate tool inputs before execution
  * - Block dangerous or unauthorized tool calls
@@ -20,7 +41,7 @@
  * - permission_mode?: string - The permission mode (default, acceptEdits, etc.)
  * - hook_event_name: "PreToolUse"
  * - tool_name: string - Name of the tool being called (e.g., "Bash", "Edit", "Read")
- * - tool_input: unknown - The input parameters for the tool
+ * - tool_input: object - The input parameters for the tool
  * - tool_use_id: string - Unique ID for this specific tool invocation
  *
  * OUTPUT (JSON to stdout):
@@ -52,63 +73,228 @@ import type {
   PreToolUseHookSpecificOutput,
   SyncHookJSONOutput,
 } from "@anthropic-ai/claude-agent-sdk";
+import { defineHookChain, registerHandler } from "../src/chain";
+import type { HookContext, HookHandler } from "../src/hook";
+import {
+  checkBashCommand,
+  checkSecrets,
+  checkWriteSandbox,
+  evaluatePolicy,
+  loadPolicy,
+  ToolPolicyError,
+  type PolicyMatch,
+  type ToolPolicy,
+} from "../src/policy";
+import { checkQuotas } from "../src/quota";
+import { applyTransformers } from "../src/transform";
+import {
+  allowTool,
+  askTool,
+  continueOutput,
+  denyTool,
+  modifyToolInput,
+} from "../src/utils";
 
 // =============================================================================
-// MAIN HOOK LOGIC
+// HELPER FUNCTIONS
+// =============================================================================
+
+let policyLoad: Promise<ToolPolicy | ToolPolicyError> | undefined;
+
+/**
+ * Load the tool policy once for every handler. A broken policy comes back
+ * as its error: the policy handler reports it and the others skip.
+ */
+function getPolicy(cwd: string): Promise<ToolPolicy | ToolPolicyError> {
+  policyLoad ??= loadPolicy(cwd).catch((error) => {
+    if (error instanceof ToolPolicyError) return error;
+    throw error;
+  });
+  return policyLoad;
+}
+
+// =============================================================================
+// BUILT-IN HANDLERS
 // =============================================================================
 
-async function main() {
-  // Read input from stdin
-  const inputText = await Bun.stdin.text();
-  const input: PreToolUseHookInput = JSON.parse(inputText);
-
-  // Extract useful information from the input
-  const { session_id, tool_name, tool_input, tool_use_id } = input;
-
-  // ---------------------------------------------------------------------------
-  // YOUR LOGIC HERE
-  // ---------------------------------------------------------------------------
-  // This is where you implement your pre-tool-use behavior.
-  // Examples:
-  //
-  // 1. Block dangerous Bash commands:
-  //    if (tool_name === 'Bash') {
-  //      const command = (tool_input as { command?: string }).command || '';
-  //      if (command.includes('rm -rf /') || command.includes('sudo')) {
-  //        return denyTool('Dangerous command blocked');
-  //      }
-  //    }
-  //
-  // 2. Auto-approve safe read operations:
-  //    if (tool_name === 'Read') {
-  //      const filePath = (tool_input as { file_path?: string }).file_path || '';
-  //      if (filePath.endsWith('.md') || filePath.endsWith('.txt')) {
-  //        return allowTool('Safe file type');
-  //      }
-  //    }
-  //
-  // 3. Modify tool input (e.g., add logging to Bash commands):
-  //    if (tool_name === 'Bash') {
-  //      const originalCommand = (tool_input as { command?: string }).command;
-  //      return modifyInput({
-  //        ...tool_input,
-  //        command: `echo "[LOG] Running: ${originalCommand}" && ${originalCommand}`
-  //      });
-  //    }
-  //
-  // 4. Log all tool usage:
-  //    console.error(`[PreToolUse] Tool: ${tool_name}, ID: ${tool_use_id}`);
-  //    console.error(`[PreToolUse] Input: ${JSON.stringify(tool_input)}`);
-  //
-  // 5. Implement rate limiting:
-  //    const state = await getState(session_id) || { toolCounts: {} };
-  //    state.toolCounts[tool_name] = (state.toolCounts[tool_name] || 0) + 1;
-  //    if (state.toolCounts[tool_name] > 100) {
-  //      return denyTool('Rate limit exceeded for this tool');
-  //    }
-  //    await saveState(state);
-  // ---------------------------------------------------------------------------
+/**
+ * Rewrite the input first, so the policy judges what will actually run.
+ * Claude Code only applies a rewritten input along with a decision: allow
+ * it if the rules allow the rewritten call, and ask the user otherwise.
+ */
+async function transformInput(
+  { cwd, tool_name, tool_input }: PreToolUseHookInput,
+  { audit }: HookContext
+): Promise<SyncHookJSONOutput> {
+  const policy = await getPolicy(cwd);
+  if (policy instanceof ToolPolicyError) {
+    return continueOutput();
+  }
+
+  const transformed = await applyTransformers(
+    tool_name,
+    tool_input,
+    cwd,
+    policy.transforms
+  );
+  if (transformed.changes.length === 0) {
+    return continueOutput();
+  }
+  for (const change of transformed.changes) {
+    console.error(
+      `[PreToolUse] ${tool_name}: ${change.summary} (${change.id})`
+    );
+  }
+  audit.changes = transformed.changes.map((c) => `${c.id}: ${c.summary}`);
+
+  const reason = `Rewritten by the quality gate hooks: ${transformed.changes
+    .map((c) => c.summary)
+    .join("; ")}`;
+  const match = evaluatePolicy(policy, tool_name, transformed.input, cwd);
+  return modifyToolInput(
+    transformed.input,
+    match?.decision === "allow" ? allowTool(reason) : askTool(reason)
+  );
+}
+
+/**
+ * Turn a policy match into the handler's output, recording it for the
+ * audit log.
+ */
+function respond(
+  toolName: string,
+  match: PolicyMatch | null,
+  { audit }: HookContext
+): SyncHookJSONOutput {
+  if (!match) {
+    return continueOutput();
+  }
+  console.error(
+    `[PreToolUse] ${toolName}: ${match.decision} (${match.source})`
+  );
+  audit.rule = match.source;
+  const decide = { allow: allowTool, deny: denyTool, ask: askTool };
+  return decide[match.decision](match.reason);
+}
+
+/**
+ * Apply the tool policy's allow/deny/ask rules.
+ */
+async function applyRules(
+  { cwd, tool_name, tool_input }: PreToolUseHookInput,
+  ctx: HookContext
+): Promise<SyncHookJSONOutput> {
+  const policy = await getPolicy(cwd);
+  if (policy instanceof ToolPolicyError) {
+    // Don't break every tool call over a policy mistake; tell the user instead
+    console.error(`[PreToolUse] ${policy.message}`);
+    return { continue: true, systemMessage: policy.message };
+  }
+  return respond(
+    tool_name,
+    evaluatePolicy(policy, tool_name, tool_input, cwd),
+    ctx
+  );
+}
+
+/**
+ * A handler for one of the policy's built-in checks. A broken policy is
+ * reported by the rules handler, so the check skips.
+ */
+function policyCheck(
+  check: (policy: ToolPolicy, input: PreToolUseHookInput) => PolicyMatch | null
+): HookHandler<"PreToolUse"> {
+  return async (input, ctx) => {
+    const policy = await getPolicy(input.cwd);
+    if (policy instanceof ToolPolicyError) {
+      return continueOutput();
+    }
+    return respond(input.tool_name, check(policy, input), ctx);
+  };
+}
+
+/**
+ * Count the call against the session's quotas. Runs last, so calls another
+ * handler denied don't use up quota.
+ */
+async function enforceQuotas(
+  { session_id, cwd, tool_name, tool_use_id }: PreToolUseHookInput,
+  { audit }: HookContext
+): Promise<SyncHookJSONOutput> {
+  const policy = await getPolicy(cwd);
+  if (policy instanceof ToolPolicyError) {
+    return continueOutput();
+  }
+
+  const match = await checkQuotas(
+    session_id,
+    tool_name,
+    tool_use_id,
+    policy.quotas
+  );
+  if (!match) {
+    return continueOutput();
+  }
+  console.error(
+    `[PreToolUse] ${tool_name}: ${match.decision} (${match.source})`
+  );
+  audit.rule = match.source;
+  return match.decision === "deny"
+    ? denyTool(match.reason)
+    : askTool(match.reason);
+}
+
+registerHandler("PreToolUse", "transform", transformInput, { order: 10 });
+registerHandler("PreToolUse", "rules", applyRules, { order: 20 });
+registerHandler(
+  "PreToolUse",
+  "write-sandbox",
+  policyCheck((policy, { tool_name, tool_input, cwd }) =>
+    checkWriteSandbox(policy, tool_name, tool_input, cwd)
+  ),
+  { order: 30 }
+);
+registerHandler(
+  "PreToolUse",
+  "secret-scan",
+  policyCheck((policy, { tool_name, tool_input }) =>
+    checkSecrets(policy, tool_name, tool_input)
+  ),
+  { order: 40 }
+);
+registerHandler(
+  "PreToolUse",
+  "bash-checks",
+  policyCheck((policy, { tool_name, tool_input, cwd }) =>
+    checkBashCommand(policy, tool_name, tool_input, cwd)
+  ),
+  { order: 50 }
+);
+registerHandler("PreToolUse", "quota", enforceQuotas, { order: 200 });
+
+// =============================================================================
+// YOUR HANDLERS HERE
+// =============================================================================
+// Register handlers for your own pre-tool-use behavior. They run between
+// the policy and the quotas (order 100 by default), see the input as the
+// transformers rewrote it, and their outputs are merged with the built-ins'
+// (see src/chain.ts): a deny from any handler wins.
+// Examples:
+//
+// 1. Allow, deny or ask for tool calls: add rules to .tool-policy.json
+//    rather than a handler (see src/policy.ts).
+//
+// 2. Modify tool input: return modifyToolInput({ field: value }); the
+//    fields are merged over the input. For rewrites every project wants,
+//    add an InputTransformer instead (see src/transform.ts).
+//
+// 3. Log all tool usage: every call is already in the audit log (see
+//    src/audit.ts); set fields of the context's `audit` to add to it.
+//
+// 4. Rate limiting: add "quotas" to .tool-policy.json (see src/quota.ts).
+// =============================================================================
 
+registerHandler("PreToolUse", "log", ({ tool_name, tool_use_id }) => {
   // Example: Log tool usage (replace with your logic)
   console.error(`[PreToolUse] ${tool_name} called (ID: ${tool_use_id})`);
 
@@ -120,63 +306,17 @@ async function main() {
     // permissionDecisionReason: 'Auto-approved by hook',
 
     // Uncomment to modify the tool input:
-    // updatedInput: { ...tool_input, modified: true },
+    // updatedInput: { modified: true },
   };
 
-  const output: SyncHookJSONOutput = {
+  return {
     continue: true,
     hookSpecificOutput,
   };
-
-  // Write output to stdout
-  console.log(JSON.stringify(output));
-}
+});
 
 // =============================================================================
-// HELPER FUNCTIONS (uncomment and use as needed)
+// MAIN HOOK LOGIC
 // =============================================================================
 
-// function allowTool(reason: string): void {
-//   const output: SyncHookJSONOutput = {
-//     continue: true,
-//     hookSpecificOutput: {
-//       hookEventName: 'PreToolUse',
-//       permissionDecision: 'allow',
-//       permissionDecisionReason: reason,
-//     },
-//   };
-//   console.log(JSON.stringify(output));
-//   process.exit(0);
-// }
-
-// function denyTool(reason: string): void {
-//   const output: SyncHookJSONOutput = {
-//     continue: true,
-//     hookSpecificOutput: {
-//       hookEventName: 'PreToolUse',
-//       permissionDecision: 'deny',
-//       permissionDecisionReason: reason,
-//     },
-//   };
-//   console.log(JSON.stringify(output));
-//   process.exit(0);
-// }
-
-// function modifyInput(newInput: Record<string, unknown>): void {
-//   const output: SyncHookJSONOutput = {
-//     continue: true,
-//     hookSpecificOutput: {
-//       hookEventName: 'PreToolUse',
-//       updatedInput: newInput,
-//     },
-//   };
-//   console.log(JSON.stringify(output));
-//   process.exit(0);
-// }
-
-main().catch((error) => {
-  console.error("[PreToolUse] Error:", error);
-  // On error, output a minimal valid response to not break the tool call
-  console.log(JSON.stringify({ continue: true }));
-  process.exit(1);
-});
+defineHookChain("PreToolUse");
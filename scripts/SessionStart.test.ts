@@ -0,0 +1,106 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { getState, STATE_VERSION, updateState } from "../src/state";
+
+let root: string;
+let stateDir: string;
+
+beforeAll(async () => {
+  root = await mkdtemp(join(tmpdir(), "session-start-test-"));
+  stateDir = join(root, "state");
+  process.env.QUALITY_GATES_STATE_DIR = stateDir;
+});
+
+afterAll(async () => {
+  delete process.env.QUALITY_GATES_STATE_DIR;
+  await rm(root, { recursive: true, force: true });
+});
+
+async function startSession(sessionId: string, source: string) {
+  const proc = Bun.spawn(["bun", join(import.meta.dir, "SessionStart.ts")], {
+    cwd: root,
+    env: { ...process.env, CLAUDE_PROJECT_DIR: root },
+    stdin: new Blob([
+      JSON.stringify({
+        session_id: sessionId,
+        transcript_path: join(root, `${sessionId}.jsonl`),
+        cwd: root,
+        hook_event_name: "SessionStart",
+        source,
+      }),
+    ]),
+    stdout: "ignore",
+    stderr: "ignore",
+  });
+  expect(await proc.exited).toBe(0);
+}
+
+/**
+ * Give a session a blocked stop, a released valve and a touched file.
+ */
+async function seed(sessionId: string): Promise<void> {
+  await updateState(sessionId, (state) => {
+    state.stop.denialCount = 3;
+    state.stop.attempts = [
+      { at: 1, failedGates: ["test"], errorCount: 1, fingerprints: ["a"] },
+    ];
+    state.stop.valveReleased = true;
+    state.stop.gateCache = { lint: { key: "k", at: 1 } };
+    state.tracking.touchedFiles = ["src/a.ts"];
+  });
+}
+
+describe("SessionStart", () => {
+  test("startup starts from fresh state", async () => {
+    await seed("startup");
+    await startSession("startup", "startup");
+
+    const { stop, tracking } = await getState("startup");
+    expect(stop).toEqual({
+      denialCount: 0,
+      attempts: [],
+      valveReleased: false,
+      gateCache: {},
+    });
+    expect(tracking.touchedFiles).toEqual([]);
+  });
+
+  test("clear resets the safety valve and keeps the touched files", async () => {
+    await seed("clear");
+    await startSession("clear", "clear");
+
+    const { stop, tracking } = await getState("clear");
+    expect(stop).toEqual({
+      denialCount: 0,
+      attempts: [],
+      valveReleased: false,
+      gateCache: { lint: { key: "k", at: 1 } },
+    });
+    expect(tracking.touchedFiles).toEqual(["src/a.ts"]);
+  });
+
+  for (const source of ["resume", "compact"]) {
+    test(`${source} keeps the state`, async () => {
+      await seed(source);
+      const before = await getState(source);
+      await startSession(source, source);
+      expect(await getState(source)).toEqual(before);
+    });
+  }
+
+  test("resume migrates an old state file", async () => {
+    const path = join(stateDir, "quality-gate-hooks-old.json");
+    await writeFile(
+      path,
+      JSON.stringify({ sessionId: "old", denialCount: 2, touchedFiles: ["a"] })
+    );
+    await startSession("old", "resume");
+
+    const stored = JSON.parse(await readFile(path, "utf8"));
+    expect(stored.version).toBe(STATE_VERSION);
+    expect(stored.stop.denialCount).toBe(2);
+    expect(stored.tracking.touchedFiles).toEqual(["a"]);
+  });
+});
@@ -4,6 +4,17 @@
  * ===================
  * This hook fires when a Claude Code session begins.
  *
+ * BUILT-IN BEHAVIOR:
+ * - Initializes the session's state according to `source`:
+ *   - "startup": starts from fresh state
+ *   - "resume", "compact": keeps the session's state (migrating it if it
+ *     was written by an older version of the plugin)
+ *   - "clear": resets the Stop hook's safety valve, since the attempts it
+ *     counted belong to the cleared conversation
+ * - Deletes the state of sessions idle for longer than
+ *   QUALITY_GATES_STATE_TTL. See src/state.ts.
+ * - Records the session start in the audit log (see src/audit.ts).
+ *
  * USE CASES:
  * - Initialize session state (create temp files, set up logging)
  * - Load configuration or context from external sources
@@ -27,31 +38,59 @@
  */
 
 import type {
-  SessionStartHookInput,
   SessionStartHookSpecificOutput,
   SyncHookJSONOutput,
 } from "@anthropic-ai/claude-agent-sdk";
+import { defineHook } from "../src/hook";
+import {
+  createSessionState,
+  getStateTtl,
+  sweepStaleState,
+  updateState,
+} from "../src/state";
+import { resetSafetyValve } from "../src/valve";
 
 // =============================================================================
 // MAIN HOOK LOGIC
 // =============================================================================
 
-async function main() {
-  // Read input from stdin
-  const inputText = await Bun.stdin.text();
-  const input: SessionStartHookInput = JSON.parse(inputText);
-
+defineHook("SessionStart", async (input) => {
   // Extract useful information from the input
   const { session_id, cwd, source, agent_type, transcript_path } = input;
 
+  // ---------------------------------------------------------------------------
+  // Initialize session state
+  // ---------------------------------------------------------------------------
+  switch (source) {
+    case "startup":
+      await updateState(session_id, () => createSessionState(session_id));
+      break;
+    case "clear":
+      // The touched files are still changed, so they stay tracked
+      await resetSafetyValve(session_id);
+      break;
+    default:
+      // Rewriting the state migrates it and marks the session as active
+      await updateState(session_id, () => {});
+  }
+
+  const swept = await sweepStaleState(getStateTtl(), session_id);
+  if (swept.length > 0) {
+    console.error(
+      `[SessionStart] Removed the state of ${swept.length} idle session(s)`
+    );
+  }
+
   // ---------------------------------------------------------------------------
   // YOUR LOGIC HERE
   // ---------------------------------------------------------------------------
   // This is where you implement your session start behavior.
   // Examples:
   //
-  // 1. Initialize state:
-  //    await saveState({ sessionId: session_id, startedAt: Date.now() });
+  // 1. Initialize your section of session state (see src/state.ts):
+  //    await updateSection(session_id, 'session', (session) => {
+  //      session.startedAt = Date.now();
+  //    });
   //
   // 2. Load project configuration:
   //    const config = await loadProjectConfig(cwd);
@@ -87,13 +126,6 @@ async function main() {
     hookSpecificOutput,
   };
 
-  // Write output to stdout
-  console.log(JSON.stringify(output));
-}
-
-main().catch((error) => {
-  console.error("[SessionStart] Error:", error);
-  // On error, output a minimal valid response to not break the session
-  console.log(JSON.stringify({ continue: true }));
-  process.exit(1);
+  // The runtime writes it to stdout (see src/hook.ts)
+  return output;
 });
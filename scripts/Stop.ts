@@ -6,283 +6,380 @@
  *
  * WORKFLOW:
  * 1. Check if stop_hook_active → allow (prevent infinite loops)
- * 2. Check safety valve (denialCount >= MAX) → allow (prevent stuck sessions)
- * 3. Check git status for changed files → if none, allow
- * 4. Run quality gates sequentially: typecheck, lint, knip, test
- * 5. If any fail → block and return errors for Claude to fix
- * 6. If all pass → allow stop
+ * 2. Load project config (.quality-gates.json or package.json#qualityGates)
+ * 3. Check safety valve (already released this prompt) → allow
+ * 4. Find changed files: the files Claude touched this session (recorded
+ *    by PostToolUse) that git reports as changed, or every git change with
+ *    changeTracking: "git" → if none, allow
+ * 5. Run quality gates (in parallel by default, see src/gates.ts), skipping
+ *    any that already passed with the same inputs (see src/cache.ts)
+ * 6. If any fail or time out → ask the safety valve (src/valve.ts) whether
+ *    Claude is making progress; block with every failure for Claude to fix,
+ *    or allow and tell the user which gates are still failing
+ * 7. If all pass → allow stop
  *
- * QUALITY GATES (run in order, stop on first failure):
- * - bun run typecheck
- * - bun run lint
- * - bun run knip
- * - bun run test
+ * If the tool policy sets quotas (see src/quota.ts), every response also
+ * shows the user how much of each the session has used. Every response,
+ * with each gate's result, is recorded in the audit log (see src/audit.ts).
+ *
+ * DEFAULT QUALITY GATES (test waits for typecheck; the rest run concurrently):
+ * - <pm> run typecheck
+ * - <pm> run lint
+ * - <pm> run knip
+ * - <pm> run test
+ *
+ * where <pm> is the project's package manager (bun, npm, pnpm, yarn).
+ * Cargo, Go, Python and Make projects get their own defaults; see
+ * src/toolchain.ts. See src/config.ts for how a project overrides these.
  */
 
-import type {
-  StopHookInput,
-  SyncHookJSONOutput,
-} from "@anthropic-ai/claude-agent-sdk";
-import { getState, saveState, type StopHookState } from "../src/state";
-
-// Safety valve: Maximum times we can block stopping before allowing it anyway
-const MAX_STOP_DENIALS = 5;
-
-// Quality gate commands to run (in order)
-const QUALITY_GATES = [
-  { name: "typecheck", command: "bun", args: ["run", "typecheck"] },
-  { name: "lint", command: "bun", args: ["run", "lint"] },
-  { name: "knip", command: "bun", args: ["run", "knip"] },
-  { name: "test", command: "bun", args: ["run", "test"] },
-];
+import type { SyncHookJSONOutput } from "@anthropic-ai/claude-agent-sdk";
+import type { AuditDetails } from "../src/audit";
+import { createGateCache, isCacheDisabled } from "../src/cache";
+import {
+  loadConfig,
+  QualityGateConfigError,
+  type QualityGate,
+} from "../src/config";
+import { runQualityGates, type QualityGateResult } from "../src/gates";
+import { defineHook } from "../src/hook";
+import {
+  parseGateOutput,
+  renderDiagnostics,
+  smartTruncate,
+  type Diagnostic,
+} from "../src/parsers";
+import { loadPolicy, ToolPolicyError } from "../src/policy";
+import { getQuotaUsage, summarizeQuotaUsage } from "../src/quota";
+import { getState, type StopAttempt, updateSection } from "../src/state";
+import { resolveChangedFiles } from "../src/tracking";
+import { allowStop, blockStop } from "../src/utils";
+import {
+  describeProgress,
+  evaluateAttempt,
+  fingerprint,
+  fingerprintOutput,
+} from "../src/valve";
+
+// Total characters of gate output included in a block reason
+const MAX_OUTPUT_LENGTH = 4000;
 
 // =============================================================================
 // HELPER FUNCTIONS
 // =============================================================================
 
 /**
- * Get list of changed files from git status.
- * Returns empty array if no changes or not in a git repo.
+ * A failed gate with its parsed diagnostics (empty if no parser matched).
  */
-async function getChangedFiles(): Promise<string[]> {
-  try {
-    const proc = Bun.spawn(["git", "status", "--porcelain"], {
-      stdout: "pipe",
-      stderr: "pipe",
-    });
-
-    const output = await new Response(proc.stdout).text();
-    await proc.exited;
-
-    if (proc.exitCode !== 0) {
-      console.error("[Stop] Not in a git repository or git error");
-      return [];
-    }
+interface GateFailure {
+  result: QualityGateResult;
+  diagnostics: Diagnostic[];
+}
 
-    // Parse git status output
-    // Format: XY filename (where X=staged, Y=unstaged status)
-    const files = output
-      .split("\n")
-      .filter((line) => line.trim())
-      .map((line) => {
-        // Handle renamed files: "R  old -> new"
-        const match = line.match(/^..\s+(.+?)(?:\s+->\s+(.+))?$/);
-        return match ? match[2] || match[1] : line.slice(3);
-      })
-      .filter((file): file is string => file !== undefined);
-
-    return files;
-  } catch (error) {
-    console.error("[Stop] Error getting changed files:", error);
-    return [];
-  }
+interface BlockReasonInput {
+  failures: GateFailure[];
+  /** Gates not run because a dependency failed */
+  skipped: QualityGateResult[];
+  changedFiles: string[];
+  /** Safety valve status line (see describeProgress) */
+  progress: string;
 }
 
 /**
- * Check if a script exists in package.json.
+ * Parse each failed gate's output into diagnostics.
  */
-async function scriptExists(scriptName: string): Promise<boolean> {
-  try {
-    const packageJson = Bun.file("package.json");
-    if (!(await packageJson.exists())) {
-      return false;
-    }
-    const content = await packageJson.json();
-    return !!content.scripts?.[scriptName];
-  } catch {
-    return false;
-  }
+function analyzeFailures(
+  cwd: string,
+  gates: QualityGate[],
+  failures: QualityGateResult[]
+): GateFailure[] {
+  return failures.map((result) => {
+    const gate = gates.find((g) => g.name === result.name);
+    return {
+      result,
+      diagnostics: gate ? parseGateOutput(gate, result.output, cwd) : [],
+    };
+  });
 }
 
-interface QualityGateResult {
-  name: string;
-  passed: boolean;
-  output: string;
-  skipped?: boolean;
+/**
+ * Summarize failures as a StopAttempt for the safety valve.
+ * Unparsed output counts as one error per gate.
+ */
+function toAttempt(failures: GateFailure[]): StopAttempt {
+  const fingerprints = failures.flatMap(({ result, diagnostics }) =>
+    diagnostics.length > 0
+      ? diagnostics.map((d) =>
+          fingerprint(result.name, d.file, d.rule, d.message)
+        )
+      : [fingerprintOutput(result.name, result.output)]
+  );
+  return {
+    at: Date.now(),
+    failedGates: failures.map((f) => f.result.name),
+    errorCount: fingerprints.length,
+    fingerprints,
+  };
 }
 
 /**
- * Run a single quality gate command.
+ * Build the block reason listing every failed gate's errors.
+ * The output budget is shared evenly between the failed gates.
  */
-async function runQualityGate(gate: {
-  name: string;
-  command: string;
-  args: string[];
-}): Promise<QualityGateResult> {
-  // Check if the script exists in package.json
-  const scriptName = gate.args[gate.args.length - 1] ?? gate.name;
-  if (!(await scriptExists(scriptName))) {
-    console.error(`[Stop] Skipping ${gate.name}: script not found`);
-    return { name: gate.name, passed: true, output: "", skipped: true };
-  }
-
-  try {
-    console.error(`[Stop] Running ${gate.name}...`);
+function formatBlockReason({
+  failures,
+  skipped,
+  changedFiles,
+  progress,
+}: BlockReasonInput): string {
+  const names = failures.map((f) => f.result.name).join(", ");
+  const perGateLength = Math.floor(MAX_OUTPUT_LENGTH / failures.length);
+
+  const sections = failures.map(({ result: failure, diagnostics }) => {
+    const output =
+      diagnostics.length > 0
+        ? renderDiagnostics(diagnostics, perGateLength)
+        : smartTruncate(failure.output, perGateLength);
+    const label = failure.timedOut
+      ? `${failure.name} (timed out)`
+      : failure.name;
+    return `### ${label}
+\`\`\`
+${output}
+\`\`\``;
+  });
 
-    const proc = Bun.spawn([gate.command, ...gate.args], {
-      stdout: "pipe",
-      stderr: "pipe",
-    });
+  const skippedNote =
+    skipped.length > 0
+      ? `\n**Not run:** ${skipped
+          .map((s) => `\`${s.name}\` (${s.skipReason})`)
+          .join(", ")}\n`
+      : "";
 
-    const [stdout, stderr] = await Promise.all([
-      new Response(proc.stdout).text(),
-      new Response(proc.stderr).text(),
-    ]);
+  return `## Quality Gate${failures.length > 1 ? "s" : ""} Failed: ${names}
 
-    await proc.exited;
+${failures.length > 1 ? "These checks" : `The \`${names}\` check`} failed. Please fix the errors below before completing.
 
-    const output = [stdout, stderr].filter(Boolean).join("\n").trim();
-    const passed = proc.exitCode === 0;
+${progress}
 
-    console.error(`[Stop] ${gate.name}: ${passed ? "PASSED" : "FAILED"}`);
+${sections.join("\n\n")}
+${skippedNote}
+**Changed files:**
+${changedFiles.map((f) => `- ${f}`).join("\n")}
 
-    return { name: gate.name, passed, output };
-  } catch (error) {
-    console.error(`[Stop] Error running ${gate.name}:`, error);
-    return {
-      name: gate.name,
-      passed: false,
-      output: `Error running ${gate.name}: ${error}`,
-    };
-  }
+Please fix these issues and try again.`;
 }
 
 /**
- * Run all quality gates sequentially, stopping on first failure.
+ * Summarize the session's tool quota usage (see src/quota.ts), or return
+ * null if no quotas are set.
  */
-async function runQualityGates(): Promise<QualityGateResult | null> {
-  for (const gate of QUALITY_GATES) {
-    const result = await runQualityGate(gate);
-    if (!result.passed && !result.skipped) {
-      return result;
-    }
+async function quotaSummary(
+  sessionId: string,
+  cwd: string
+): Promise<string | null> {
+  let policy;
+  try {
+    policy = await loadPolicy(cwd);
+  } catch (error) {
+    // PreToolUse reports a broken policy; the gates matter more here
+    if (error instanceof ToolPolicyError) return null;
+    throw error;
   }
-  return null; // All passed
-}
-
-/**
- * Create a block response with the given reason.
- */
-function blockStop(reason: string): SyncHookJSONOutput {
-  return {
-    decision: "block",
-    reason,
-  };
-}
-
-/**
- * Create an allow response.
- */
-function allowStop(): SyncHookJSONOutput {
-  return {
-    decision: undefined,
-  };
+  return summarizeQuotaUsage(await getQuotaUsage(sessionId, policy.quotas));
 }
 
 // =============================================================================
 // MAIN HOOK LOGIC
 // =============================================================================
 
-async function main() {
-  // Read input from stdin
-  const inputText = await Bun.stdin.text();
-  const input: StopHookInput = JSON.parse(inputText);
-
-  const { session_id, stop_hook_active } = input;
+defineHook("Stop", async (input, { audit, signal }) => {
+  const { session_id, cwd, stop_hook_active } = input;
+
+  // Every response carries the session's quota usage, if quotas are set
+  const usage = await quotaSummary(session_id, cwd);
+  const respond = (
+    output: SyncHookJSONOutput,
+    details?: AuditDetails
+  ): SyncHookJSONOutput => {
+    Object.assign(audit, details);
+    const systemMessage = [output.systemMessage, usage]
+      .filter(Boolean)
+      .join("\n");
+    return systemMessage ? { ...output, systemMessage } : output;
+  };
 
   // ---------------------------------------------------------------------------
   // 1. Check stop_hook_active to prevent infinite blocking loops
   // ---------------------------------------------------------------------------
   if (stop_hook_active) {
     console.error(`[Stop] Another hook already blocked stop, allowing through`);
-    console.log(JSON.stringify(allowStop()));
-    return;
+    return respond(allowStop(), { reason: "stop hook already active" });
   }
 
   // ---------------------------------------------------------------------------
-  // 2. Check safety valve (denialCount >= MAX)
+  // 2. Load project config
   // ---------------------------------------------------------------------------
-  const state = await getState<StopHookState>(session_id);
-  const denialCount = state?.denialCount ?? 0;
+  let config;
+  try {
+    config = await loadConfig(cwd);
+  } catch (error) {
+    if (!(error instanceof QualityGateConfigError)) {
+      throw error;
+    }
+    // Don't trap Claude over a config mistake; tell the user instead
+    console.error(`[Stop] ${error.message}`);
+    return respond({ ...allowStop(), systemMessage: error.message });
+  }
 
-  if (denialCount >= MAX_STOP_DENIALS) {
-    console.error(
-      `[Stop] Safety valve triggered (${denialCount}/${MAX_STOP_DENIALS}), allowing stop`
-    );
-    console.log(JSON.stringify(allowStop()));
-    return;
+  const {
+    gates,
+    maxStopDenials,
+    stuckLimit,
+    mode,
+    concurrency,
+    timeout,
+    fullRunOn,
+    baseRef,
+    changeTracking,
+    cacheTtl,
+  } = config;
+  console.error(
+    `[Stop] Using quality gate config from ${config.source} (toolchain: ${config.toolchain.id})`
+  );
+
+  // ---------------------------------------------------------------------------
+  // 3. Check safety valve (already released this prompt)
+  // ---------------------------------------------------------------------------
+  const { stop, tracking } = await getState(session_id);
+  const history = stop.attempts;
+
+  if (stop.valveReleased) {
+    console.error(`[Stop] Safety valve already released, allowing stop`);
+    return respond(allowStop(), { reason: "safety valve already released" });
   }
 
   // ---------------------------------------------------------------------------
-  // 3. Check git status for changed files
+  // 4. Find changed files
   // ---------------------------------------------------------------------------
-  const changedFiles = await getChangedFiles();
+  // In "session" mode only Claude's own changes count, not hand edits
+  const changedFiles = await resolveChangedFiles(cwd, {
+    changeTracking,
+    baseRef,
+    touchedFiles: tracking.touchedFiles,
+  });
 
   if (changedFiles.length === 0) {
     console.error(`[Stop] No changed files detected, allowing stop`);
-    console.log(JSON.stringify(allowStop()));
-    return;
+    return respond(allowStop(), { reason: "no changed files" });
   }
 
   console.error(`[Stop] Detected ${changedFiles.length} changed file(s)`);
 
   // ---------------------------------------------------------------------------
-  // 4. Run quality gates
+  // 5. Run quality gates
   // ---------------------------------------------------------------------------
-  const failedGate = await runQualityGates();
+  const cache = isCacheDisabled(cacheTtl)
+    ? undefined
+    : createGateCache(cwd, {
+        entries: stop.gateCache,
+        changedFiles,
+        baseRef,
+        ttl: cacheTtl,
+      });
+
+  const results = await runQualityGates(cwd, gates, {
+    mode,
+    concurrency,
+    timeout,
+    changedFiles,
+    fullRunOn,
+    cache,
+    // The hook exits at its deadline; take the gates down with it
+    signal,
+  });
+  const failures = results.filter((r) => !r.passed);
+  const gateCache = cache?.entries ?? stop.gateCache;
 
   // ---------------------------------------------------------------------------
-  // 5. If any fail → block and return errors
+  // 6. If any fail → block and return errors
   // ---------------------------------------------------------------------------
-  if (failedGate) {
-    // Increment denial count
-    const newDenialCount = denialCount + 1;
-    await saveState<StopHookState>(session_id, {
-      sessionId: session_id,
-      denialCount: newDenialCount,
-    });
+  if (failures.length > 0) {
+    const analyzed = analyzeFailures(cwd, gates, failures);
+    const attempt = toAttempt(analyzed);
+    const limits = { maxStopDenials, stuckLimit };
+    const decision = evaluateAttempt(history, attempt, limits);
 
     console.error(
-      `[Stop] Quality gate failed: ${failedGate.name} (denial ${newDenialCount}/${MAX_STOP_DENIALS})`
+      `[Stop] Quality gates failed: ${attempt.failedGates.join(", ")} (${
+        attempt.errorCount
+      } errors, ${decision.progress})`
     );
 
-    // Truncate output if too long
-    const maxOutputLength = 2000;
-    let output = failedGate.output;
-    if (output.length > maxOutputLength) {
-      output = output.slice(0, maxOutputLength) + "\n... (output truncated)";
+    if (decision.action === "allow") {
+      await updateSection(session_id, "stop", (current) => ({
+        ...current,
+        denialCount: history.length,
+        attempts: [...history, attempt],
+        valveReleased: true,
+        gateCache,
+      }));
+
+      const message = `Quality gates still failing: ${analyzed
+        .map(({ result, diagnostics }) =>
+          diagnostics.length > 0
+            ? `${result.name} (${diagnostics.length} errors)`
+            : result.name
+        )
+        .join(", ")}. Claude was allowed to stop because ${decision.reason}.`;
+      console.error(`[Stop] Safety valve released: ${decision.reason}`);
+      return respond(
+        { ...allowStop(), systemMessage: message },
+        { reason: `safety valve: ${decision.reason}`, gates: results }
+      );
     }
 
-    const reason = `## Quality Gate Failed: ${failedGate.name}
-
-The \`${failedGate.name}\` check failed. Please fix the errors below before completing.
-
-**Attempt ${newDenialCount}/${MAX_STOP_DENIALS}** (will auto-allow after ${MAX_STOP_DENIALS} attempts)
-
-### Errors:
-\`\`\`
-${output}
-\`\`\`
-
-**Changed files:**
-${changedFiles.map((f) => `- ${f}`).join("\n")}
-
-Please fix these issues and try again.`;
+    await updateSection(session_id, "stop", (current) => ({
+      ...current,
+      denialCount: history.length + 1,
+      attempts: [...history, attempt],
+      gateCache,
+    }));
+
+    const reason = formatBlockReason({
+      failures: analyzed,
+      skipped: results.filter((r) => r.blockedBy),
+      changedFiles,
+      progress: describeProgress(
+        decision,
+        history[history.length - 1],
+        attempt,
+        limits
+      ),
+    });
 
-    console.log(JSON.stringify(blockStop(reason)));
-    return;
+    return respond(blockStop(reason), { gates: results });
   }
 
   // ---------------------------------------------------------------------------
-  // 6. If all pass → allow stop
+  // 7. If all pass → allow stop
   // ---------------------------------------------------------------------------
-  console.error(`[Stop] All quality gates passed, allowing stop`);
-  console.log(JSON.stringify(allowStop()));
-}
-
-main().catch((error) => {
-  console.error("[Stop] Error:", error);
-  // On error, allow stopping to prevent getting stuck
-  console.log(JSON.stringify({ decision: undefined }));
-  process.exit(1);
+  // Start the next round of fixes with a clean history
+  await updateSection(session_id, "stop", (current) => ({
+    ...current,
+    denialCount: 0,
+    attempts: [],
+    gateCache,
+  }));
+
+  const cached = results.filter((r) => r.cached).length;
+  console.error(
+    `[Stop] All quality gates passed${
+      cached > 0 ? ` (${cached} cached)` : ""
+    }, allowing stop`
+  );
+  return respond(allowStop(), {
+    reason: "all quality gates passed",
+    gates: results,
+  });
 });
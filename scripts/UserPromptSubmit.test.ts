@@ -0,0 +1,59 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { getSection, updateSection } from "../src/state";
+
+let root: string;
+
+beforeAll(async () => {
+  root = await mkdtemp(join(tmpdir(), "prompt-test-"));
+  process.env.QUALITY_GATES_STATE_DIR = join(root, "state");
+});
+
+afterAll(async () => {
+  delete process.env.QUALITY_GATES_STATE_DIR;
+  await rm(root, { recursive: true, force: true });
+});
+
+async function submitPrompt(sessionId: string): Promise<number> {
+  const proc = Bun.spawn(
+    ["bun", join(import.meta.dir, "UserPromptSubmit.ts")],
+    {
+      cwd: root,
+      env: { ...process.env, CLAUDE_PROJECT_DIR: root },
+      stdin: new Blob([
+        JSON.stringify({
+          session_id: sessionId,
+          transcript_path: join(root, `${sessionId}.jsonl`),
+          cwd: root,
+          hook_event_name: "UserPromptSubmit",
+          prompt: "Fix the build",
+        }),
+      ]),
+      stdout: "ignore",
+      stderr: "ignore",
+    }
+  );
+  return proc.exited;
+}
+
+describe("UserPromptSubmit", () => {
+  test("resets the safety valve", async () => {
+    await updateSection("released", "stop", (stop) => {
+      stop.denialCount = 3;
+      stop.attempts = [
+        { at: 1, failedGates: ["test"], errorCount: 1, fingerprints: ["a"] },
+      ];
+      stop.valveReleased = true;
+    });
+
+    expect(await submitPrompt("released")).toBe(0);
+
+    expect(await getSection("released", "stop")).toMatchObject({
+      denialCount: 0,
+      attempts: [],
+      valveReleased: false,
+    });
+  });
+});
@@ -4,6 +4,12 @@
  * ========================
  * This hook fires every time the user submits a prompt to Claude.
  *
+ * BUILT-IN BEHAVIOR:
+ * - Resets the Stop hook's safety valve, so each new request gets a fresh
+ *   budget of blocked stops. See src/valve.ts.
+ * - Records the prompt's arrival (not its text) in the audit log (see
+ *   src/audit.ts).
+ *
  * USE CASES:
  * - Analyze user prompts for keywords/patterns
  * - Inject additional context or instructions based on the prompt
@@ -33,29 +39,31 @@
  */
 
 import type {
-  UserPromptSubmitHookInput,
   UserPromptSubmitHookSpecificOutput,
   SyncHookJSONOutput,
 } from "@anthropic-ai/claude-agent-sdk";
+import { defineHook } from "../src/hook";
+import { resetSafetyValve } from "../src/valve";
 
 // Optional: Import your custom state management
-// import { getState, saveState } from '../src/state';
+// import { getSection, updateSection } from '../src/state';
 
 // =============================================================================
 // MAIN HOOK LOGIC
 // =============================================================================
 
-async function main() {
-  // Read input from stdin
-  const inputText = await Bun.stdin.text();
-  const input: UserPromptSubmitHookInput = JSON.parse(inputText);
-
+defineHook("UserPromptSubmit", async (input) => {
   // Extract useful information from the input
   const { session_id, cwd, prompt } = input;
 
   // Array to collect context messages to inject
   const contextMessages: string[] = [];
 
+  // ---------------------------------------------------------------------------
+  // Reset the Stop hook's safety valve for the new request
+  // ---------------------------------------------------------------------------
+  await resetSafetyValve(session_id);
+
   // ---------------------------------------------------------------------------
   // YOUR LOGIC HERE
   // ---------------------------------------------------------------------------
@@ -68,9 +76,9 @@ async function main() {
   //    }
   //
   // 2. Track prompt for session state:
-  //    const state = await getState(session_id) || { prompts: [] };
-  //    state.prompts.push({ text: prompt, timestamp: Date.now() });
-  //    await saveState(state);
+  //    await updateSection(session_id, 'prompts', (prompts) => {
+  //      prompts.push({ text: prompt, timestamp: Date.now() });
+  //    });
   //
   // 3. Analyze prompt length/complexity:
   //    const wordCount = prompt.split(/\s+/).length;
@@ -103,13 +111,6 @@ async function main() {
     hookSpecificOutput,
   };
 
-  // Write output to stdout
-  console.log(JSON.stringify(output));
-}
-
-main().catch((error) => {
-  console.error("[UserPromptSubmit] Error:", error);
-  // On error, output a minimal valid response to not break the session
-  console.log(JSON.stringify({ continue: true }));
-  process.exit(1);
+  // The runtime writes it to stdout (see src/hook.ts)
+  return output;
 });
@@ -0,0 +1,110 @@
+/**
+ * Contract tests for the hook scripts: each fixture in scripts/fixtures is
+ * a recorded hook payload and the exact JSON the script must write for it.
+ *
+ * scripts/fixtures/<Event>/<case>.json:
+ *   { "description", "files"?, "input", "output", "exitCode" }
+ *
+ * `files` are written into the project first, e.g. a `.tool-policy.json`;
+ * values that aren't strings are written as JSON.
+ *
+ * `$PROJECT` and `$HOME` in a fixture stand for a scratch bun project and
+ * home directory, so no real policy, state or audit log is involved.
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { basename, dirname, join } from "path";
+
+interface Fixture {
+  description: string;
+  files?: Record<string, unknown>;
+  input: Record<string, unknown>;
+  output: Record<string, unknown>;
+  exitCode: number;
+}
+
+const FIXTURES_DIR = join(import.meta.dir, "fixtures");
+
+let root: string;
+
+beforeEach(async () => {
+  root = await mkdtemp(join(tmpdir(), "contract-test-"));
+  await mkdir(join(root, "project"));
+  await mkdir(join(root, "home"));
+  await writeFile(
+    join(root, "project", "package.json"),
+    JSON.stringify({ name: "demo", scripts: {} })
+  );
+  await writeFile(join(root, "project", "bun.lock"), "");
+});
+
+afterEach(async () => {
+  await rm(root, { recursive: true, force: true });
+});
+
+/**
+ * Read a fixture with its placeholders filled in.
+ */
+async function loadFixture(path: string): Promise<Fixture> {
+  const escape = (p: string) => JSON.stringify(p).slice(1, -1);
+  const text = (await Bun.file(path).text())
+    .replaceAll("$PROJECT", escape(join(root, "project")))
+    .replaceAll("$HOME", escape(join(root, "home")));
+  return JSON.parse(text);
+}
+
+async function runScript(event: string, input: unknown) {
+  const proc = Bun.spawn(["bun", join(import.meta.dir, `${event}.ts`)], {
+    cwd: join(root, "project"),
+    env: {
+      ...process.env,
+      HOME: join(root, "home"),
+      CLAUDE_PROJECT_DIR: join(root, "project"),
+      QUALITY_GATES_STATE_DIR: join(root, "state"),
+      QUALITY_GATES_AUDIT_LOG: "off",
+      QUALITY_GATES_FAIL_CLOSED: "",
+    },
+    stdin: new Blob([JSON.stringify(input)]),
+    stdout: "pipe",
+    stderr: "pipe",
+  });
+  const [stdout, stderr, exitCode] = await Promise.all([
+    new Response(proc.stdout).text(),
+    new Response(proc.stderr).text(),
+    proc.exited,
+  ]);
+  return { stdout, stderr, exitCode };
+}
+
+const paths = [...new Bun.Glob("*/*.json").scanSync(FIXTURES_DIR)].sort();
+
+for (const path of paths) {
+  const event = dirname(path);
+  describe(event, () => {
+    test(basename(path, ".json"), async () => {
+      const fixture = await loadFixture(join(FIXTURES_DIR, path));
+      for (const [name, content] of Object.entries(fixture.files ?? {})) {
+        await writeFile(
+          join(root, "project", name),
+          typeof content === "string" ? content : JSON.stringify(content)
+        );
+      }
+      const { stdout, stderr, exitCode } = await runScript(
+        event,
+        fixture.input
+      );
+
+      // Exactly one line of JSON, whatever happened
+      const lines = stdout.trim().split("\n");
+      expect(lines).toHaveLength(1);
+      const actual = { output: JSON.parse(lines[0]!), exitCode };
+      const expected = { output: fixture.output, exitCode: fixture.exitCode };
+      if (!Bun.deepEquals(actual, expected)) {
+        console.error(`${path}: ${fixture.description}\n${stderr}`);
+      }
+      expect(actual).toEqual(expected);
+    });
+  });
+}
@@ -0,0 +1,197 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, readdir, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import type { HookInput } from "@anthropic-ai/claude-agent-sdk";
+import {
+  appendAuditRecord,
+  AUDIT_LOG_ENV,
+  AUDIT_MAX_BYTES_ENV,
+  AUDIT_MAX_FILES_ENV,
+  buildAuditRecord,
+  readAuditLog,
+  type AuditRecord,
+} from "./audit";
+
+const ENV = [
+  "CLAUDE_PROJECT_DIR",
+  AUDIT_LOG_ENV,
+  AUDIT_MAX_BYTES_ENV,
+  AUDIT_MAX_FILES_ENV,
+];
+
+let cwd: string;
+let logDir: string;
+let saved: Record<string, string | undefined>;
+
+beforeEach(async () => {
+  cwd = await mkdtemp(join(tmpdir(), "audit-test-"));
+  logDir = join(cwd, ".claude", "logs");
+  saved = Object.fromEntries(ENV.map((name) => [name, process.env[name]]));
+  for (const name of ENV) delete process.env[name];
+});
+
+afterEach(async () => {
+  for (const [name, value] of Object.entries(saved)) {
+    if (value === undefined) delete process.env[name];
+    else process.env[name] = value;
+  }
+  await rm(cwd, { recursive: true, force: true });
+});
+
+function record(n: number, session = "s1"): AuditRecord {
+  return {
+    ts: new Date(n).toISOString(),
+    session_id: session,
+    event: "PreToolUse",
+    tool_name: "Bash",
+    tool_use_id: `call-${n}`,
+    decision: "allow",
+    duration_ms: 1,
+  };
+}
+
+async function logFiles(): Promise<string[]> {
+  return (await readdir(logDir))
+    .filter((f) => f.endsWith(".jsonl") || /\.\d+$/.test(f))
+    .sort();
+}
+
+describe("appendAuditRecord", () => {
+  test("keeps the default log directory out of git", async () => {
+    await appendAuditRecord(cwd, record(1));
+    expect(await readFile(join(logDir, ".gitignore"), "utf8")).toBe("*\n");
+  });
+
+  test("adds a missing .gitignore to an existing log directory", async () => {
+    await mkdir(logDir, { recursive: true });
+    await appendAuditRecord(cwd, record(1));
+    expect(await readFile(join(logDir, ".gitignore"), "utf8")).toBe("*\n");
+  });
+
+  test("leaves a .gitignore that is there alone", async () => {
+    await mkdir(logDir, { recursive: true });
+    await writeFile(join(logDir, ".gitignore"), "*.jsonl\n");
+    await appendAuditRecord(cwd, record(1));
+    expect(await readFile(join(logDir, ".gitignore"), "utf8")).toBe(
+      "*.jsonl\n"
+    );
+  });
+
+  test("writes no .gitignore for a log somewhere else", async () => {
+    process.env[AUDIT_LOG_ENV] = "audit/hooks.jsonl";
+    await appendAuditRecord(cwd, record(1));
+    expect(await readdir(join(cwd, "audit"))).toEqual(["hooks.jsonl"]);
+  });
+
+  test("writes nothing when the log is off", async () => {
+    process.env[AUDIT_LOG_ENV] = "off";
+    await appendAuditRecord(cwd, record(1));
+    expect(await readdir(cwd)).toEqual([]);
+  });
+
+  test("rotates the log at the size cap", async () => {
+    const size = Buffer.byteLength(`${JSON.stringify(record(1))}\n`);
+    // Room for two records per file
+    process.env[AUDIT_MAX_BYTES_ENV] = String(size * 2);
+    for (let n = 1; n <= 5; n++) {
+      await appendAuditRecord(cwd, record(n));
+    }
+
+    expect(await logFiles()).toEqual([
+      "quality-gate-hooks.jsonl",
+      "quality-gate-hooks.jsonl.1",
+      "quality-gate-hooks.jsonl.2",
+    ]);
+    const ids = async (file: string) =>
+      (await readFile(join(logDir, file), "utf8"))
+        .trim()
+        .split("\n")
+        .map((line) => JSON.parse(line).tool_use_id);
+    expect(await ids("quality-gate-hooks.jsonl.2")).toEqual([
+      "call-1",
+      "call-2",
+    ]);
+    expect(await ids("quality-gate-hooks.jsonl.1")).toEqual([
+      "call-3",
+      "call-4",
+    ]);
+    expect(await ids("quality-gate-hooks.jsonl")).toEqual(["call-5"]);
+  });
+
+  test("keeps at most the configured number of rotated logs", async () => {
+    process.env[AUDIT_MAX_BYTES_ENV] = "1";
+    process.env[AUDIT_MAX_FILES_ENV] = "2";
+    for (let n = 1; n <= 6; n++) {
+      await appendAuditRecord(cwd, record(n));
+    }
+
+    expect(await logFiles()).toEqual([
+      "quality-gate-hooks.jsonl",
+      "quality-gate-hooks.jsonl.1",
+      "quality-gate-hooks.jsonl.2",
+    ]);
+    expect((await readAuditLog(cwd)).map((r) => r.tool_use_id)).toEqual([
+      "call-4",
+      "call-5",
+      "call-6",
+    ]);
+  });
+});
+
+describe("buildAuditRecord", () => {
+  const input = {
+    session_id: "s1",
+    transcript_path: "/tmp/s1.jsonl",
+    cwd: "/repo",
+    hook_event_name: "Stop",
+    stop_hook_active: false,
+  } as HookInput;
+
+  test("truncates long reasons", () => {
+    const reason = "x".repeat(5000);
+    const built = buildAuditRecord(
+      input,
+      { decision: "block", reason, systemMessage: "short" },
+      Date.now()
+    );
+    expect(built.decision).toBe("block");
+    expect(built.reason).toBe(`${"x".repeat(2000)}… (5000 chars)`);
+    expect(built.message).toBe("short");
+  });
+
+  test("keeps a reason at the limit whole", () => {
+    const reason = "x".repeat(2000);
+    expect(
+      buildAuditRecord(input, { decision: "block", reason }, Date.now()).reason
+    ).toBe(reason);
+  });
+});
+
+describe("readAuditLog", () => {
+  test("reads rotated logs oldest first, skipping torn lines", async () => {
+    await mkdir(logDir, { recursive: true });
+    const lines = (...records: AuditRecord[]) =>
+      records.map((r) => `${JSON.stringify(r)}\n`).join("");
+    const log = join(logDir, "quality-gate-hooks.jsonl");
+    await writeFile(`${log}.2`, lines(record(1), record(2, "s2")));
+    await writeFile(`${log}.1`, `${lines(record(3))}{"ts":`);
+    await writeFile(log, lines(record(4, "s2"), record(5)));
+
+    expect((await readAuditLog(cwd)).map((r) => r.tool_use_id)).toEqual([
+      "call-1",
+      "call-2",
+      "call-3",
+      "call-4",
+      "call-5",
+    ]);
+    expect((await readAuditLog(cwd, "s2")).map((r) => r.tool_use_id)).toEqual([
+      "call-2",
+      "call-4",
+    ]);
+  });
+
+  test("is empty without a log", async () => {
+    expect(await readAuditLog(cwd)).toEqual([]);
+  });
+});
@@ -0,0 +1,374 @@
+/**
+ * AUDIT LOG
+ * ==========
+ * One JSON line per hook invocation, so you can reconstruct what Claude did
+ * in a session and why a tool call was denied or a stop was blocked.
+ *
+ * Each record has:
+ * - ts: ISO timestamp the hook finished
+ * - session_id, event: the session and hook event ("PreToolUse", ...)
+ * - tool_name, tool_use_id: for the tool events
+ * - source: why a session started, for SessionStart
+ * - decision, reason: what the hook decided ("allow", "deny", "ask",
+ *   "block", "redact", ...) and why, or "error" if it failed open (see
+ *   src/hook.ts)
+ * - rule: which policy rule or check decided a tool call
+ * - changes: input rewrites, for PreToolUse (see src/transform.ts)
+ * - files: files a tool call touched, for PostToolUse
+ * - gates: each quality gate's status and duration, for Stop
+ * - message: the systemMessage shown to the user, if any
+ * - duration_ms: how long the hook took
+ *
+ * The log is `.claude/logs/quality-gate-hooks.jsonl` in the project by
+ * default. Configure it with environment variables:
+ * - QUALITY_GATES_AUDIT_LOG: another path (relative to the project), or
+ *   "off" to turn the log off
+ * - QUALITY_GATES_AUDIT_MAX_BYTES: size at which the log is rotated to
+ *   `.1` (default 10 MB)
+ * - QUALITY_GATES_AUDIT_MAX_FILES: rotated logs kept (default 5)
+ *
+ * Writing the audit log never fails a hook; problems are logged to stderr.
+ */
+
+import type {
+  HookInput,
+  SyncHookJSONOutput,
+} from "@anthropic-ai/claude-agent-sdk";
+import { dirname, join, resolve } from "path";
+import type { QualityGateResult } from "./gates";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type AuditGateStatus =
+  "passed" | "failed" | "skipped" | "timed-out" | "cached";
+
+export interface AuditGateResult {
+  name: string;
+  status: AuditGateStatus;
+  duration_ms?: number;
+}
+
+export interface AuditRecord {
+  ts: string;
+  session_id: string;
+  event: string;
+  tool_name?: string;
+  tool_use_id?: string;
+  source?: string;
+  decision?: string;
+  reason?: string;
+  rule?: string;
+  changes?: string[];
+  files?: string[];
+  gates?: AuditGateResult[];
+  message?: string;
+  duration_ms: number;
+}
+
+/**
+ * What a hook knows about its invocation beyond its input and output.
+ * `decision` and `reason` override what is read from the output.
+ */
+export interface AuditDetails {
+  decision?: string;
+  reason?: string;
+  rule?: string;
+  changes?: string[];
+  files?: string[];
+  gates?: QualityGateResult[];
+}
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+export const AUDIT_LOG_ENV = "QUALITY_GATES_AUDIT_LOG";
+
+export const AUDIT_MAX_BYTES_ENV = "QUALITY_GATES_AUDIT_MAX_BYTES";
+
+export const AUDIT_MAX_FILES_ENV = "QUALITY_GATES_AUDIT_MAX_FILES";
+
+/**
+ * Default log location, relative to the project.
+ */
+const DEFAULT_AUDIT_LOG = join(".claude", "logs", "quality-gate-hooks.jsonl");
+
+export const DEFAULT_AUDIT_MAX_BYTES = 10 * 1024 * 1024;
+
+export const DEFAULT_AUDIT_MAX_FILES = 5;
+
+/**
+ * Longest reason or message kept in a record. Block reasons carry gate
+ * output, which can run to megabytes.
+ */
+const MAX_TEXT_LENGTH = 2000;
+
+// =============================================================================
+// SETTINGS
+// =============================================================================
+
+/**
+ * Read a non-negative integer setting from the environment.
+ */
+function intFromEnv(name: string, fallback: number): number {
+  const setting = process.env[name];
+  if (!setting) {
+    return fallback;
+  }
+  const value = Number(setting);
+  if (!Number.isInteger(value) || value < 0) {
+    console.error(
+      `[Audit] Ignoring ${name}=${setting}: must be a non-negative integer`
+    );
+    return fallback;
+  }
+  return value;
+}
+
+/**
+ * Get the audit log path for a project, or null if the log is off.
+ */
+export function getAuditLogPath(cwd: string): string | null {
+  const setting = process.env[AUDIT_LOG_ENV];
+  if (setting === "off" || setting === "0") {
+    return null;
+  }
+  // Claude Code runs hooks with CLAUDE_PROJECT_DIR set to the project root
+  const projectDir = process.env.CLAUDE_PROJECT_DIR || cwd;
+  return resolve(projectDir, setting || DEFAULT_AUDIT_LOG);
+}
+
+// =============================================================================
+// RECORDS
+// =============================================================================
+
+function truncate(text: string | undefined): string | undefined {
+  return text !== undefined && text.length > MAX_TEXT_LENGTH
+    ? `${text.slice(0, MAX_TEXT_LENGTH)}… (${text.length} chars)`
+    : text;
+}
+
+function gateStatus(result: QualityGateResult): AuditGateStatus {
+  if (result.cached) return "cached";
+  if (result.timedOut) return "timed-out";
+  if (result.skipped) return "skipped";
+  return result.passed ? "passed" : "failed";
+}
+
+/**
+ * Work out what a hook decided from its output: a permission decision
+ * for PreToolUse, a block for Stop, a redaction for PostToolUse.
+ */
+function decisionOf(
+  event: string,
+  output: SyncHookJSONOutput
+): { decision?: string; reason?: string } {
+  const specific = output.hookSpecificOutput as
+    Record<string, unknown> | undefined;
+
+  if (typeof specific?.permissionDecision === "string") {
+    return {
+      decision: specific.permissionDecision,
+      reason: specific.permissionDecisionReason as string | undefined,
+    };
+  }
+  if (output.decision === "block") {
+    return { decision: "block", reason: output.reason };
+  }
+  if (output.continue === false) {
+    return { decision: "stop", reason: output.stopReason };
+  }
+  if (specific?.updatedMCPToolOutput !== undefined) {
+    return { decision: "redact" };
+  }
+  if (event === "Stop" || event === "SubagentStop") {
+    return { decision: "allow" };
+  }
+  return {};
+}
+
+/**
+ * Build the audit record for a hook invocation.
+ *
+ * @param input - The hook's input
+ * @param output - What the hook wrote to stdout
+ * @param startedAt - When the hook started (epoch ms)
+ * @param details - Anything else the hook knows
+ */
+export function buildAuditRecord(
+  input: HookInput,
+  output: SyncHookJSONOutput,
+  startedAt: number,
+  details: AuditDetails = {}
+): AuditRecord {
+  const fields = input as unknown as Record<string, unknown>;
+  const decided = decisionOf(input.hook_event_name, output);
+  const now = Date.now();
+
+  return {
+    ts: new Date(now).toISOString(),
+    session_id: input.session_id,
+    event: input.hook_event_name,
+    tool_name: fields.tool_name as string | undefined,
+    tool_use_id: fields.tool_use_id as string | undefined,
+    source:
+      input.hook_event_name === "SessionStart"
+        ? (fields.source as string)
+        : undefined,
+    decision: details.decision ?? decided.decision,
+    reason: truncate(details.reason ?? decided.reason),
+    rule: details.rule,
+    changes: details.changes?.length ? details.changes : undefined,
+    files: details.files?.length ? details.files : undefined,
+    gates: details.gates?.map((r) => ({
+      name: r.name,
+      status: gateStatus(r),
+      duration_ms: r.durationMs,
+    })),
+    message: truncate(output.systemMessage),
+    duration_ms: now - startedAt,
+  };
+}
+
+// =============================================================================
+// WRITING
+// =============================================================================
+
+/**
+ * Rotate the log if it has reached the size cap: `log` becomes `log.1`,
+ * `log.1` becomes `log.2`, and so on, dropping the oldest past the limit.
+ *
+ * Concurrent hooks may all find the log full; only the one that manages
+ * to move it aside rotates, so no record is lost.
+ */
+async function rotateIfFull(path: string, incoming: number): Promise<void> {
+  const fs = await import("fs/promises");
+  const maxBytes = intFromEnv(AUDIT_MAX_BYTES_ENV, DEFAULT_AUDIT_MAX_BYTES);
+  const maxFiles = intFromEnv(AUDIT_MAX_FILES_ENV, DEFAULT_AUDIT_MAX_FILES);
+
+  const size = await fs.stat(path).then(
+    (s) => s.size,
+    () => 0
+  );
+  if (maxBytes === 0 || size === 0 || size + incoming <= maxBytes) {
+    return;
+  }
+
+  const aside = `${path}.${process.pid}.rotating`;
+  try {
+    await fs.rename(path, aside);
+  } catch {
+    return; // Another hook is rotating it
+  }
+
+  await fs.unlink(`${path}.${maxFiles}`).catch(() => {});
+  for (let n = maxFiles - 1; n >= 1; n--) {
+    await fs.rename(`${path}.${n}`, `${path}.${n + 1}`).catch(() => {});
+  }
+  if (maxFiles > 0) {
+    await fs.rename(aside, `${path}.1`);
+  } else {
+    await fs.unlink(aside);
+  }
+}
+
+/**
+ * Append a record to a project's audit log.
+ */
+export async function appendAuditRecord(
+  cwd: string,
+  record: AuditRecord
+): Promise<void> {
+  const path = getAuditLogPath(cwd);
+  if (!path) {
+    return;
+  }
+
+  try {
+    const fs = await import("fs/promises");
+    const dir = dirname(path);
+    await fs.mkdir(dir, { recursive: true });
+    // Keep the default log directory out of git, even if it already existed
+    if (!process.env[AUDIT_LOG_ENV]) {
+      await fs
+        .writeFile(join(dir, ".gitignore"), "*\n", { flag: "wx" })
+        .catch((error: NodeJS.ErrnoException) => {
+          if (error.code !== "EEXIST") throw error;
+        });
+    }
+
+    const line = `${JSON.stringify(record)}\n`;
+    await rotateIfFull(path, Buffer.byteLength(line));
+    await fs.appendFile(path, line);
+  } catch (error) {
+    console.error(`[Audit] Could not write ${path}: ${error}`);
+  }
+}
+
+/**
+ * Record a hook invocation in the audit log. Call it once per invocation,
+ * with the output the hook wrote.
+ *
+ * @param input - The hook's input
+ * @param output - What the hook wrote to stdout
+ * @param startedAt - When the hook started (epoch ms)
+ * @param details - Anything else the hook knows
+ */
+export async function auditHook(
+  input: HookInput,
+  output: SyncHookJSONOutput,
+  startedAt: number,
+  details: AuditDetails = {}
+): Promise<void> {
+  await appendAuditRecord(
+    input.cwd,
+    buildAuditRecord(input, output, startedAt, details)
+  );
+}
+
+// =============================================================================
+// READING
+// =============================================================================
+
+/**
+ * Read a project's audit log, rotated files included, oldest record
+ * first.
+ *
+ * @param cwd - The project directory
+ * @param sessionId - Only return this session's records
+ */
+export async function readAuditLog(
+  cwd: string,
+  sessionId?: string
+): Promise<AuditRecord[]> {
+  const path = getAuditLogPath(cwd);
+  if (!path) {
+    return [];
+  }
+
+  const maxFiles = intFromEnv(AUDIT_MAX_FILES_ENV, DEFAULT_AUDIT_MAX_FILES);
+  const files = [
+    ...Array.from({ length: maxFiles }, (_, i) => `${path}.${maxFiles - i}`),
+    path,
+  ];
+
+  const records: AuditRecord[] = [];
+  for (const file of files) {
+    const handle = Bun.file(file);
+    if (!(await handle.exists())) continue;
+    for (const line of (await handle.text()).split("\n")) {
+      if (!line) continue;
+      try {
+        const record = JSON.parse(line) as AuditRecord;
+        if (sessionId === undefined || record.session_id === sessionId) {
+          records.push(record);
+        }
+      } catch {
+        // A torn line from a crashed writer; skip it
+      }
+    }
+  }
+  return records;
+}
@@ -0,0 +1,172 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { createGateCache, isCacheDisabled, NO_CACHE_ENV } from "./cache";
+import type { QualityGate } from "./config";
+import { runQualityGates, type GateRun } from "./gates";
+
+const TTL = 60_000;
+
+const typecheck: QualityGate = {
+  name: "typecheck",
+  command: "bun",
+  args: ["run", "typecheck"],
+};
+const lint: QualityGate = {
+  name: "lint",
+  command: "eslint",
+  args: ["."],
+  scopedArgs: ["{files}"],
+};
+
+// Whole-project and scoped runs
+const WHOLE: GateRun = { args: typecheck.args, files: null };
+const SCOPED: GateRun = { args: ["a.ts"], files: ["a.ts"] };
+
+let cwd: string;
+
+async function git(...args: string[]): Promise<void> {
+  const proc = Bun.spawn(["git", ...args], {
+    cwd,
+    env: {
+      ...process.env,
+      GIT_AUTHOR_NAME: "Test",
+      GIT_AUTHOR_EMAIL: "test@example.com",
+      GIT_COMMITTER_NAME: "Test",
+      GIT_COMMITTER_EMAIL: "test@example.com",
+    },
+    stdout: "ignore",
+    stderr: "ignore",
+  });
+  await proc.exited;
+}
+
+beforeEach(async () => {
+  cwd = await mkdtemp(join(tmpdir(), "cache-test-"));
+  await writeFile(join(cwd, "a.ts"), "export const a = 1;\n");
+  await writeFile(join(cwd, "b.ts"), "export const b = 1;\n");
+  await writeFile(join(cwd, "bun.lock"), "{}\n");
+  await git("init", "-q");
+  await git("add", "-A");
+  await git("commit", "-q", "-m", "initial");
+  // Claude's change this session
+  await writeFile(join(cwd, "a.ts"), "export const a = 2;\n");
+});
+
+afterEach(async () => {
+  delete process.env[NO_CACHE_ENV];
+  await rm(cwd, { recursive: true, force: true });
+});
+
+/**
+ * A gate's key from a fresh cache, as the next Stop would compute it.
+ */
+function keyFor(gate: QualityGate, run: GateRun): Promise<string> {
+  return createGateCache(cwd, { changedFiles: ["a.ts"], ttl: TTL }).keyFor(
+    gate,
+    run
+  );
+}
+
+describe("cache keys", () => {
+  test("are stable while nothing changes", async () => {
+    expect(await keyFor(typecheck, WHOLE)).toBe(await keyFor(typecheck, WHOLE));
+    expect(await keyFor(lint, SCOPED)).toBe(await keyFor(lint, SCOPED));
+  });
+
+  test("change with the contents of the files checked", async () => {
+    const whole = await keyFor(typecheck, WHOLE);
+    const scoped = await keyFor(lint, SCOPED);
+    await writeFile(join(cwd, "a.ts"), "export const a = 3;\n");
+    expect(await keyFor(typecheck, WHOLE)).not.toBe(whole);
+    expect(await keyFor(lint, SCOPED)).not.toBe(scoped);
+  });
+
+  test("of whole-project gates change with files Claude didn't touch", async () => {
+    const whole = await keyFor(typecheck, WHOLE);
+    const scoped = await keyFor(lint, SCOPED);
+    // A hand edit, not in the session's changed files
+    await writeFile(join(cwd, "b.ts"), "export const b = 'oops';\n");
+    expect(await keyFor(typecheck, WHOLE)).not.toBe(whole);
+    // A scoped gate doesn't check b.ts
+    expect(await keyFor(lint, SCOPED)).toBe(scoped);
+  });
+
+  test("change with the gate's definition", async () => {
+    const key = await keyFor(typecheck, WHOLE);
+    expect(await keyFor({ ...typecheck, command: "npx" }, WHOLE)).not.toBe(key);
+    expect(
+      await keyFor({ ...typecheck, args: ["run", "check"] }, WHOLE)
+    ).not.toBe(key);
+    expect(
+      await keyFor({ ...typecheck, env: { STRICT: "1" } }, WHOLE)
+    ).not.toBe(key);
+  });
+
+  test("change with the lockfile and the commit", async () => {
+    const key = await keyFor(lint, SCOPED);
+    await writeFile(join(cwd, "bun.lock"), '{"lockfileVersion":1}\n');
+    const afterLock = await keyFor(lint, SCOPED);
+    expect(afterLock).not.toBe(key);
+    await git("commit", "-q", "-am", "next");
+    expect(await keyFor(lint, SCOPED)).not.toBe(afterLock);
+  });
+});
+
+describe("entries", () => {
+  test("expire after the TTL", () => {
+    const now = Date.now();
+    const cache = createGateCache(cwd, {
+      entries: {
+        fresh: { key: "k1", at: now - TTL / 2 },
+        stale: { key: "k2", at: now - TTL - 1 },
+      },
+      changedFiles: [],
+      ttl: TTL,
+    });
+    expect(cache.has("fresh", "k1")).toBe(true);
+    expect(cache.has("stale", "k2")).toBe(false);
+    expect(Object.keys(cache.entries)).toEqual(["fresh"]);
+  });
+
+  test("only passing gates are cached", async () => {
+    const gates: QualityGate[] = [
+      { name: "pass", command: "true", args: [] },
+      { name: "fail", command: "false", args: [] },
+    ];
+    const cache = createGateCache(cwd, { changedFiles: ["a.ts"], ttl: TTL });
+    const results = await runQualityGates(cwd, gates, {
+      mode: "parallel",
+      concurrency: 2,
+      cache,
+    });
+    expect(results.map((r) => [r.name, r.passed])).toEqual([
+      ["pass", true],
+      ["fail", false],
+    ]);
+    expect(Object.keys(cache.entries)).toEqual(["pass"]);
+
+    // The next run reuses the pass and runs the failure again
+    const again = await runQualityGates(cwd, gates, {
+      mode: "parallel",
+      concurrency: 2,
+      cache,
+    });
+    expect(again.map((r) => [r.name, r.cached ?? false])).toEqual([
+      ["pass", true],
+      ["fail", false],
+    ]);
+  });
+});
+
+describe("isCacheDisabled", () => {
+  test("with a zero TTL or QUALITY_GATES_NO_CACHE", () => {
+    expect(isCacheDisabled(TTL)).toBe(false);
+    expect(isCacheDisabled(0)).toBe(true);
+    process.env[NO_CACHE_ENV] = "1";
+    expect(isCacheDisabled(TTL)).toBe(true);
+    process.env[NO_CACHE_ENV] = "0";
+    expect(isCacheDisabled(TTL)).toBe(false);
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * GATE RESULT CACHE
+ * ==================
+ * Lets the Stop hook skip gates that already passed with the same inputs,
+ * so stopping several times in a row doesn't re-run every gate.
+ *
+ * A gate's cache key is a hash of:
+ * - the gate's definition (command, args, env) and the args it runs with
+ * - the contents of the files it checks: the files it is scoped to, or,
+ *   when it checks the whole project, every file git reports changed (not
+ *   just the ones Claude touched, so a hand edit elsewhere still counts)
+ * - the project's lockfiles
+ * - the current git commit
+ *
+ * INVALIDATION:
+ * - Any change to the inputs above produces a new key, so the gate runs.
+ * - Only passes are cached; a failing or timed-out gate always runs again.
+ * - Entries expire after `cacheTtl` (default 1 hour), since a gate can
+ *   depend on files outside the changed set. `cacheTtl: 0` disables caching.
+ * - Set QUALITY_GATES_NO_CACHE=1 to force a fresh run of every gate.
+ *
+ * Entries are stored in the "stop" section of session state.
+ */
+
+import { join } from "path";
+import type { QualityGate } from "./config";
+import type { GateResultCache, GateRun, QualityGateResult } from "./gates";
+import { getChangedFiles, getHeadCommit } from "./git";
+import type { CachedGateResult } from "./state";
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+/**
+ * Environment variable that forces every gate to run fresh.
+ */
+export const NO_CACHE_ENV = "QUALITY_GATES_NO_CACHE";
+
+/**
+ * Lockfiles whose contents are part of every cache key. A dependency
+ * update can change any gate's result.
+ */
+const LOCKFILES = [
+  "bun.lock",
+  "bun.lockb",
+  "package-lock.json",
+  "pnpm-lock.yaml",
+  "yarn.lock",
+  "Cargo.lock",
+  "go.sum",
+  "poetry.lock",
+  "uv.lock",
+];
+
+export interface GateCacheOptions {
+  /** Existing entries, e.g. from session state */
+  entries?: Record<string, CachedGateResult>;
+  /** The files the gates are checking, e.g. the ones Claude touched */
+  changedFiles: string[];
+  /** Base ref for finding every changed file; see ChangedFilesOptions */
+  baseRef?: string;
+  /** Milliseconds an entry stays valid */
+  ttl: number;
+}
+
+export interface GateCache extends GateResultCache {
+  /** Current entries, to be saved back to session state */
+  readonly entries: Record<string, CachedGateResult>;
+}
+
+// =============================================================================
+// HASHING
+// =============================================================================
+
+function hash(value: string | ArrayBuffer): string {
+  return Bun.hash(value).toString(16);
+}
+
+/**
+ * Hash a file's contents, or mark it as missing.
+ */
+async function hashFile(path: string): Promise<string> {
+  const file = Bun.file(path);
+  return (await file.exists()) ? hash(await file.arrayBuffer()) : "missing";
+}
+
+// =============================================================================
+// CACHE
+// =============================================================================
+
+/**
+ * Check whether caching is turned off for this run.
+ */
+export function isCacheDisabled(ttl: number): boolean {
+  const flag = process.env[NO_CACHE_ENV];
+  return ttl <= 0 || (!!flag && flag !== "0");
+}
+
+/**
+ * Create a gate result cache for one run in `cwd`.
+ * Expired entries are dropped up front.
+ */
+export function createGateCache(
+  cwd: string,
+  options: GateCacheOptions
+): GateCache {
+  const now = Date.now();
+  const entries: Record<string, CachedGateResult> = {};
+  for (const [name, entry] of Object.entries(options.entries ?? {})) {
+    if (now - entry.at < options.ttl) {
+      entries[name] = entry;
+    }
+  }
+
+  // Shared by every gate in the run, so each file is read once
+  const fileHashes = new Map<string, Promise<string>>();
+  const hashOnce = (file: string) => {
+    let hashed = fileHashes.get(file);
+    if (!hashed) {
+      hashed = hashFile(join(cwd, file));
+      fileHashes.set(file, hashed);
+    }
+    return hashed;
+  };
+
+  let projectKey: Promise<string> | undefined;
+  const getProjectKey = () =>
+    (projectKey ??= (async () => {
+      const head = await getHeadCommit(cwd);
+      const locks = await Promise.all(
+        LOCKFILES.map(async (f) => `${f}:${await hashOnce(f)}`)
+      );
+      return hash([head ?? "", ...locks].join("\0"));
+    })());
+
+  // Gates that check the whole project depend on every changed file
+  let projectFiles: Promise<string[]> | undefined;
+  const getProjectFiles = () =>
+    (projectFiles ??= getChangedFiles(cwd, { baseRef: options.baseRef }).then(
+      (files) => [...new Set([...options.changedFiles, ...files])]
+    ));
+
+  return {
+    entries,
+
+    async keyFor(gate: QualityGate, run: GateRun): Promise<string> {
+      const files = [...(run.files ?? (await getProjectFiles()))].sort();
+      const contents = await Promise.all(
+        files.map(async (f) => `${f}:${await hashOnce(f)}`)
+      );
+      return hash(
+        [
+          await getProjectKey(),
+          JSON.stringify([gate.command, gate.args, gate.env ?? {}, run.args]),
+          ...contents,
+        ].join("\0")
+      );
+    },
+
+    has(gateName: string, key: string): boolean {
+      return entries[gateName]?.key === key;
+    },
+
+    set(gateName: string, key: string, result: QualityGateResult): void {
+      entries[gateName] = {
+        key,
+        at: Date.now(),
+        durationMs: result.durationMs,
+      };
+    },
+  };
+}
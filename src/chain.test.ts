@@ -0,0 +1,202 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import {
+  clearHandlers,
+  getHandlers,
+  registerHandler,
+  runHandlers,
+  type RegisteredHandler,
+} from "./chain";
+import type { HookContext, HookHandler } from "./hook";
+import type { HookInputFor } from "./schema";
+import {
+  allowTool,
+  askTool,
+  blockStop,
+  continueOutput,
+  denyTool,
+  modifyToolInput,
+} from "./utils";
+
+const INPUT: HookInputFor<"PreToolUse"> = {
+  session_id: "s1",
+  transcript_path: "/tmp/s1.jsonl",
+  cwd: "/repo",
+  hook_event_name: "PreToolUse",
+  tool_name: "Bash",
+  tool_input: { command: "git push --force" },
+  tool_use_id: "toolu_1",
+};
+
+function context(): HookContext {
+  return {
+    startedAt: Date.now(),
+    signal: new AbortController().signal,
+    audit: {},
+  };
+}
+
+function chain(
+  ...handlers: [string, HookHandler<"PreToolUse">][]
+): RegisteredHandler<"PreToolUse">[] {
+  return handlers.map(([name, handler], order) => ({ name, order, handler }));
+}
+
+/**
+ * A handler that records that it ran and decides with its own rule.
+ */
+function deciding(
+  ran: string[],
+  name: string,
+  output: ReturnType<typeof allowTool>,
+  rule?: string
+): [string, HookHandler<"PreToolUse">] {
+  return [
+    name,
+    (_, { audit }) => {
+      ran.push(name);
+      if (rule) audit.rule = rule;
+      return output;
+    },
+  ];
+}
+
+afterEach(() => clearHandlers());
+
+describe("conflicting handlers", () => {
+  test("deny beats allow and ends the chain", async () => {
+    const ran: string[] = [];
+    const ctx = context();
+    const output = await runHandlers(
+      "PreToolUse",
+      INPUT,
+      ctx,
+      chain(
+        deciding(ran, "rules", allowTool("allowed by rule"), "rules[0]"),
+        deciding(ran, "sandbox", denyTool("outside the project")),
+        deciding(ran, "quota", askTool("quota"))
+      )
+    );
+
+    expect(output.hookSpecificOutput).toEqual({
+      hookEventName: "PreToolUse",
+      permissionDecision: "deny",
+      permissionDecisionReason: "outside the project",
+    });
+    expect(ran).toEqual(["rules", "sandbox"]);
+    // The overruled handler's rule isn't recorded
+    expect(ctx.audit.rule).toBe("sandbox");
+  });
+
+  test("ask beats allow, with every asking handler's reason", async () => {
+    const ctx = context();
+    const output = await runHandlers(
+      "PreToolUse",
+      INPUT,
+      ctx,
+      chain(
+        deciding([], "rules", allowTool("allowed"), "rules[0]"),
+        deciding([], "checks", askTool("Force push"), "bash check force"),
+        deciding([], "custom", askTool("Pushes need review"))
+      )
+    );
+
+    expect(output.hookSpecificOutput).toMatchObject({
+      permissionDecision: "ask",
+      permissionDecisionReason: "Force push\nPushes need review",
+    });
+    expect(ctx.audit.rule).toBe("bash check force");
+  });
+
+  test("patches merge in order and later handlers see them", async () => {
+    let seen: unknown;
+    const output = await runHandlers(
+      "PreToolUse",
+      INPUT,
+      context(),
+      chain(
+        ["timeout", () => modifyToolInput({ timeout: 1000 })],
+        ["rewrite", () => modifyToolInput({ command: "git push" })],
+        [
+          "reader",
+          ({ tool_input }) => {
+            seen = tool_input;
+            return continueOutput();
+          },
+        ]
+      )
+    );
+
+    const patched = { command: "git push", timeout: 1000 };
+    expect(seen).toEqual(patched);
+    expect(output.hookSpecificOutput).toMatchObject({ updatedInput: patched });
+  });
+
+  test("a deny drops the patches", async () => {
+    const output = await runHandlers(
+      "PreToolUse",
+      INPUT,
+      context(),
+      chain(
+        ["timeout", () => modifyToolInput({ timeout: 1000 })],
+        ["deny", () => denyTool("no")]
+      )
+    );
+    expect(output.hookSpecificOutput).toMatchObject({
+      permissionDecision: "deny",
+      updatedInput: undefined,
+    });
+  });
+
+  test("a block wins, with every block's reason", async () => {
+    const input: HookInputFor<"Stop"> = {
+      ...INPUT,
+      hook_event_name: "Stop",
+      stop_hook_active: false,
+    };
+    const output = await runHandlers("Stop", input, context(), [
+      { name: "a", order: 0, handler: () => ({}) },
+      { name: "b", order: 1, handler: () => blockStop("lint failed") },
+    ]);
+    expect(output).toMatchObject({ decision: "block", reason: "lint failed" });
+  });
+
+  test("continue false wins and ends the chain", async () => {
+    const ran: string[] = [];
+    const output = await runHandlers(
+      "PreToolUse",
+      INPUT,
+      context(),
+      chain(
+        deciding(ran, "ok", continueOutput()),
+        deciding(ran, "stop", { continue: false, stopReason: "halt" }),
+        deciding(ran, "later", continueOutput())
+      )
+    );
+    expect(output).toMatchObject({ continue: false, stopReason: "halt" });
+    expect(ran).toEqual(["ok", "stop"]);
+  });
+});
+
+describe("registry", () => {
+  test("orders handlers by order, then registration", () => {
+    const handler = () => continueOutput();
+    registerHandler("PreToolUse", "late", handler, { order: 200 });
+    registerHandler("PreToolUse", "first", handler);
+    registerHandler("PreToolUse", "second", handler);
+    registerHandler("PreToolUse", "early", handler, { order: 10 });
+
+    expect(getHandlers("PreToolUse").map((h) => h.name)).toEqual([
+      "early",
+      "first",
+      "second",
+      "late",
+    ]);
+  });
+
+  test("rejects a duplicate name", () => {
+    registerHandler("Stop", "gates", () => ({}));
+    expect(() => registerHandler("Stop", "gates", () => ({}))).toThrow(
+      'Stop already has a handler named "gates"'
+    );
+  });
+});
@@ -0,0 +1,321 @@
+/**
+ * HANDLER CHAINS
+ * ===============
+ * Several independent handlers for one hook event, run in order with their
+ * outputs merged into the one output the hook writes.
+ *
+ * Register handlers, then run the event's chain (see src/hook.ts):
+ *
+ *   registerHandler("PreToolUse", "no-web", (input) =>
+ *     input.tool_name === "WebFetch" ? denyTool("No web access") : continueOutput()
+ *   );
+ *   registerHandler("PreToolUse", "quota", checkQuota, { order: 300 });
+ *   defineHookChain("PreToolUse");
+ *
+ * Handlers run by `order` (default 100), then in the order they were
+ * registered. They share the hook's context, so each can add to the audit
+ * details. The audit `rule` is the deciding handler's: the rule it set, or
+ * its name.
+ *
+ * MERGING:
+ * - permissionDecision: deny wins over ask, ask over allow; the reason is
+ *   the reasons of the handlers with the winning decision
+ * - updatedInput: each handler's is a patch, shallow-merged over the input
+ *   in order; later handlers see the patched tool_input. Dropped if the call
+ *   is denied.
+ * - additionalContext, systemMessage: concatenated, one per line
+ * - decision: block wins; the reasons are concatenated
+ * - continue: false wins; the stop reasons are concatenated
+ * - suppressOutput: true wins
+ * - updatedMCPToolOutput: the last handler's
+ *
+ * A handler that denies the tool call, blocks or stops ends the chain:
+ * later handlers don't run, so they can't use up a quota or record a
+ * change for a call that won't happen.
+ */
+
+import type { SyncHookJSONOutput } from "@anthropic-ai/claude-agent-sdk";
+import {
+  defineHook,
+  type HookContext,
+  type HookHandler,
+  type HookOptions,
+} from "./hook";
+import type { HookEventName, HookInputFor } from "./schema";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface RegisteredHandler<E extends HookEventName> {
+  /** Unique within the event; used in logs and the audit log */
+  name: string;
+  order: number;
+  handler: HookHandler<E>;
+}
+
+export interface HandlerOptions {
+  /** Lower runs first (default 100) */
+  order?: number;
+}
+
+/**
+ * A handler's output, with the handler that returned it.
+ */
+export interface HandlerOutput {
+  name: string;
+  output: SyncHookJSONOutput;
+  /** The audit `rule` the handler set, if any */
+  rule?: string;
+}
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+export const DEFAULT_HANDLER_ORDER = 100;
+
+const PERMISSION_ORDER = ["allow", "ask", "deny"];
+
+// =============================================================================
+// REGISTRY
+// =============================================================================
+
+const registry = new Map<HookEventName, RegisteredHandler<HookEventName>[]>();
+
+/**
+ * Register a handler for an event.
+ *
+ * @throws Error if the event already has a handler with this name
+ */
+export function registerHandler<E extends HookEventName>(
+  event: E,
+  name: string,
+  handler: HookHandler<E>,
+  options: HandlerOptions = {}
+): void {
+  const handlers = registry.get(event) ?? [];
+  if (handlers.some((h) => h.name === name)) {
+    throw new Error(`${event} already has a handler named "${name}"`);
+  }
+  handlers.push({
+    name,
+    order: options.order ?? DEFAULT_HANDLER_ORDER,
+    handler: handler as unknown as HookHandler<HookEventName>,
+  });
+  registry.set(event, handlers);
+}
+
+/**
+ * Get an event's handlers in the order they run.
+ */
+export function getHandlers<E extends HookEventName>(
+  event: E
+): RegisteredHandler<E>[] {
+  const handlers = (registry.get(event) ??
+    []) as unknown as RegisteredHandler<E>[];
+  // Array.prototype.sort is stable, so ties keep registration order
+  return [...handlers].sort((a, b) => a.order - b.order);
+}
+
+/**
+ * Remove an event's handlers, or every event's.
+ */
+export function clearHandlers(event?: HookEventName): void {
+  if (event) {
+    registry.delete(event);
+  } else {
+    registry.clear();
+  }
+}
+
+// =============================================================================
+// MERGING
+// =============================================================================
+
+function specificOf(output: SyncHookJSONOutput): Record<string, unknown> {
+  return (output.hookSpecificOutput ?? {}) as Record<string, unknown>;
+}
+
+/**
+ * Whether an output ends the chain: a denied tool call, a block or a stop.
+ */
+function isFinal(output: SyncHookJSONOutput): boolean {
+  return (
+    specificOf(output).permissionDecision === "deny" ||
+    output.decision === "block" ||
+    output.continue === false
+  );
+}
+
+function joinDefined(
+  values: (string | undefined)[],
+  separator = "\n"
+): string | undefined {
+  const defined = values.filter((v): v is string => Boolean(v));
+  return defined.length > 0 ? defined.join(separator) : undefined;
+}
+
+/**
+ * Merge handler outputs into one output for an event (see MERGING above).
+ *
+ * @param event - The hook event
+ * @param outputs - Each handler's output, in the order they ran
+ * @param toolInput - The tool input the updatedInput patches apply to;
+ *   Claude Code replaces the whole input with updatedInput
+ */
+export function mergeOutputs(
+  event: HookEventName,
+  outputs: HandlerOutput[],
+  toolInput: Record<string, unknown> = {}
+): SyncHookJSONOutput {
+  const all = outputs.map((o) => o.output);
+  const merged: SyncHookJSONOutput = {};
+
+  if (all.some((o) => o.continue === false)) {
+    merged.continue = false;
+    merged.stopReason = joinDefined(all.map((o) => o.stopReason));
+  } else if (all.some((o) => o.continue === true)) {
+    merged.continue = true;
+  }
+  if (all.some((o) => o.suppressOutput)) {
+    merged.suppressOutput = true;
+  }
+  if (all.some((o) => o.decision === "block")) {
+    merged.decision = "block";
+    merged.reason = joinDefined(
+      all.filter((o) => o.decision === "block").map((o) => o.reason),
+      "\n\n"
+    );
+  } else if (all.some((o) => o.decision === "approve")) {
+    merged.decision = "approve";
+    merged.reason = joinDefined(all.map((o) => o.reason));
+  }
+  merged.systemMessage = joinDefined(all.map((o) => o.systemMessage));
+
+  const specifics = all
+    .filter((o) => o.hookSpecificOutput)
+    .map((o) => specificOf(o));
+  if (specifics.length === 0) {
+    return merged;
+  }
+
+  // Anything else a handler returns: the last one's
+  const specific: Record<string, unknown> = Object.assign({}, ...specifics, {
+    hookEventName: event,
+  });
+
+  const rank = (s: Record<string, unknown>) =>
+    PERMISSION_ORDER.indexOf(s.permissionDecision as string);
+  const decisions = specifics.filter((s) => rank(s) !== -1);
+  if (decisions.length > 0) {
+    const strictest = Math.max(...decisions.map(rank));
+    const winners = decisions.filter((s) => rank(s) === strictest);
+    specific.permissionDecision = winners[0]!.permissionDecision;
+    specific.permissionDecisionReason = joinDefined(
+      winners.map((s) => s.permissionDecisionReason as string | undefined)
+    );
+  }
+
+  const patches = specifics
+    .map((s) => s.updatedInput as Record<string, unknown> | undefined)
+    .filter(Boolean);
+  specific.updatedInput =
+    patches.length > 0 && specific.permissionDecision !== "deny"
+      ? Object.assign({ ...toolInput }, ...patches)
+      : undefined;
+
+  specific.additionalContext = joinDefined(
+    specifics.map((s) => s.additionalContext as string | undefined)
+  );
+
+  merged.hookSpecificOutput =
+    specific as SyncHookJSONOutput["hookSpecificOutput"];
+  return merged;
+}
+
+// =============================================================================
+// RUNNING
+// =============================================================================
+
+/**
+ * Run an event's handlers on an input and merge their outputs.
+ *
+ * @param event - The hook event
+ * @param input - The hook's input
+ * @param ctx - The hook's context, shared by every handler
+ * @param handlers - The handlers to run (default: the event's registered
+ *   handlers)
+ */
+export async function runHandlers<E extends HookEventName>(
+  event: E,
+  input: HookInputFor<E>,
+  ctx: HookContext,
+  handlers: RegisteredHandler<E>[] = getHandlers(event)
+): Promise<SyncHookJSONOutput> {
+  const outputs: HandlerOutput[] = [];
+  let current = input;
+
+  for (const [index, { name, handler }] of handlers.entries()) {
+    // Keep each handler's rule apart, so an overruled one isn't recorded
+    ctx.audit.rule = undefined;
+    const output = await handler(current, ctx);
+    outputs.push({ name, output, rule: ctx.audit.rule });
+
+    // Later handlers judge the input as it will run
+    const patch = specificOf(output).updatedInput as
+      Record<string, unknown> | undefined;
+    if (patch && "tool_input" in current) {
+      current = {
+        ...current,
+        tool_input: {
+          ...(current.tool_input as Record<string, unknown>),
+          ...patch,
+        },
+      };
+    }
+
+    if (isFinal(output)) {
+      const skipped = handlers.slice(index + 1).map((h) => h.name);
+      if (skipped.length > 0) {
+        console.error(
+          `[${event}] ${name} ended the chain, skipping: ${skipped.join(", ")}`
+        );
+      }
+      break;
+    }
+  }
+
+  const toolInput = (input as { tool_input?: unknown }).tool_input;
+  const merged = mergeOutputs(
+    event,
+    outputs,
+    typeof toolInput === "object" && toolInput !== null
+      ? (toolInput as Record<string, unknown>)
+      : {}
+  );
+
+  // Record which handler decided, or which rule it said did
+  ctx.audit.rule = undefined;
+  const decision = specificOf(merged).permissionDecision;
+  const decider = outputs.find(({ output }) =>
+    decision !== undefined
+      ? specificOf(output).permissionDecision === decision
+      : output.decision === "block" || output.continue === false
+  );
+  if (decider) {
+    ctx.audit.rule = decider.rule ?? decider.name;
+  }
+  return merged;
+}
+
+/**
+ * Run a hook script as the chain of its event's registered handlers.
+ * Register the handlers first.
+ */
+export function defineHookChain<E extends HookEventName>(
+  event: E,
+  options: HookOptions = {}
+): void {
+  defineHook(event, (input, ctx) => runHandlers(event, input, ctx), options);
+}
@@ -0,0 +1,32 @@
+import { describe, expect, test } from "bun:test";
+import { QualityGateConfigError, validateConfig } from "./config";
+import { DEFAULT_DEADLINES } from "./hook";
+
+function problemsOf(raw: unknown): string[] {
+  try {
+    validateConfig(raw, "test");
+    return [];
+  } catch (error) {
+    if (error instanceof QualityGateConfigError) return error.problems;
+    throw error;
+  }
+}
+
+describe("validateConfig", () => {
+  test("accepts a timeout under the Stop hook's deadline", () => {
+    expect(validateConfig({ timeout: 300_000 }, "test").timeout).toBe(300_000);
+  });
+
+  test("rejects a timeout the Stop hook can't wait for", () => {
+    expect(problemsOf({ timeout: DEFAULT_DEADLINES.Stop })).toEqual([
+      "timeout must be under the Stop hook's deadline (595000ms)",
+    ]);
+    expect(problemsOf({ timeout: 900_000 })).toHaveLength(1);
+  });
+
+  test("collects every problem", () => {
+    expect(
+      problemsOf({ timeout: -1, concurrency: 0, mode: "fast" })
+    ).toHaveLength(3);
+  });
+});
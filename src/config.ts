@@ -0,0 +1,659 @@
+/**
+ * QUALITY GATE CONFIGURATION
+ * ===========================
+ * Loads the project-level quality gate configuration for the Stop hook.
+ *
+ * Projects can override the built-in gates without forking the plugin by
+ * adding either of the following to the session's working directory:
+ *
+ * 1. A `.quality-gates.json` file
+ * 2. A `qualityGates` key in `package.json`
+ *
+ * The first one found wins. If neither exists (or the config has no
+ * `gates`), the default gates for the detected toolchain are used; see
+ * src/toolchain.ts. Set `toolchain` to skip detection.
+ *
+ * EXAMPLE (.quality-gates.json):
+ * ```json
+ * {
+ *   "maxStopDenials": 3,
+ *   "mode": "parallel",
+ *   "concurrency": 2,
+ *   "timeout": 300000,
+ *   "baseRef": "origin/main",
+ *   "gates": [
+ *     { "name": "typecheck", "command": "bun", "args": ["run", "typecheck"] },
+ *     {
+ *       "name": "lint",
+ *       "command": "bunx",
+ *       "args": ["eslint", "."],
+ *       "scopedArgs": ["eslint", "{files}"],
+ *       "files": "**\/*.{ts,tsx}",
+ *       "timeout": 60000
+ *     },
+ *     { "name": "knip", "command": "bun", "args": ["run", "knip"], "enabled": false },
+ *     {
+ *       "name": "test",
+ *       "command": "bun",
+ *       "args": ["run", "test"],
+ *       "env": { "CI": "1" },
+ *       "dependsOn": ["typecheck"]
+ *     }
+ *   ]
+ * }
+ * ```
+ */
+
+import { availableParallelism } from "os";
+import { join } from "path";
+import { FILES_PLACEHOLDER, type GateRunMode } from "./gates";
+import { DEFAULT_DEADLINES } from "./hook";
+import { parserNames } from "./parsers";
+import {
+  detectToolchain,
+  TOOLCHAIN_IDS,
+  type Toolchain,
+  type ToolchainId,
+} from "./toolchain";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * A single quality gate: a command that must exit 0 before Claude may stop.
+ */
+export interface QualityGate {
+  name: string;
+  command: string;
+  args: string[];
+  /** Extra environment variables merged over the hook's environment */
+  env?: Record<string, string>;
+  /** Maximum run time in milliseconds before the gate is killed */
+  timeout?: number;
+  /** Set to false to keep a gate in the config without running it */
+  enabled?: boolean;
+  /** Names of gates that must pass before this one runs */
+  dependsOn?: string[];
+  /** Globs; the gate only runs when a changed file matches one of them */
+  files?: string[];
+  /**
+   * Args used instead of `args` when running on changed files only.
+   * The `{files}` placeholder expands to the matching changed files.
+   */
+  scopedArgs?: string[];
+  /** Output parser for block messages (see src/parsers.ts); "none" disables */
+  parser?: string;
+}
+
+/**
+ * Which changes the Stop hook gates on:
+ * - "session": only files Claude touched this session (recorded by the
+ *   PostToolUse hook) that git also reports as changed
+ * - "git": every changed file git reports, whoever changed it
+ */
+export type ChangeTracking = "session" | "git";
+
+/**
+ * Config as written by the user, after validation.
+ */
+export interface ProjectConfig {
+  gates?: QualityGate[];
+  maxStopDenials?: number;
+  stuckLimit?: number;
+  toolchain?: ToolchainId;
+  mode?: GateRunMode;
+  concurrency?: number;
+  timeout?: number;
+  fullRunOn?: string[];
+  baseRef?: string;
+  changeTracking?: ChangeTracking;
+  cacheTtl?: number;
+}
+
+/**
+ * Fully resolved quality gate configuration.
+ */
+export interface QualityGatesConfig {
+  gates: QualityGate[];
+  /** Safety valve: blocks without progress before allowing stop anyway */
+  maxStopDenials: number;
+  /** Safety valve: identical failures in a row before allowing stop anyway */
+  stuckLimit: number;
+  /** The detected (or configured) toolchain */
+  toolchain: Toolchain;
+  /** "parallel" runs independent gates concurrently; "sequential" fails fast */
+  mode: GateRunMode;
+  /** Maximum gates running at once in parallel mode */
+  concurrency: number;
+  /** Global time budget in milliseconds for running all gates */
+  timeout: number;
+  /** Globs; if a changed file matches, every gate runs in full */
+  fullRunOn: string[];
+  /** Also count changes committed since the merge-base with this ref */
+  baseRef?: string;
+  changeTracking: ChangeTracking;
+  /** How long a passing gate result can be reused, in ms (0 disables) */
+  cacheTtl: number;
+  /** Where the config was loaded from ("defaults" if no config was found) */
+  source: string;
+}
+
+/**
+ * Thrown when a config file exists but is malformed.
+ * The message lists every problem found, one per line.
+ */
+export class QualityGateConfigError extends Error {
+  constructor(
+    public readonly source: string,
+    public readonly problems: string[]
+  ) {
+    super(
+      `Invalid quality gate config in ${source}:\n${problems
+        .map((p) => `  - ${p}`)
+        .join("\n")}`
+    );
+    this.name = "QualityGateConfigError";
+  }
+}
+
+// =============================================================================
+// DEFAULTS
+// =============================================================================
+
+/**
+ * Name of the standalone config file looked up in the project root.
+ */
+export const CONFIG_FILE_NAME = ".quality-gates.json";
+
+/**
+ * Key looked up in package.json when no standalone config file exists.
+ */
+export const PACKAGE_JSON_KEY = "qualityGates";
+
+export const DEFAULT_MAX_STOP_DENIALS = 5;
+
+export const DEFAULT_STUCK_LIMIT = 3;
+
+export const DEFAULT_MODE: GateRunMode = "parallel";
+
+export const DEFAULT_CONCURRENCY = availableParallelism();
+
+/**
+ * Default global gate timeout. Kept under the Stop hook's own timeout in
+ * hooks/hooks.json (600s) so gates are reported as timed out rather than the
+ * whole hook being killed by Claude Code.
+ */
+export const DEFAULT_TIMEOUT = 540_000;
+
+/**
+ * The Stop hook's own deadline (see src/hook.ts); a global timeout must be
+ * under it.
+ */
+const STOP_DEADLINE = DEFAULT_DEADLINES.Stop!;
+
+/**
+ * Default lifetime of a cached passing gate result (see src/cache.ts).
+ */
+export const DEFAULT_CACHE_TTL = 3_600_000;
+
+/**
+ * Changes to these files can affect any file in the project, so they turn
+ * scoped gates back into full runs.
+ */
+export const DEFAULT_FULL_RUN_ON = [
+  "**/package.json",
+  "**/tsconfig*.json",
+  "**/*.config.{js,cjs,mjs,ts,cts,mts}",
+  "**/.eslintrc*",
+  "**/biome.json{,c}",
+  CONFIG_FILE_NAME,
+  "bun.lock",
+  "bun.lockb",
+  "package-lock.json",
+  "pnpm-lock.yaml",
+  "yarn.lock",
+  "Cargo.toml",
+  "Cargo.lock",
+  "go.mod",
+  "go.sum",
+  "pyproject.toml",
+  "Makefile",
+];
+
+const RUN_MODES: GateRunMode[] = ["parallel", "sequential"];
+
+const CHANGE_TRACKING_MODES: ChangeTracking[] = ["session", "git"];
+
+// =============================================================================
+// VALIDATION
+// =============================================================================
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isStringOrStringArray(value: unknown): value is string | string[] {
+  return (
+    typeof value === "string" ||
+    (Array.isArray(value) && value.every((v) => typeof v === "string"))
+  );
+}
+
+/**
+ * Validate a single gate entry, pushing any problems onto `problems`.
+ */
+function validateGate(
+  raw: unknown,
+  index: number,
+  problems: string[]
+): QualityGate | null {
+  const where = `gates[${index}]`;
+
+  if (!isPlainObject(raw)) {
+    problems.push(`${where} must be an object`);
+    return null;
+  }
+
+  const startCount = problems.length;
+  const {
+    name,
+    command,
+    args,
+    env,
+    timeout,
+    enabled,
+    dependsOn,
+    files,
+    scopedArgs,
+    parser,
+  } = raw;
+
+  if (typeof name !== "string" || !name.trim()) {
+    problems.push(`${where}.name must be a non-empty string`);
+  }
+  if (typeof command !== "string" || !command.trim()) {
+    problems.push(`${where}.command must be a non-empty string`);
+  }
+  if (
+    args !== undefined &&
+    (!Array.isArray(args) || !args.every((a) => typeof a === "string"))
+  ) {
+    problems.push(`${where}.args must be an array of strings`);
+  }
+  if (
+    env !== undefined &&
+    (!isPlainObject(env) ||
+      !Object.values(env).every((v) => typeof v === "string"))
+  ) {
+    problems.push(`${where}.env must be an object of string values`);
+  }
+  if (
+    timeout !== undefined &&
+    (typeof timeout !== "number" || !Number.isFinite(timeout) || timeout <= 0)
+  ) {
+    problems.push(`${where}.timeout must be a positive number of milliseconds`);
+  }
+  if (enabled !== undefined && typeof enabled !== "boolean") {
+    problems.push(`${where}.enabled must be a boolean`);
+  }
+  if (
+    dependsOn !== undefined &&
+    (!Array.isArray(dependsOn) ||
+      !dependsOn.every((d) => typeof d === "string"))
+  ) {
+    problems.push(`${where}.dependsOn must be an array of gate names`);
+  }
+  if (parser !== undefined && !parserNames().includes(parser as string)) {
+    problems.push(
+      `${where}.parser must be one of: ${parserNames().join(", ")}`
+    );
+  }
+  if (files !== undefined && !isStringOrStringArray(files)) {
+    problems.push(`${where}.files must be a glob or an array of globs`);
+  }
+  if (
+    scopedArgs !== undefined &&
+    (!Array.isArray(scopedArgs) ||
+      !scopedArgs.every((a) => typeof a === "string"))
+  ) {
+    problems.push(`${where}.scopedArgs must be an array of strings`);
+  } else if (
+    Array.isArray(scopedArgs) &&
+    !scopedArgs.some((a) => String(a).includes(FILES_PLACEHOLDER))
+  ) {
+    problems.push(
+      `${where}.scopedArgs must contain the ${FILES_PLACEHOLDER} placeholder`
+    );
+  }
+
+  if (problems.length > startCount) {
+    return null;
+  }
+
+  return {
+    name: name as string,
+    command: command as string,
+    args: (args as string[] | undefined) ?? [],
+    env: env as Record<string, string> | undefined,
+    timeout: timeout as number | undefined,
+    enabled: enabled as boolean | undefined,
+    dependsOn: dependsOn as string[] | undefined,
+    files:
+      typeof files === "string" ? [files] : (files as string[] | undefined),
+    scopedArgs: scopedArgs as string[] | undefined,
+    parser: parser as string | undefined,
+  };
+}
+
+/**
+ * Check that every dependency names a known gate and that there are no
+ * cycles, pushing any problems onto `problems`.
+ */
+function validateDependencies(gates: QualityGate[], problems: string[]): void {
+  const byName = new Map(gates.map((g) => [g.name, g]));
+
+  for (const gate of gates) {
+    for (const dep of gate.dependsOn ?? []) {
+      if (!byName.has(dep)) {
+        problems.push(`gate "${gate.name}" depends on unknown gate "${dep}"`);
+      }
+    }
+  }
+
+  // Depth-first search; a gate seen again while still on the stack is a cycle
+  const done = new Set<string>();
+  const stack: string[] = [];
+
+  const visit = (name: string): boolean => {
+    if (done.has(name)) return true;
+    if (stack.includes(name)) {
+      const cycle = [...stack.slice(stack.indexOf(name)), name];
+      problems.push(`dependency cycle: ${cycle.join(" -> ")}`);
+      return false;
+    }
+    stack.push(name);
+    for (const dep of byName.get(name)?.dependsOn ?? []) {
+      if (byName.has(dep) && !visit(dep)) return false;
+    }
+    stack.pop();
+    done.add(name);
+    return true;
+  };
+
+  for (const gate of gates) {
+    if (!visit(gate.name)) break;
+  }
+}
+
+/**
+ * Validate raw (parsed JSON) config.
+ * Throws a QualityGateConfigError listing every problem found.
+ *
+ * @param raw - The parsed config value
+ * @param source - Where the config came from, used in error messages
+ */
+export function validateConfig(raw: unknown, source: string): ProjectConfig {
+  const problems: string[] = [];
+
+  if (!isPlainObject(raw)) {
+    throw new QualityGateConfigError(source, ["config must be an object"]);
+  }
+
+  const knownKeys = new Set([
+    "gates",
+    "maxStopDenials",
+    "stuckLimit",
+    "toolchain",
+    "mode",
+    "concurrency",
+    "timeout",
+    "fullRunOn",
+    "baseRef",
+    "changeTracking",
+    "cacheTtl",
+  ]);
+  for (const key of Object.keys(raw)) {
+    if (!knownKeys.has(key)) {
+      problems.push(`unknown key "${key}"`);
+    }
+  }
+
+  let gates: QualityGate[] | undefined;
+  if (raw.gates !== undefined) {
+    if (!Array.isArray(raw.gates)) {
+      problems.push("gates must be an array");
+    } else {
+      const validated = raw.gates.map((g, i) => validateGate(g, i, problems));
+      gates = validated.filter((g): g is QualityGate => g !== null);
+
+      const seen = new Set<string>();
+      for (const gate of gates) {
+        if (seen.has(gate.name)) {
+          problems.push(`duplicate gate name "${gate.name}"`);
+        }
+        seen.add(gate.name);
+      }
+
+      validateDependencies(gates, problems);
+    }
+  }
+
+  let maxStopDenials: number | undefined;
+  if (raw.maxStopDenials !== undefined) {
+    if (
+      typeof raw.maxStopDenials !== "number" ||
+      !Number.isInteger(raw.maxStopDenials) ||
+      raw.maxStopDenials < 1
+    ) {
+      problems.push("maxStopDenials must be a positive integer");
+    } else {
+      maxStopDenials = raw.maxStopDenials;
+    }
+  }
+
+  let stuckLimit: number | undefined;
+  if (raw.stuckLimit !== undefined) {
+    if (
+      typeof raw.stuckLimit !== "number" ||
+      !Number.isInteger(raw.stuckLimit) ||
+      raw.stuckLimit < 2
+    ) {
+      problems.push("stuckLimit must be an integer of at least 2");
+    } else {
+      stuckLimit = raw.stuckLimit;
+    }
+  }
+
+  let toolchain: ToolchainId | undefined;
+  if (raw.toolchain !== undefined) {
+    if (!TOOLCHAIN_IDS.includes(raw.toolchain as ToolchainId)) {
+      problems.push(`toolchain must be one of: ${TOOLCHAIN_IDS.join(", ")}`);
+    } else {
+      toolchain = raw.toolchain as ToolchainId;
+    }
+  }
+
+  let mode: GateRunMode | undefined;
+  if (raw.mode !== undefined) {
+    if (!RUN_MODES.includes(raw.mode as GateRunMode)) {
+      problems.push(`mode must be one of: ${RUN_MODES.join(", ")}`);
+    } else {
+      mode = raw.mode as GateRunMode;
+    }
+  }
+
+  let concurrency: number | undefined;
+  if (raw.concurrency !== undefined) {
+    if (
+      typeof raw.concurrency !== "number" ||
+      !Number.isInteger(raw.concurrency) ||
+      raw.concurrency < 1
+    ) {
+      problems.push("concurrency must be a positive integer");
+    } else {
+      concurrency = raw.concurrency;
+    }
+  }
+
+  let timeout: number | undefined;
+  if (raw.timeout !== undefined) {
+    if (
+      typeof raw.timeout !== "number" ||
+      !Number.isFinite(raw.timeout) ||
+      raw.timeout <= 0
+    ) {
+      problems.push("timeout must be a positive number of milliseconds");
+    } else if (raw.timeout >= STOP_DEADLINE) {
+      // The hook would give up first, leaving the gates running unreported
+      problems.push(
+        `timeout must be under the Stop hook's deadline (${STOP_DEADLINE}ms)`
+      );
+    } else {
+      timeout = raw.timeout;
+    }
+  }
+
+  let fullRunOn: string[] | undefined;
+  if (raw.fullRunOn !== undefined) {
+    if (!isStringOrStringArray(raw.fullRunOn)) {
+      problems.push("fullRunOn must be a glob or an array of globs");
+    } else {
+      fullRunOn =
+        typeof raw.fullRunOn === "string" ? [raw.fullRunOn] : raw.fullRunOn;
+    }
+  }
+
+  let baseRef: string | undefined;
+  if (raw.baseRef !== undefined) {
+    if (typeof raw.baseRef !== "string" || !raw.baseRef.trim()) {
+      problems.push("baseRef must be a non-empty string");
+    } else {
+      baseRef = raw.baseRef;
+    }
+  }
+
+  let changeTracking: ChangeTracking | undefined;
+  if (raw.changeTracking !== undefined) {
+    if (!CHANGE_TRACKING_MODES.includes(raw.changeTracking as ChangeTracking)) {
+      problems.push(
+        `changeTracking must be one of: ${CHANGE_TRACKING_MODES.join(", ")}`
+      );
+    } else {
+      changeTracking = raw.changeTracking as ChangeTracking;
+    }
+  }
+
+  let cacheTtl: number | undefined;
+  if (raw.cacheTtl !== undefined) {
+    if (
+      typeof raw.cacheTtl !== "number" ||
+      !Number.isFinite(raw.cacheTtl) ||
+      raw.cacheTtl < 0
+    ) {
+      problems.push("cacheTtl must be a non-negative number of milliseconds");
+    } else {
+      cacheTtl = raw.cacheTtl;
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new QualityGateConfigError(source, problems);
+  }
+
+  return {
+    gates,
+    maxStopDenials,
+    stuckLimit,
+    toolchain,
+    mode,
+    concurrency,
+    timeout,
+    fullRunOn,
+    baseRef,
+    changeTracking,
+    cacheTtl,
+  };
+}
+
+// =============================================================================
+// LOADING
+// =============================================================================
+
+/**
+ * Read the user-written config for a project, if any.
+ *
+ * @returns The validated config and where it came from, or null if none exists
+ */
+async function readProjectConfig(
+  cwd: string
+): Promise<{ config: ProjectConfig; source: string } | null> {
+  const configFile = Bun.file(join(cwd, CONFIG_FILE_NAME));
+  if (await configFile.exists()) {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(await configFile.text());
+    } catch (error) {
+      throw new QualityGateConfigError(CONFIG_FILE_NAME, [
+        `invalid JSON: ${error instanceof Error ? error.message : error}`,
+      ]);
+    }
+    return {
+      config: validateConfig(raw, CONFIG_FILE_NAME),
+      source: CONFIG_FILE_NAME,
+    };
+  }
+
+  const packageJson = Bun.file(join(cwd, "package.json"));
+  if (await packageJson.exists()) {
+    try {
+      const content = await packageJson.json();
+      if (isPlainObject(content) && content[PACKAGE_JSON_KEY] !== undefined) {
+        const source = `package.json#${PACKAGE_JSON_KEY}`;
+        return {
+          config: validateConfig(content[PACKAGE_JSON_KEY], source),
+          source,
+        };
+      }
+    } catch (error) {
+      if (error instanceof QualityGateConfigError) {
+        throw error;
+      }
+      // Unparseable package.json is not our config problem; use defaults
+      console.error(`[Config] Could not read package.json: ${error}`);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Load the quality gate config for a project.
+ *
+ * Looks for `.quality-gates.json`, then a `qualityGates` key in package.json.
+ * Anything not set there falls back to the defaults for the detected
+ * toolchain.
+ *
+ * @param cwd - The project root (the session's working directory)
+ * @throws QualityGateConfigError if a config exists but is malformed
+ */
+export async function loadConfig(cwd: string): Promise<QualityGatesConfig> {
+  const found = await readProjectConfig(cwd);
+  const config = found?.config ?? {};
+  const toolchain = await detectToolchain(cwd, config.toolchain);
+
+  return {
+    gates: config.gates ?? toolchain.defaultGates,
+    maxStopDenials: config.maxStopDenials ?? DEFAULT_MAX_STOP_DENIALS,
+    stuckLimit: config.stuckLimit ?? DEFAULT_STUCK_LIMIT,
+    toolchain,
+    mode: config.mode ?? DEFAULT_MODE,
+    concurrency: config.concurrency ?? DEFAULT_CONCURRENCY,
+    timeout: config.timeout ?? DEFAULT_TIMEOUT,
+    fullRunOn: config.fullRunOn ?? DEFAULT_FULL_RUN_ON,
+    baseRef: config.baseRef,
+    changeTracking: config.changeTracking ?? "session",
+    cacheTtl: config.cacheTtl ?? DEFAULT_CACHE_TTL,
+    source: found?.source ?? "defaults",
+  };
+}
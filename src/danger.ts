@@ -0,0 +1,425 @@
+/**
+ * DANGEROUS COMMAND CATALOG
+ * ==========================
+ * Built-in checks the PreToolUse hook runs on every Bash command, on top of
+ * the project's tool policy (see src/policy.ts).
+ *
+ * Commands are parsed with src/shell.ts first, so the checks see through
+ * quoting, `&&` chains, subshells, `bash -c`, `xargs`, `sudo` and friends.
+ *
+ * - recursive-delete (deny): `rm -r` of `/`, `~`, the project itself or
+ *   anything outside it
+ * - recursive-delete-unknown (ask): `rm -r` of a path only known at run
+ *   time (`$VAR`, `xargs` input)
+ * - git-push-force (ask): `git push -f`, `--force`, `--mirror`, `+ref`
+ * - git-discard-changes (ask): `git reset --hard`, `git clean -f`
+ * - pipe-to-shell (deny): curl/wget output run by a shell or interpreter
+ * - chmod-world-writable (ask): `chmod 777`, `a+w`, `o+w`
+ * - ssh-dir-write (deny): writes to ~/.ssh
+ *
+ * Projects can change a check's decision or turn it off with `bashChecks`
+ * in `.tool-policy.json`: `{ "bashChecks": { "git-discard-changes": "off" } }`.
+ */
+
+import { homedir } from "os";
+import { isAbsolute, join, relative, resolve } from "path";
+import type { PolicyDecision } from "./policy";
+import {
+  commandName,
+  parseShellCommand,
+  pipelineOf,
+  writeTargets,
+  type SimpleCommand,
+} from "./shell";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type BashCheckSetting = PolicyDecision | "off";
+
+export interface DangerFinding {
+  id: string;
+  decision: PolicyDecision;
+  /** What the command would do, for the permission reason */
+  message: string;
+  /** The offending command, as words */
+  command: string;
+}
+
+interface CheckContext {
+  cwd: string;
+  home: string;
+  commands: SimpleCommand[];
+  /** Directory a command runs in after earlier `cd`s, or null if unknown */
+  dirOf: (command: SimpleCommand) => string | null;
+}
+
+interface DangerCheck {
+  id: string;
+  decision: PolicyDecision;
+  /** Returns a message for each problem found in the command */
+  check: (command: SimpleCommand, ctx: CheckContext) => string[];
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+const FETCHERS = new Set(["curl", "wget", "fetch", "aria2c"]);
+
+const INTERPRETERS = new Set([
+  "sh",
+  "bash",
+  "zsh",
+  "dash",
+  "ksh",
+  "fish",
+  "python",
+  "python3",
+  "perl",
+  "ruby",
+  "node",
+  "bun",
+  "deno",
+]);
+
+function isInside(path: string, dir: string): boolean {
+  const rel = relative(dir, path);
+  return rel === "" || (!rel.startsWith("..") && !isAbsolute(rel));
+}
+
+/**
+ * Resolve a path argument, or return null if it depends on something only
+ * known at run time (variables, command substitution).
+ */
+function resolveArg(arg: string, dir: string | null, home: string) {
+  if (/\$|`/.test(arg)) {
+    if (/^\$\{?HOME\}?(\/|$)/.test(arg)) {
+      return join(home, arg.replace(/^\$\{?HOME\}?/, ""));
+    }
+    return null;
+  }
+  if (arg === "~" || arg.startsWith("~/")) {
+    return join(home, arg.slice(1));
+  }
+  if (isAbsolute(arg)) {
+    return resolve(arg);
+  }
+  return dir === null ? null : resolve(dir, arg);
+}
+
+/**
+ * Short flags (`-rf`) and long flags (`--recursive`) of a command.
+ */
+function hasFlag(argv: string[], short: string, long: string[]): boolean {
+  return argv.some(
+    (a) =>
+      long.includes(a.split("=")[0]!) ||
+      (/^-[^-]/.test(a) && a.slice(1).includes(short))
+  );
+}
+
+function isRecursiveRm(command: SimpleCommand): boolean {
+  return (
+    commandName(command) === "rm" &&
+    (hasFlag(command.argv, "r", ["--recursive"]) ||
+      hasFlag(command.argv, "R", []))
+  );
+}
+
+/**
+ * Skip git's global options (`-C dir`, `-c key=value`...) to find the
+ * subcommand and its arguments.
+ */
+function gitSubcommand(argv: string[]): { name: string; args: string[] } {
+  let i = 1;
+  while (i < argv.length && argv[i]!.startsWith("-")) {
+    i += ["-C", "-c", "--git-dir", "--work-tree", "--namespace"].includes(
+      argv[i]!
+    )
+      ? 2
+      : 1;
+  }
+  return { name: argv[i] ?? "", args: argv.slice(i + 1) };
+}
+
+/**
+ * The command that runs in a pipeline on this command's behalf: climbs
+ * out of wrappers like `sudo bash` to the command actually in the pipeline.
+ */
+function pipelineMember(command: SimpleCommand): SimpleCommand {
+  let current = command;
+  while (
+    current.parent &&
+    current.via &&
+    !current.via.includes("(") &&
+    !current.via.includes("`") &&
+    !current.via.endsWith("-c") &&
+    current.via !== "eval"
+  ) {
+    current = current.parent;
+  }
+  return current;
+}
+
+/**
+ * True if an interpreter reads its program from stdin (no script argument).
+ */
+function readsStdin(command: SimpleCommand): boolean {
+  const args = command.argv.slice(1);
+  const scriptIndex = args.findIndex((a) => !a.startsWith("-"));
+  return (
+    scriptIndex === -1 || args[scriptIndex - 1] === "-s" || args.includes("-")
+  );
+}
+
+// =============================================================================
+// CATALOG
+// =============================================================================
+
+const CHECKS: DangerCheck[] = [
+  {
+    id: "recursive-delete",
+    decision: "deny",
+    check(command, ctx) {
+      if (!isRecursiveRm(command)) return [];
+      const dir = ctx.dirOf(command);
+      return targetsOf(command)
+        .map((arg) => ({ arg, path: resolveArg(arg, dir, ctx.home) }))
+        .filter(({ path }) => path !== null)
+        .flatMap(({ arg, path }) => {
+          if (path === "/" || path === ctx.home) {
+            return [`recursive delete of ${arg}`];
+          }
+          if (path === ctx.cwd || isInside(ctx.cwd, path!)) {
+            return [`recursive delete of the whole project (${arg})`];
+          }
+          if (!isInside(path!, ctx.cwd)) {
+            return [`recursive delete outside the project (${arg})`];
+          }
+          return [];
+        });
+    },
+  },
+  {
+    id: "recursive-delete-unknown",
+    decision: "ask",
+    check(command, ctx) {
+      if (!isRecursiveRm(command)) return [];
+      const dir = ctx.dirOf(command);
+      return targetsOf(command)
+        .filter((arg) => resolveArg(arg, dir, ctx.home) === null)
+        .map(
+          (arg) => `recursive delete of a path only known at run time (${arg})`
+        );
+    },
+  },
+  {
+    id: "git-push-force",
+    decision: "ask",
+    check(command) {
+      if (commandName(command) !== "git") return [];
+      const { name, args } = gitSubcommand(command.argv);
+      if (name !== "push") return [];
+      const forced =
+        hasFlag(args, "f", ["--force", "--force-with-lease", "--mirror"]) ||
+        args.some((a) => a.startsWith("+"));
+      return forced ? ["force push"] : [];
+    },
+  },
+  {
+    id: "git-discard-changes",
+    decision: "ask",
+    check(command) {
+      if (commandName(command) !== "git") return [];
+      const { name, args } = gitSubcommand(command.argv);
+      if (name === "reset" && args.includes("--hard")) {
+        return ["git reset --hard discards uncommitted changes"];
+      }
+      if (name === "clean" && hasFlag(args, "f", ["--force"])) {
+        return ["git clean -f deletes untracked files"];
+      }
+      return [];
+    },
+  },
+  {
+    id: "pipe-to-shell",
+    decision: "deny",
+    check(command, ctx) {
+      if (!INTERPRETERS.has(commandName(command))) return [];
+
+      // curl ... | sh
+      const member = pipelineMember(command);
+      const pipeline = pipelineOf(ctx.commands, member);
+      const piped = readsStdin(command)
+        ? pipeline.find(
+            (c) => c.position < member.position && FETCHERS.has(commandName(c))
+          )
+        : undefined;
+
+      // sh -c "$(curl ...)", bash <(curl ...)
+      const substituted = ctx.commands.find(
+        (c) =>
+          c.parent === command &&
+          FETCHERS.has(commandName(c)) &&
+          c.via !== undefined &&
+          /\(|`/.test(c.via)
+      );
+
+      const fetcher = piped ?? substituted;
+      return fetcher
+        ? [`${commandName(fetcher)} output run by ${commandName(command)}`]
+        : [];
+    },
+  },
+  {
+    id: "chmod-world-writable",
+    decision: "ask",
+    check(command) {
+      if (commandName(command) !== "chmod") return [];
+      const mode = command.argv.slice(1).find((a) => !a.startsWith("-"));
+      if (!mode) return [];
+      const octal = /^0?[0-7]?[0-7]{2}[2367]$/.test(mode);
+      const symbolic = /(^|,)[ugo]*[ao][ugo]*[+=][rxX]*w/.test(mode);
+      return octal || symbolic
+        ? [`chmod ${mode} makes files world-writable`]
+        : [];
+    },
+  },
+  {
+    id: "ssh-dir-write",
+    decision: "deny",
+    check(command, ctx) {
+      const sshDir = join(ctx.home, ".ssh");
+      const dir = ctx.dirOf(command);
+      return writeTargets(command)
+        .filter((f) => {
+          const path = resolveArg(f, dir, ctx.home);
+          return path !== null && isInside(path, sshDir);
+        })
+        .map((f) => `write to ${f}`);
+    },
+  },
+];
+
+/**
+ * Paths an `rm` deletes. Under `find -exec`, `{}` stands for something
+ * below find's start paths; under `xargs` the paths come from stdin and
+ * can't be known.
+ */
+function targetsOf(command: SimpleCommand): string[] {
+  const args = command.argv.slice(1);
+  const end = args.indexOf("--");
+  const targets =
+    end === -1
+      ? args.filter((a) => !a.startsWith("-") || a === "-")
+      : [
+          ...args.slice(0, end).filter((a) => !a.startsWith("-")),
+          ...args.slice(end + 1),
+        ];
+
+  if (command.via === "xargs" && !targets.some((t) => t.includes("{}"))) {
+    targets.push("$STDIN");
+  }
+
+  return targets.flatMap((t) => {
+    if (t !== "{}") return [t];
+    if (command.via?.startsWith("find") && command.parent) {
+      const find = command.parent.argv.slice(1);
+      const firstExpr = find.findIndex(
+        (a) => a.startsWith("-") || a === "(" || a === "!"
+      );
+      const starts = firstExpr === -1 ? find : find.slice(0, firstExpr);
+      return (starts.length > 0 ? starts : ["."]).map((start) =>
+        join(start, "{}")
+      );
+    }
+    return ["$STDIN"];
+  });
+}
+
+/**
+ * IDs of every built-in check.
+ */
+export function bashCheckIds(): string[] {
+  return CHECKS.map((c) => c.id);
+}
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Work out the directory each top-level command runs in by following
+ * `cd` commands that come before it. Returns null once a `cd` target
+ * can't be resolved.
+ */
+function trackDirectories(
+  commands: SimpleCommand[],
+  cwd: string,
+  home: string
+): (command: SimpleCommand) => string | null {
+  const dirs = new Map<SimpleCommand, string | null>();
+  let dir: string | null = cwd;
+
+  for (const command of commands) {
+    // Nested commands run where the command that runs them does
+    const root = (() => {
+      let c = command;
+      while (c.parent) c = c.parent;
+      return c;
+    })();
+    if (root !== command) {
+      dirs.set(command, dirs.get(root) ?? dir);
+      continue;
+    }
+    dirs.set(command, dir);
+    if (commandName(command) === "cd" || commandName(command) === "pushd") {
+      const target = command.argv.slice(1).find((a) => !a.startsWith("-"));
+      dir = target === undefined ? home : resolveArg(target, dir, home);
+    }
+  }
+
+  return (command) => (dirs.has(command) ? dirs.get(command)! : dir);
+}
+
+/**
+ * Run the catalog against a Bash command.
+ *
+ * @param command - The command line Claude wants to run
+ * @param cwd - The session's working directory
+ * @param settings - Per-check decision overrides, or "off" to disable
+ */
+export function findDangerousCommands(
+  command: string,
+  cwd: string,
+  settings: Record<string, BashCheckSetting> = {}
+): DangerFinding[] {
+  const home = homedir();
+  const commands = parseShellCommand(command);
+  const ctx: CheckContext = {
+    cwd: resolve(cwd),
+    home,
+    commands,
+    dirOf: trackDirectories(commands, resolve(cwd), home),
+  };
+
+  const findings: DangerFinding[] = [];
+  for (const check of CHECKS) {
+    const setting = settings[check.id] ?? check.decision;
+    if (setting === "off") continue;
+
+    for (const cmd of commands) {
+      for (const message of check.check(cmd, ctx)) {
+        findings.push({
+          id: check.id,
+          decision: setting,
+          message,
+          command: cmd.argv.join(" "),
+        });
+      }
+    }
+  }
+  return findings;
+}
@@ -0,0 +1,108 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { existsSync } from "fs";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import type { QualityGate } from "./config";
+import { runQualityGates } from "./gates";
+
+let cwd: string;
+
+beforeAll(async () => {
+  cwd = await mkdtemp(join(tmpdir(), "gates-test-"));
+  await writeFile(
+    join(cwd, "package.json"),
+    JSON.stringify({ scripts: { slow: "sleep 5", ok: "true" } })
+  );
+});
+
+afterAll(async () => {
+  await rm(cwd, { recursive: true, force: true });
+});
+
+const slow: QualityGate = {
+  name: "slow",
+  command: "bun",
+  args: ["run", "slow"],
+};
+const missing: QualityGate = {
+  name: "missing",
+  command: "bun",
+  args: ["run", "missing"],
+};
+const ok: QualityGate = { name: "ok", command: "bun", args: ["run", "ok"] };
+
+describe("runQualityGates", () => {
+  test("runs gates and reports missing scripts as skipped", async () => {
+    const results = await runQualityGates(cwd, [ok, missing], {
+      mode: "parallel",
+      concurrency: 2,
+    });
+    expect(results.map((r) => [r.name, r.passed, r.skipReason])).toEqual([
+      ["ok", true, undefined],
+      ["missing", true, "script not found"],
+    ]);
+  });
+
+  test("still skips missing scripts after the deadline", async () => {
+    const results = await runQualityGates(cwd, [slow, missing, ok], {
+      mode: "parallel",
+      concurrency: 1,
+      timeout: 500,
+    });
+    const byName = new Map(results.map((r) => [r.name, r]));
+
+    expect(byName.get("slow")).toMatchObject({ passed: false, timedOut: true });
+    expect(byName.get("missing")).toMatchObject({
+      passed: true,
+      skipped: true,
+      skipReason: "script not found",
+    });
+    expect(byName.get("ok")).toMatchObject({ passed: false, timedOut: true });
+    expect(byName.get("ok")?.output).toContain("Not started");
+  });
+
+  test("skips gates whose dependencies failed", async () => {
+    const results = await runQualityGates(
+      cwd,
+      [
+        { name: "fails", command: "false", args: [] },
+        { ...ok, dependsOn: ["fails"] },
+      ],
+      { mode: "parallel", concurrency: 2 }
+    );
+    expect(results[1]).toMatchObject({ skipped: true, blockedBy: ["fails"] });
+  });
+
+  test("kills the running gates' process groups on abort", async () => {
+    const controller = new AbortController();
+    const gate: QualityGate = {
+      name: "hangs",
+      command: "sh",
+      // A grandchild in the gate's process group, like a test worker
+      args: ["-c", "(sleep 1; touch survived) & wait"],
+    };
+    setTimeout(() => controller.abort(), 300);
+
+    const startedAt = Date.now();
+    const [result] = await runQualityGates(cwd, [gate, ok], {
+      mode: "sequential",
+      concurrency: 1,
+      signal: controller.signal,
+    });
+
+    expect(Date.now() - startedAt).toBeLessThan(1000);
+    expect(result).toMatchObject({ passed: false, timedOut: true });
+    await Bun.sleep(1500);
+    expect(existsSync(join(cwd, "survived"))).toBe(false);
+  });
+
+  test("starts nothing once aborted", async () => {
+    const results = await runQualityGates(cwd, [ok], {
+      mode: "parallel",
+      concurrency: 1,
+      signal: AbortSignal.abort(),
+    });
+    expect(results[0]).toMatchObject({ passed: false, timedOut: true });
+  });
+});
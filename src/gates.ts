@@ -0,0 +1,617 @@
+/**
+ * QUALITY GATE RUNNER
+ * ====================
+ * Runs quality gate commands and collects their results.
+ *
+ * Gates can declare dependencies on other gates with `dependsOn`. Two run
+ * modes are supported:
+ *
+ * - "parallel" (default): gates whose dependencies have passed run
+ *   concurrently, up to `concurrency` at a time. Every gate runs unless a
+ *   dependency failed, so all failures are reported together.
+ * - "sequential": gates run one at a time in dependency order and the run
+ *   stops at the first failure.
+ *
+ * TIMEOUTS:
+ * Each gate may set its own `timeout`, and the whole run may have a global
+ * `timeout`; a gate is stopped at whichever comes first. Gates run in their
+ * own process group so a timeout kills the whole tree (e.g. a test runner's
+ * workers), not just the top-level command. A timed-out gate is reported
+ * with `timedOut: true` and whatever output it produced before being killed.
+ *
+ * The caller can also pass an AbortSignal (the Stop hook passes its own, which
+ * fires at the hook's deadline): aborting kills every running gate's process
+ * group, so none is left orphaned when the hook exits.
+ *
+ * SCOPING TO CHANGED FILES:
+ * When the caller passes the changed files, a gate with `files` globs only
+ * runs if one of them matches, and a gate with `scopedArgs` runs with
+ * `{files}` replaced by the matching files instead of its full `args`. If a
+ * changed file matches `fullRunOn` (package.json, tsconfig, lockfiles...),
+ * every gate runs in full since any file could be affected.
+ *
+ * CACHING:
+ * With a `cache` (see src/cache.ts), a gate whose inputs are unchanged since
+ * it last passed is not run again and is reported as a cached pass.
+ */
+
+import type { Subprocess } from "bun";
+import { existsSync } from "fs";
+import { join } from "path";
+import type { QualityGate } from "./config";
+import { isPackageManager } from "./toolchain";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type GateRunMode = "parallel" | "sequential";
+
+export interface QualityGateResult {
+  name: string;
+  passed: boolean;
+  output: string;
+  skipped?: boolean;
+  /** Why the gate was skipped (script missing, dependency failed) */
+  skipReason?: string;
+  /** Failed dependencies that prevented this gate from running */
+  blockedBy?: string[];
+  /** The gate was killed (or never started) because a timeout expired */
+  timedOut?: boolean;
+  /** Wall-clock run time in milliseconds */
+  durationMs?: number;
+  /** Not run because it passed before with the same inputs */
+  cached?: boolean;
+}
+
+export interface RunGatesOptions {
+  mode: GateRunMode;
+  /** Maximum gates running at once in parallel mode */
+  concurrency: number;
+  /** Global time budget in milliseconds for the whole run */
+  timeout?: number;
+  /** Files changed in the session; omit to run every gate in full */
+  changedFiles?: string[];
+  /** Globs that force a full run when a changed file matches */
+  fullRunOn?: string[];
+  /** Reuse passing results for gates whose inputs haven't changed */
+  cache?: GateResultCache;
+  /** Aborts the run: running gates are killed and no more are started */
+  signal?: AbortSignal;
+}
+
+/**
+ * What a gate is about to run with.
+ */
+export interface GateRun {
+  args: string[];
+  /** Files the args are scoped to, or null if the gate checks everything */
+  files: string[] | null;
+}
+
+/**
+ * Storage for passing gate results, keyed on the gate's inputs.
+ */
+export interface GateResultCache {
+  /** Key for a gate's inputs; an equal key means the result still holds */
+  keyFor(gate: QualityGate, run: GateRun): Promise<string>;
+  /** Whether the gate passed before with this key */
+  has(gateName: string, key: string): boolean;
+  /** Record that the gate passed with this key */
+  set(gateName: string, key: string, result: QualityGateResult): void;
+}
+
+/**
+ * Per-run context passed to each gate.
+ */
+interface GateContext {
+  /** Absolute time (epoch ms) by which the gate must finish */
+  deadline?: number;
+  /** Changed files to scope the gate to, or null for a full run */
+  changedFiles?: string[] | null;
+  cache?: GateResultCache;
+  signal?: AbortSignal;
+}
+
+export interface GatePlan {
+  name: string;
+  /** Command line the gate would run; unset if it would be skipped */
+  command?: string[];
+  skipReason?: string;
+  dependsOn: string[];
+}
+
+export interface QualityGatePlan {
+  /** Changed file that forces a full run, if any */
+  fullRunTrigger?: string;
+  gates: GatePlan[];
+}
+
+/**
+ * Placeholder in `scopedArgs` replaced by the changed files.
+ * As a whole argument it expands to one argument per file; inside a longer
+ * argument it is replaced by the files joined with spaces.
+ */
+export const FILES_PLACEHOLDER = "{files}";
+
+/**
+ * How long a timed-out gate gets to exit after SIGTERM before SIGKILL.
+ */
+const KILL_GRACE_MS = 2000;
+
+/**
+ * How long to wait for a killed gate's output pipes to close. An orphaned
+ * grandchild outside the process group can hold them open indefinitely.
+ */
+const STREAM_DRAIN_MS = 500;
+
+// =============================================================================
+// SINGLE GATE
+// =============================================================================
+
+/**
+ * Check if a script exists in package.json.
+ */
+async function scriptExists(cwd: string, scriptName: string): Promise<boolean> {
+  try {
+    const packageJson = Bun.file(join(cwd, "package.json"));
+    if (!(await packageJson.exists())) {
+      return false;
+    }
+    const content = await packageJson.json();
+    return !!content.scripts?.[scriptName];
+  } catch {
+    return false;
+  }
+}
+
+function skipped(name: string, skipReason: string): QualityGateResult {
+  return { name, passed: true, output: "", skipped: true, skipReason };
+}
+
+function notStarted(name: string): QualityGateResult {
+  return {
+    name,
+    passed: false,
+    output: "Not started: the global quality gate timeout was reached",
+    timedOut: true,
+  };
+}
+
+/**
+ * Read a stream into `chunks` as it arrives, so partial output is available
+ * even if the process is killed before it finishes.
+ */
+async function collectStream(
+  stream: ReadableStream<Uint8Array>,
+  chunks: string[]
+): Promise<void> {
+  const decoder = new TextDecoder();
+  for await (const chunk of stream) {
+    chunks.push(decoder.decode(chunk, { stream: true }));
+  }
+}
+
+/**
+ * Send a signal to a gate's whole process group, falling back to just the
+ * process itself if the group is already gone.
+ */
+function killProcessTree(proc: Subprocess, signal: NodeJS.Signals): void {
+  try {
+    process.kill(-proc.pid, signal);
+  } catch {
+    try {
+      proc.kill(signal);
+    } catch {
+      // Already exited
+    }
+  }
+}
+
+function matchesAny(file: string, globs: string[]): boolean {
+  return globs.some((glob) => new Bun.Glob(glob).match(file));
+}
+
+/**
+ * Substitute the changed files into a gate's scoped args.
+ */
+function expandFiles(args: string[], files: string[]): string[] {
+  return args.flatMap((arg) =>
+    arg === FILES_PLACEHOLDER
+      ? files
+      : [arg.replaceAll(FILES_PLACEHOLDER, files.join(" "))]
+  );
+}
+
+/**
+ * Work out the args a gate runs with for this set of changed files.
+ * Returns a skip reason instead if no changed file is relevant to the gate.
+ */
+function scopeGate(
+  cwd: string,
+  gate: QualityGate,
+  changedFiles: string[] | null | undefined
+): GateRun | { skipReason: string } {
+  if (!changedFiles) {
+    return { args: gate.args, files: null };
+  }
+
+  const matching = gate.files
+    ? changedFiles.filter((f) => matchesAny(f, gate.files!))
+    : changedFiles;
+
+  if (gate.files && matching.length === 0) {
+    return { skipReason: "no matching changed files" };
+  }
+  if (!gate.scopedArgs) {
+    return { args: gate.args, files: null };
+  }
+
+  // Deleted files can't be passed to a linter
+  const existing = matching.filter((f) => existsSync(join(cwd, f)));
+  if (existing.length === 0) {
+    return { skipReason: "no matching changed files" };
+  }
+  return { args: expandFiles(gate.scopedArgs, existing), files: existing };
+}
+
+/**
+ * Work out the args a gate runs with, or why it is skipped: its
+ * package.json script is missing or no changed file is relevant to it.
+ */
+async function prepareGate(
+  cwd: string,
+  gate: QualityGate,
+  changedFiles: string[] | null | undefined
+): Promise<GateRun | { skipReason: string }> {
+  // For "<pm> run <script>" gates, skip if the script isn't defined
+  if (
+    isPackageManager(gate.command) &&
+    gate.args[0] === "run" &&
+    gate.args.length === 2
+  ) {
+    const scriptName = gate.args[1] ?? gate.name;
+    if (!(await scriptExists(cwd, scriptName))) {
+      return { skipReason: "script not found" };
+    }
+  }
+  return scopeGate(cwd, gate, changedFiles);
+}
+
+function formatDuration(ms: number): string {
+  return ms >= 1000 ? `${Math.round(ms / 1000)}s` : `${ms}ms`;
+}
+
+/**
+ * Run a single quality gate command.
+ *
+ * @param cwd - The project root to run the gate in
+ * @param gate - The gate to run
+ * @param context - Global deadline and changed files for this run
+ */
+export async function runQualityGate(
+  cwd: string,
+  gate: QualityGate,
+  context: GateContext = {}
+): Promise<QualityGateResult> {
+  const { deadline, changedFiles, cache, signal } = context;
+  const scope = await prepareGate(cwd, gate, changedFiles);
+  if ("skipReason" in scope) {
+    console.error(`[Gates] Skipping ${gate.name}: ${scope.skipReason}`);
+    return skipped(gate.name, scope.skipReason);
+  }
+
+  const cacheKey = cache ? await cache.keyFor(gate, scope) : undefined;
+  if (cacheKey && cache!.has(gate.name, cacheKey)) {
+    console.error(`[Gates] ${gate.name}: CACHED PASS`);
+    return { ...skipped(gate.name, "cached pass"), cached: true };
+  }
+
+  const startedAt = Date.now();
+  const limits = [gate.timeout, deadline && deadline - startedAt].filter(
+    (t): t is number => typeof t === "number"
+  );
+  const timeoutMs = limits.length > 0 ? Math.min(...limits) : undefined;
+
+  if ((timeoutMs !== undefined && timeoutMs <= 0) || signal?.aborted) {
+    return notStarted(gate.name);
+  }
+
+  try {
+    console.error(`[Gates] Running ${gate.name}...`);
+
+    const proc = Bun.spawn([gate.command, ...scope.args], {
+      cwd,
+      env: { ...process.env, ...gate.env },
+      stdout: "pipe",
+      stderr: "pipe",
+      // Own process group, so a timeout can kill every descendant
+      detached: true,
+    });
+
+    const stdout: string[] = [];
+    const stderr: string[] = [];
+    const drained = Promise.all([
+      collectStream(proc.stdout, stdout),
+      collectStream(proc.stderr, stderr),
+    ]);
+
+    let timedOut = false;
+    let killTimer: Timer | undefined;
+    const timeoutTimer =
+      timeoutMs !== undefined
+        ? setTimeout(() => {
+            timedOut = true;
+            console.error(
+              `[Gates] ${gate.name} timed out after ${formatDuration(timeoutMs)}, killing`
+            );
+            killProcessTree(proc, "SIGTERM");
+            killTimer = setTimeout(
+              () => killProcessTree(proc, "SIGKILL"),
+              KILL_GRACE_MS
+            );
+          }, timeoutMs)
+        : undefined;
+
+    // The hook exits right after an abort, so there's no grace period
+    const onAbort = () => {
+      timedOut = true;
+      console.error(`[Gates] Run aborted, killing ${gate.name}`);
+      killProcessTree(proc, "SIGKILL");
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    await proc.exited;
+    clearTimeout(timeoutTimer);
+    clearTimeout(killTimer);
+    signal?.removeEventListener("abort", onAbort);
+
+    if (timedOut) {
+      // Don't wait forever on pipes held open by escaped grandchildren
+      await Promise.race([drained, Bun.sleep(STREAM_DRAIN_MS)]);
+    } else {
+      await drained;
+    }
+
+    const output = [stdout.join(""), stderr.join("")]
+      .filter(Boolean)
+      .join("\n")
+      .trim();
+    const durationMs = Date.now() - startedAt;
+
+    if (timedOut) {
+      console.error(`[Gates] ${gate.name}: TIMED OUT`);
+      return {
+        name: gate.name,
+        passed: false,
+        output: `${output}\n... (killed after ${formatDuration(
+          timeoutMs ?? durationMs
+        )})`.trim(),
+        timedOut: true,
+        durationMs,
+      };
+    }
+
+    const passed = proc.exitCode === 0;
+
+    console.error(`[Gates] ${gate.name}: ${passed ? "PASSED" : "FAILED"}`);
+
+    const result = { name: gate.name, passed, output, durationMs };
+    if (passed && cacheKey) {
+      cache!.set(gate.name, cacheKey, result);
+    }
+    return result;
+  } catch (error) {
+    console.error(`[Gates] Error running ${gate.name}:`, error);
+    return {
+      name: gate.name,
+      passed: false,
+      output: `Error running ${gate.name}: ${error}`,
+      durationMs: Date.now() - startedAt,
+    };
+  }
+}
+
+// =============================================================================
+// ALL GATES
+// =============================================================================
+
+/**
+ * Order gates so every gate comes after its dependencies, keeping config
+ * order otherwise. Assumes the graph is acyclic (validated in config.ts).
+ */
+export function orderByDependencies(gates: QualityGate[]): QualityGate[] {
+  const byName = new Map(gates.map((g) => [g.name, g]));
+  const ordered: QualityGate[] = [];
+  const visited = new Set<string>();
+
+  const visit = (gate: QualityGate) => {
+    if (visited.has(gate.name)) return;
+    visited.add(gate.name);
+    for (const dep of gate.dependsOn ?? []) {
+      const depGate = byName.get(dep);
+      if (depGate) visit(depGate);
+    }
+    ordered.push(gate);
+  };
+
+  gates.forEach(visit);
+  return ordered;
+}
+
+/**
+ * Run gates one at a time in dependency order, stopping on first failure.
+ */
+async function runSequential(
+  cwd: string,
+  gates: QualityGate[],
+  context: GateContext
+): Promise<QualityGateResult[]> {
+  const results: QualityGateResult[] = [];
+  for (const gate of orderByDependencies(gates)) {
+    const result = await runQualityGate(cwd, gate, context);
+    results.push(result);
+    if (!result.passed) {
+      break;
+    }
+  }
+  return results;
+}
+
+/**
+ * Run gates concurrently as soon as their dependencies pass.
+ * Gates whose dependencies failed are reported as skipped.
+ */
+async function runParallel(
+  cwd: string,
+  gates: QualityGate[],
+  concurrency: number,
+  context: GateContext
+): Promise<QualityGateResult[]> {
+  const { deadline } = context;
+  const results = new Map<string, QualityGateResult>();
+  const pending = orderByDependencies(gates);
+  const running = new Map<string, Promise<void>>();
+  const names = new Set(gates.map((g) => g.name));
+
+  while (pending.length > 0 || running.size > 0) {
+    if (
+      (deadline !== undefined && Date.now() >= deadline) ||
+      context.signal?.aborted
+    ) {
+      // Out of time: report everything not yet started, unless it would
+      // have been skipped anyway
+      for (const gate of pending.splice(0)) {
+        const scope = await prepareGate(cwd, gate, context.changedFiles);
+        results.set(
+          gate.name,
+          "skipReason" in scope
+            ? skipped(gate.name, scope.skipReason)
+            : notStarted(gate.name)
+        );
+      }
+    }
+
+    // Start (or skip) every gate whose dependencies have all finished
+    for (let i = 0; i < pending.length && running.size < concurrency;) {
+      const gate = pending[i]!;
+      const deps = (gate.dependsOn ?? []).filter((d) => names.has(d));
+
+      if (!deps.every((d) => results.has(d))) {
+        i++;
+        continue;
+      }
+      pending.splice(i, 1);
+
+      const failedDeps = deps.filter((d) => !results.get(d)!.passed);
+      if (failedDeps.length > 0) {
+        const reason = `depends on failing ${failedDeps.join(", ")}`;
+        console.error(`[Gates] Skipping ${gate.name}: ${reason}`);
+        results.set(gate.name, {
+          ...skipped(gate.name, reason),
+          blockedBy: failedDeps,
+        });
+        // A skip may unblock other gates, so rescan from the start
+        i = 0;
+        continue;
+      }
+
+      running.set(
+        gate.name,
+        runQualityGate(cwd, gate, context).then((result) => {
+          results.set(gate.name, result);
+          running.delete(gate.name);
+        })
+      );
+    }
+
+    if (running.size > 0) {
+      await Promise.race(running.values());
+    }
+  }
+
+  // Report in config order
+  return gates.map((g) => results.get(g.name)!);
+}
+
+/**
+ * Find the changed file, if any, that forces every gate to run in full.
+ */
+function findFullRunTrigger(
+  options: Pick<RunGatesOptions, "changedFiles" | "fullRunOn">
+): string | undefined {
+  return options.changedFiles?.find((f) =>
+    matchesAny(f, options.fullRunOn ?? [])
+  );
+}
+
+/**
+ * Run all enabled quality gates and return every result.
+ *
+ * Disabled gates are left out of the results, and dependencies on them
+ * are treated as satisfied.
+ */
+export async function runQualityGates(
+  cwd: string,
+  gates: QualityGate[],
+  options: RunGatesOptions
+): Promise<QualityGateResult[]> {
+  const enabled = gates.filter((gate) => {
+    if (gate.enabled === false) {
+      console.error(`[Gates] Skipping ${gate.name}: disabled in config`);
+      return false;
+    }
+    return true;
+  });
+
+  const context: GateContext = {
+    deadline:
+      options.timeout !== undefined ? Date.now() + options.timeout : undefined,
+    changedFiles: options.changedFiles ?? null,
+    cache: options.cache,
+    signal: options.signal,
+  };
+
+  const trigger = findFullRunTrigger(options);
+  if (trigger) {
+    console.error(`[Gates] ${trigger} changed, running all gates in full`);
+    context.changedFiles = null;
+  }
+
+  return options.mode === "sequential"
+    ? runSequential(cwd, enabled, context)
+    : runParallel(cwd, enabled, Math.max(1, options.concurrency), context);
+}
+
+// =============================================================================
+// PLANNING
+// =============================================================================
+
+/**
+ * Work out what `runQualityGates` would do with the same gates and options,
+ * without running anything. Gates are listed in the order a sequential run
+ * would use.
+ */
+export async function planQualityGates(
+  cwd: string,
+  gates: QualityGate[],
+  options: Pick<RunGatesOptions, "changedFiles" | "fullRunOn">
+): Promise<QualityGatePlan> {
+  const fullRunTrigger = findFullRunTrigger(options);
+  const changedFiles = fullRunTrigger ? null : (options.changedFiles ?? null);
+
+  const planned = await Promise.all(
+    orderByDependencies(gates).map(async (gate): Promise<GatePlan> => {
+      const base = { name: gate.name, dependsOn: gate.dependsOn ?? [] };
+      if (gate.enabled === false) {
+        return { ...base, skipReason: "disabled in config" };
+      }
+      const scope = await prepareGate(cwd, gate, changedFiles);
+      return "skipReason" in scope
+        ? { ...base, skipReason: scope.skipReason }
+        : { ...base, command: [gate.command, ...scope.args] };
+    })
+  );
+
+  return { fullRunTrigger, gates: planned };
+}
@@ -0,0 +1,255 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  getChangedFileEntries,
+  getChangedFiles,
+  parseNameStatus,
+  parsePorcelainV2,
+} from "./git";
+
+const MODES = "100644 100644 100644";
+const HASHES =
+  "1111111111111111111111111111111111111111 2222222222222222222222222222222222222222";
+
+function records(...fields: string[]): string {
+  return fields.map((f) => `${f}\0`).join("");
+}
+
+describe("parsePorcelainV2", () => {
+  test("parses ordinary changes, with spaces and unicode in paths", () => {
+    const output = records(
+      `1 M. N... ${MODES} ${HASHES} src/index.ts`,
+      `1 .M N... ${MODES} ${HASHES} docs/release notes.md`,
+      `1 A. N... 000000 100644 100644 ${HASHES} src/café/ünïcode 名前.ts`,
+      `1 .D N... ${MODES} ${HASHES} old.ts`
+    );
+    expect(parsePorcelainV2(output)).toEqual([
+      {
+        status: "modified",
+        path: "src/index.ts",
+        staged: true,
+        unstaged: false,
+        untracked: false,
+        committed: false,
+      },
+      {
+        status: "modified",
+        path: "docs/release notes.md",
+        staged: false,
+        unstaged: true,
+        untracked: false,
+        committed: false,
+      },
+      {
+        status: "added",
+        path: "src/café/ünïcode 名前.ts",
+        staged: true,
+        unstaged: false,
+        untracked: false,
+        committed: false,
+      },
+      {
+        status: "deleted",
+        path: "old.ts",
+        staged: false,
+        unstaged: true,
+        untracked: false,
+        committed: false,
+      },
+    ]);
+  });
+
+  test("reads a rename's old path from the next record", () => {
+    const output = records(
+      `2 R. N... ${MODES} ${HASHES} R87 src/new name.ts`,
+      "src/old name.ts",
+      `1 .M N... ${MODES} ${HASHES} after.ts`
+    );
+    expect(parsePorcelainV2(output)).toMatchObject([
+      {
+        status: "renamed",
+        path: "src/new name.ts",
+        oldPath: "src/old name.ts",
+        staged: true,
+      },
+      { status: "modified", path: "after.ts" },
+    ]);
+  });
+
+  test("parses unmerged and untracked files and skips headers", () => {
+    const output = records(
+      "# branch.oid 1111111111111111111111111111111111111111",
+      "# branch.head main",
+      `u UU N... 100644 100644 100644 100644 ${HASHES} 3333333333333333333333333333333333333333 conflict file.ts`,
+      "? new dir/nested/file.ts",
+      "! ignored.log"
+    );
+    expect(parsePorcelainV2(output)).toMatchObject([
+      { status: "unmerged", path: "conflict file.ts", staged: true },
+      { status: "untracked", path: "new dir/nested/file.ts", untracked: true },
+    ]);
+  });
+
+  test("returns nothing for a clean tree", () => {
+    expect(parsePorcelainV2("")).toEqual([]);
+  });
+});
+
+describe("parseNameStatus", () => {
+  test("parses changes, renames and copies", () => {
+    const output = records(
+      "M",
+      "src/index.ts",
+      "R100",
+      "old name.ts",
+      "new name.ts",
+      "C75",
+      "base.ts",
+      "copy.ts",
+      "A",
+      "名前.ts"
+    );
+    expect(parseNameStatus(output)).toEqual([
+      {
+        status: "modified",
+        path: "src/index.ts",
+        oldPath: undefined,
+        staged: false,
+        unstaged: false,
+        untracked: false,
+        committed: true,
+      },
+      {
+        status: "renamed",
+        path: "new name.ts",
+        oldPath: "old name.ts",
+        staged: false,
+        unstaged: false,
+        untracked: false,
+        committed: true,
+      },
+      {
+        status: "copied",
+        path: "copy.ts",
+        oldPath: "base.ts",
+        staged: false,
+        unstaged: false,
+        untracked: false,
+        committed: true,
+      },
+      {
+        status: "added",
+        path: "名前.ts",
+        oldPath: undefined,
+        staged: false,
+        unstaged: false,
+        untracked: false,
+        committed: true,
+      },
+    ]);
+  });
+});
+
+describe("getChangedFileEntries", () => {
+  let repo: string;
+
+  async function run(...args: string[]): Promise<void> {
+    const proc = Bun.spawn(["git", ...args], {
+      cwd: repo,
+      env: {
+        ...process.env,
+        GIT_AUTHOR_NAME: "Test",
+        GIT_AUTHOR_EMAIL: "test@example.com",
+        GIT_COMMITTER_NAME: "Test",
+        GIT_COMMITTER_EMAIL: "test@example.com",
+      },
+      stdout: "ignore",
+      stderr: "ignore",
+    });
+    if ((await proc.exited) !== 0) {
+      throw new Error(`git ${args.join(" ")} failed`);
+    }
+  }
+
+  async function file(path: string, content = path): Promise<void> {
+    await mkdir(join(repo, path, ".."), { recursive: true });
+    await writeFile(join(repo, path), content);
+  }
+
+  beforeEach(async () => {
+    repo = await mkdtemp(join(tmpdir(), "git-test-"));
+    await run("init", "-q", "-b", "main");
+    await file("a.ts");
+    await file("rename me.ts", "content that is long enough to be a rename\n");
+    await run("add", "-A");
+    await run("commit", "-q", "-m", "initial");
+  });
+
+  afterEach(async () => {
+    await rm(repo, { recursive: true, force: true });
+  });
+
+  test("lists working tree changes", async () => {
+    await file("a.ts", "changed");
+    await file("new dir/deep/ünïcode.ts");
+    await run("mv", "rename me.ts", "renamed.ts");
+
+    const entries = await getChangedFileEntries(repo);
+    expect(entries).toHaveLength(3);
+    expect(entries).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ status: "modified", path: "a.ts" }),
+        expect.objectContaining({
+          status: "renamed",
+          path: "renamed.ts",
+          oldPath: "rename me.ts",
+        }),
+        expect.objectContaining({
+          status: "untracked",
+          path: "new dir/deep/ünïcode.ts",
+        }),
+      ])
+    );
+  });
+
+  test("includes changes committed since the merge-base with baseRef", async () => {
+    await run("checkout", "-q", "-b", "feature");
+    await file("committed.ts");
+    await file("a.ts", "committed change");
+    await run("add", "-A");
+    await run("commit", "-q", "-m", "feature work");
+    // main moving on doesn't count against the feature branch
+    await run("checkout", "-q", "main");
+    await file("main-only.ts");
+    await run("add", "-A");
+    await run("commit", "-q", "-m", "main work");
+    await run("checkout", "-q", "feature");
+    await file("a.ts", "uncommitted change");
+
+    expect(await getChangedFiles(repo)).toEqual(["a.ts"]);
+
+    const entries = await getChangedFileEntries(repo, { baseRef: "main" });
+    expect(entries).toEqual([
+      expect.objectContaining({ path: "a.ts", committed: false }),
+      expect.objectContaining({
+        status: "added",
+        path: "committed.ts",
+        committed: true,
+      }),
+    ]);
+  });
+
+  test("ignores a baseRef with no merge-base", async () => {
+    await file("a.ts", "changed");
+    expect(await getChangedFiles(repo, { baseRef: "no-such-ref" })).toEqual([
+      "a.ts",
+    ]);
+  });
+
+  test("returns paths relative to a subdirectory", async () => {
+    await file("pkg/src/index.ts");
+    expect(await getChangedFiles(join(repo, "pkg"))).toEqual(["src/index.ts"]);
+  });
+});
@@ -0,0 +1,348 @@
+/**
+ * GIT CHANGE DETECTION
+ * =====================
+ * Finds the files changed in a project, for deciding whether the Stop hook
+ * needs to run quality gates and which files to scope them to.
+ *
+ * Working tree changes come from `git status --porcelain=v2 -z`, which
+ * (unlike the v1 text format) never quotes paths, reports renames as
+ * separate old/new fields, and with `--untracked-files=all` lists every
+ * file inside an untracked directory rather than just the directory.
+ *
+ * Optionally, changes already committed since a base ref (e.g. the
+ * merge-base with main) are included too, so work Claude committed during
+ * the session still triggers the gates.
+ *
+ * All returned paths are relative to `cwd`, even when it is a subdirectory
+ * of the repository.
+ */
+
+import { realpathSync } from "fs";
+import { join, relative } from "path";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type ChangeStatus =
+  | "modified"
+  | "type-changed"
+  | "added"
+  | "deleted"
+  | "renamed"
+  | "copied"
+  | "unmerged"
+  | "untracked";
+
+export interface ChangedFileEntry {
+  status: ChangeStatus;
+  /** Current path (the new path for renames and copies) */
+  path: string;
+  /** Original path for renames and copies */
+  oldPath?: string;
+  /** Has changes in the index */
+  staged: boolean;
+  /** Has changes in the working tree not yet staged */
+  unstaged: boolean;
+  untracked: boolean;
+  /** Change was committed since the base ref (not in the working tree) */
+  committed: boolean;
+}
+
+export interface ChangedFilesOptions {
+  /**
+   * Also include changes committed since the merge-base of HEAD and this
+   * ref (e.g. "origin/main").
+   */
+  baseRef?: string;
+}
+
+const STATUS_CODES: Record<string, ChangeStatus> = {
+  M: "modified",
+  T: "type-changed",
+  A: "added",
+  D: "deleted",
+  R: "renamed",
+  C: "copied",
+  U: "unmerged",
+};
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Run a git command and return its stdout, or null if it failed.
+ */
+async function git(cwd: string, args: string[]): Promise<string | null> {
+  const proc = Bun.spawn(["git", ...args], {
+    cwd,
+    stdout: "pipe",
+    stderr: "pipe",
+  });
+
+  const [output, errors] = await Promise.all([
+    new Response(proc.stdout).text(),
+    new Response(proc.stderr).text(),
+  ]);
+  await proc.exited;
+
+  if (proc.exitCode !== 0) {
+    console.error(`[Git] git ${args[0]} failed: ${errors.trim()}`);
+    return null;
+  }
+  return output;
+}
+
+/**
+ * Split a line into `count` space-separated fields plus the remainder,
+ * which is a path and may itself contain spaces.
+ */
+function splitFields(line: string, count: number): [string[], string] {
+  const fields: string[] = [];
+  let rest = line;
+  for (let i = 0; i < count; i++) {
+    const space = rest.indexOf(" ");
+    fields.push(rest.slice(0, space));
+    rest = rest.slice(space + 1);
+  }
+  return [fields, rest];
+}
+
+function statusFromXY(xy: string): ChangeStatus {
+  const code = xy[0] !== "." ? xy[0]! : xy[1]!;
+  return STATUS_CODES[code] ?? "modified";
+}
+
+// =============================================================================
+// PARSERS
+// =============================================================================
+
+/**
+ * Parse `git status --porcelain=v2 -z` output.
+ * Paths are returned as git prints them (relative to the repository root).
+ */
+export function parsePorcelainV2(output: string): ChangedFileEntry[] {
+  const records = output.split("\0");
+  const entries: ChangedFileEntry[] = [];
+
+  for (let i = 0; i < records.length; i++) {
+    const record = records[i]!;
+    if (!record) continue;
+
+    switch (record[0]) {
+      case "1": {
+        // 1 XY sub mH mI mW hH hI path
+        const [fields, path] = splitFields(record, 8);
+        const xy = fields[1]!;
+        entries.push({
+          status: statusFromXY(xy),
+          path,
+          staged: xy[0] !== ".",
+          unstaged: xy[1] !== ".",
+          untracked: false,
+          committed: false,
+        });
+        break;
+      }
+      case "2": {
+        // 2 XY sub mH mI mW hH hI Xscore path \0 origPath
+        const [fields, path] = splitFields(record, 9);
+        const xy = fields[1]!;
+        const oldPath = records[++i];
+        entries.push({
+          status: statusFromXY(xy),
+          path,
+          oldPath,
+          staged: xy[0] !== ".",
+          unstaged: xy[1] !== ".",
+          untracked: false,
+          committed: false,
+        });
+        break;
+      }
+      case "u": {
+        // u XY sub m1 m2 m3 mW h1 h2 h3 path
+        const [, path] = splitFields(record, 10);
+        entries.push({
+          status: "unmerged",
+          path,
+          staged: true,
+          unstaged: true,
+          untracked: false,
+          committed: false,
+        });
+        break;
+      }
+      case "?": {
+        entries.push({
+          status: "untracked",
+          path: record.slice(2),
+          staged: false,
+          unstaged: false,
+          untracked: true,
+          committed: false,
+        });
+        break;
+      }
+      // "!" (ignored) and "#" (headers) are skipped
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Parse `git diff --name-status -z` output.
+ * Paths are returned as git prints them (relative to the repository root).
+ */
+export function parseNameStatus(output: string): ChangedFileEntry[] {
+  const records = output.split("\0");
+  const entries: ChangedFileEntry[] = [];
+
+  for (let i = 0; i < records.length; i++) {
+    const code = records[i];
+    if (!code) continue;
+
+    const status = STATUS_CODES[code[0]!] ?? "modified";
+    // Renames and copies carry a score (R100) and two paths
+    const oldPath =
+      status === "renamed" || status === "copied" ? records[++i] : undefined;
+    const path = records[++i];
+    if (path === undefined) break;
+
+    entries.push({
+      status,
+      path,
+      oldPath,
+      staged: false,
+      unstaged: false,
+      untracked: false,
+      committed: true,
+    });
+  }
+
+  return entries;
+}
+
+// =============================================================================
+// CHANGE DETECTION
+// =============================================================================
+
+/**
+ * Check whether a directory is inside a git work tree.
+ */
+export async function isGitRepository(cwd: string): Promise<boolean> {
+  try {
+    const proc = Bun.spawn(["git", "rev-parse", "--is-inside-work-tree"], {
+      cwd,
+      stdout: "pipe",
+      stderr: "ignore",
+    });
+    const output = await new Response(proc.stdout).text();
+    await proc.exited;
+    return proc.exitCode === 0 && output.trim() === "true";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Get the commit HEAD points at, or null outside a repository or before
+ * the first commit.
+ */
+export async function getHeadCommit(cwd: string): Promise<string | null> {
+  try {
+    const proc = Bun.spawn(["git", "rev-parse", "--verify", "-q", "HEAD"], {
+      cwd,
+      stdout: "pipe",
+      stderr: "ignore",
+    });
+    const output = await new Response(proc.stdout).text();
+    await proc.exited;
+    return proc.exitCode === 0 ? output.trim() : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get structured change entries for a project.
+ * Returns an empty array if not in a git repo or git fails.
+ *
+ * @param cwd - The project directory; returned paths are relative to it
+ * @param options - Set `baseRef` to include committed changes as well
+ */
+export async function getChangedFileEntries(
+  cwd: string,
+  options: ChangedFilesOptions = {}
+): Promise<ChangedFileEntry[]> {
+  try {
+    const topLevel = (await git(cwd, ["rev-parse", "--show-toplevel"]))?.trim();
+    if (!topLevel) {
+      console.error("[Git] Not in a git repository");
+      return [];
+    }
+
+    const status = await git(cwd, [
+      "status",
+      "--porcelain=v2",
+      "-z",
+      "--untracked-files=all",
+    ]);
+    if (status === null) {
+      return [];
+    }
+
+    let entries = parsePorcelainV2(status);
+
+    if (options.baseRef) {
+      const mergeBase = (
+        await git(cwd, ["merge-base", "HEAD", options.baseRef])
+      )?.trim();
+      if (mergeBase) {
+        const diff = await git(cwd, [
+          "diff",
+          "--name-status",
+          "-z",
+          "-M",
+          mergeBase,
+          "HEAD",
+        ]);
+        // Working tree state wins for files that appear in both
+        const seen = new Set(entries.map((e) => e.path));
+        const committed = parseNameStatus(diff ?? "").filter(
+          (e) => !seen.has(e.path)
+        );
+        entries = [...entries, ...committed];
+      } else {
+        console.error(`[Git] No merge-base with ${options.baseRef}`);
+      }
+    }
+
+    // Make paths relative to cwd rather than the repository root. git
+    // reports the resolved top level, so resolve cwd's symlinks to match.
+    const realCwd = realpathSync(cwd);
+    const toCwd = (p: string) => relative(realCwd, join(topLevel, p));
+    return entries.map((entry) => ({
+      ...entry,
+      path: toCwd(entry.path),
+      oldPath: entry.oldPath !== undefined ? toCwd(entry.oldPath) : undefined,
+    }));
+  } catch (error) {
+    console.error("[Git] Error getting changed files:", error);
+    return [];
+  }
+}
+
+/**
+ * Get the list of changed file paths (new paths for renames).
+ * Returns empty array if no changes or not in a git repo.
+ */
+export async function getChangedFiles(
+  cwd: string,
+  options: ChangedFilesOptions = {}
+): Promise<string[]> {
+  const entries = await getChangedFileEntries(cwd, options);
+  return [...new Set(entries.map((e) => e.path))];
+}
@@ -0,0 +1,319 @@
+/**
+ * HOOK RUNTIME
+ * =============
+ * Runs a hook script's handler: reads its input from stdin, checks it,
+ * runs the handler against a deadline, and writes exactly one JSON output
+ * to stdout, whatever happens.
+ *
+ * A hook script is just its handler:
+ *
+ *   defineHook("PreToolUse", async (input, ctx) => {
+ *     if (input.tool_name === "Bash") return denyTool("No shell today");
+ *     return continueOutput();
+ *   });
+ *
+ * The runtime:
+ * - Parses stdin and checks it against the event's input schema (see
+ *   src/schema.ts)
+ * - Gives the handler a context with when it started, an AbortSignal that
+ *   fires at the deadline, and the details to record in the audit log
+ * - Fails the hook if the handler throws, misses its deadline or returns
+ *   an output that doesn't match the output schema for the event
+ * - Records the invocation in the audit log (see src/audit.ts)
+ *
+ * FAILURE POLICY:
+ * A failed hook either fails open (stays out of the way: the tool runs,
+ * Claude stops, the prompt goes through) or fails closed (denies the tool
+ * call, blocks the stop or prompt, ends the session). Every event fails
+ * open by default, so a broken hook never traps Claude. Fail closed with
+ * the `onError` option, or by listing events (or "all") in
+ * QUALITY_GATES_FAIL_CLOSED, e.g. `QUALITY_GATES_FAIL_CLOSED=PreToolUse`.
+ *
+ * A hook that fails open exits 1, so Claude Code shows its error to the
+ * user and carries on; one that fails closed exits 0, so Claude Code acts
+ * on its output.
+ *
+ * DEADLINES:
+ * Claude Code kills a hook at its timeout in hooks.json (60 seconds unless
+ * set), leaving no output at all. The runtime gives up a little earlier
+ * so the failure policy still applies; see DEFAULT_DEADLINES.
+ */
+
+import type { SyncHookJSONOutput } from "@anthropic-ai/claude-agent-sdk";
+import { auditHook, type AuditDetails } from "./audit";
+import {
+  HookInputError,
+  HookOutputError,
+  parseHookInput,
+  serializeHookOutput,
+  type HookEventName,
+  type HookInputFor,
+} from "./schema";
+import { setProjectDir } from "./state";
+import { allowStop, continueOutput, denyTool } from "./utils";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type FailureMode = "open" | "closed";
+
+export interface HookContext {
+  /** When the hook started (epoch ms) */
+  startedAt: number;
+  /** Fires when the handler's deadline passes */
+  signal: AbortSignal;
+  /** Recorded in the audit log with the output (see src/audit.ts) */
+  audit: AuditDetails;
+}
+
+export type HookHandler<E extends HookEventName> = (
+  input: HookInputFor<E>,
+  ctx: HookContext
+) => SyncHookJSONOutput | Promise<SyncHookJSONOutput>;
+
+export interface HookOptions {
+  /** Milliseconds the handler may run (default: DEFAULT_DEADLINES) */
+  deadline?: number;
+  /** What to do when the hook fails (default: open, or QUALITY_GATES_FAIL_CLOSED) */
+  onError?: FailureMode;
+}
+
+/**
+ * The outcome of running a hook: what to write and how to exit.
+ */
+export interface HookResult {
+  output: SyncHookJSONOutput;
+  /** The output as written to stdout */
+  serialized: string;
+  exitCode: number;
+}
+
+/**
+ * The handler was still running at its deadline.
+ */
+export class HookTimeoutError extends Error {
+  constructor(
+    public readonly event: HookEventName,
+    public readonly deadline: number
+  ) {
+    super(`${event} hook did not finish within ${deadline}ms`);
+    this.name = "HookTimeoutError";
+  }
+}
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+export const FAIL_CLOSED_ENV = "QUALITY_GATES_FAIL_CLOSED";
+
+/**
+ * Claude Code's default command hook timeout, in ms.
+ */
+const HOOK_TIMEOUT_MS = 60_000;
+
+/**
+ * Time left after the deadline to write the output and audit record.
+ */
+const DEADLINE_MARGIN_MS = 5_000;
+
+/**
+ * Deadlines per event, a little inside their hooks.json timeouts. Stop
+ * runs the quality gates, so hooks.json gives it 600 seconds.
+ */
+export const DEFAULT_DEADLINES: Partial<Record<HookEventName, number>> = {
+  Stop: 600_000 - DEADLINE_MARGIN_MS,
+};
+
+const DEFAULT_DEADLINE = HOOK_TIMEOUT_MS - DEADLINE_MARGIN_MS;
+
+// =============================================================================
+// FAILURE POLICY
+// =============================================================================
+
+/**
+ * Get an event's failure mode: the hook's own, else QUALITY_GATES_FAIL_CLOSED,
+ * else open.
+ */
+export function getFailureMode(
+  event: HookEventName,
+  options: HookOptions = {}
+): FailureMode {
+  if (options.onError) {
+    return options.onError;
+  }
+  const events = (process.env[FAIL_CLOSED_ENV] ?? "")
+    .split(",")
+    .map((e) => e.trim());
+  return events.includes(event) || events.includes("all") ? "closed" : "open";
+}
+
+/**
+ * Build the output for a failed hook.
+ */
+export function failureOutput(
+  event: HookEventName,
+  mode: FailureMode,
+  message: string
+): SyncHookJSONOutput {
+  if (mode === "open") {
+    return event === "Stop" || event === "SubagentStop"
+      ? allowStop()
+      : continueOutput();
+  }
+  const reason = `Hook failed: ${message}`;
+  switch (event) {
+    case "PreToolUse":
+      return denyTool(reason);
+    case "PostToolUse":
+    case "UserPromptSubmit":
+    case "Stop":
+    case "SubagentStop":
+      return { decision: "block", reason };
+    default:
+      return { continue: false, stopReason: reason };
+  }
+}
+
+// =============================================================================
+// RUNNING
+// =============================================================================
+
+/**
+ * Run a handler, rejecting with HookTimeoutError and aborting its signal
+ * if the deadline passes first.
+ */
+async function withDeadline<E extends HookEventName>(
+  event: E,
+  deadline: number,
+  controller: AbortController,
+  run: () => SyncHookJSONOutput | Promise<SyncHookJSONOutput>
+): Promise<SyncHookJSONOutput> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timedOut = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new HookTimeoutError(event, deadline));
+    }, deadline);
+  });
+  try {
+    return await Promise.race([Promise.resolve().then(run), timedOut]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Build the result for a failed hook, logging the error.
+ */
+function failure(
+  event: HookEventName,
+  mode: FailureMode,
+  error: unknown
+): HookResult {
+  // The runtime's own errors have stack traces that only point at it
+  const own =
+    error instanceof HookInputError ||
+    error instanceof HookTimeoutError ||
+    error instanceof HookOutputError;
+  console.error(`[${event}] Error:`, own ? error.message : error);
+  const output = failureOutput(event, mode, errorMessage(error));
+  return {
+    output,
+    serialized: JSON.stringify(output),
+    // Claude Code only acts on the output of a hook that exits 0
+    exitCode: mode === "closed" ? 0 : 1,
+  };
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Run a hook on its raw input, without touching stdin or stdout. Never
+ * throws: a failure becomes the event's failure output.
+ *
+ * @param event - The hook event
+ * @param handler - The hook's logic
+ * @param text - The hook's stdin
+ * @param options - Deadline and failure mode
+ */
+export async function runHook<E extends HookEventName>(
+  event: E,
+  handler: HookHandler<E>,
+  text: string,
+  options: HookOptions = {}
+): Promise<HookResult> {
+  const startedAt = Date.now();
+  const mode = getFailureMode(event, options);
+  const deadline =
+    options.deadline ?? DEFAULT_DEADLINES[event] ?? DEFAULT_DEADLINE;
+
+  let input: HookInputFor<E>;
+  try {
+    input = parseHookInput(event, text);
+  } catch (error) {
+    // No session to record it against
+    return failure(event, mode, error);
+  }
+  setProjectDir(input.cwd);
+
+  const controller = new AbortController();
+  const ctx: HookContext = {
+    startedAt,
+    signal: controller.signal,
+    audit: {},
+  };
+
+  let result: HookResult;
+  try {
+    const output = await withDeadline(event, deadline, controller, () =>
+      handler(input, ctx)
+    );
+    result = {
+      output,
+      serialized: serializeHookOutput(event, output),
+      exitCode: 0,
+    };
+  } catch (error) {
+    result = failure(event, mode, error);
+    // A hook that fails closed is recorded by the decision in its output
+    ctx.audit.decision = mode === "open" ? "error" : undefined;
+    ctx.audit.reason = errorMessage(error);
+  }
+
+  await auditHook(input, result.output, startedAt, ctx.audit);
+  return result;
+}
+
+/**
+ * Run a hook script: read its input from stdin, run the handler and write
+ * its output to stdout, then exit.
+ *
+ * @param event - The hook event the script is registered for
+ * @param handler - The hook's logic; it returns the output rather than
+ *   writing it
+ * @param options - Deadline and failure mode
+ */
+export function defineHook<E extends HookEventName>(
+  event: E,
+  handler: HookHandler<E>,
+  options: HookOptions = {}
+): void {
+  const finish = ({ serialized, exitCode }: HookResult): never => {
+    console.log(serialized);
+    // Don't wait on work the deadline abandoned
+    process.exit(exitCode);
+  };
+  const fail = (error: unknown) =>
+    failure(event, getFailureMode(event, options), error);
+
+  Bun.stdin
+    .text()
+    .then((text) => runHook(event, handler, text, options), fail)
+    .then(finish)
+    // Anything the runtime itself got wrong still ends in the failure output
+    .catch((error) => finish(fail(error)));
+}
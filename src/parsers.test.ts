@@ -0,0 +1,219 @@
+import { describe, expect, test } from "bun:test";
+import {
+  parseGateOutput,
+  renderDiagnostics,
+  smartTruncate,
+  type Diagnostic,
+} from "./parsers";
+
+const CWD = "/repo";
+
+function gate(name: string, command = "bun", args: string[] = []) {
+  return { name, command, args };
+}
+
+describe("tsc", () => {
+  test("parses plain and --pretty diagnostics", () => {
+    const output = [
+      "src/a.ts(3,7): error TS2322: Type 'string' is not assignable to type 'number'.",
+      "src/b.ts:10:1 - error TS2304: Cannot find name 'foo'.",
+      "Found 2 errors.",
+    ].join("\n");
+
+    expect(parseGateOutput(gate("typecheck"), output, CWD)).toEqual([
+      {
+        file: "src/a.ts",
+        line: 3,
+        column: 7,
+        severity: "error",
+        rule: "TS2322",
+        message: "Type 'string' is not assignable to type 'number'.",
+      },
+      {
+        file: "src/b.ts",
+        line: 10,
+        column: 1,
+        severity: "error",
+        rule: "TS2304",
+        message: "Cannot find name 'foo'.",
+      },
+    ]);
+  });
+});
+
+describe("eslint", () => {
+  test("parses stylish output with files relative to the project", () => {
+    const output = [
+      "/repo/src/a.ts",
+      "  1:10  error    'x' is defined but never used  no-unused-vars",
+      "  4:1   warning  Unexpected console statement   no-console",
+      "",
+      "✖ 2 problems (1 error, 1 warning)",
+    ].join("\n");
+
+    const diagnostics = parseGateOutput(gate("lint"), output, CWD);
+    expect(
+      diagnostics.map((d) => [d.file, d.line, d.severity, d.rule])
+    ).toEqual([
+      ["src/a.ts", 1, "error", "no-unused-vars"],
+      ["src/a.ts", 4, "warning", "no-console"],
+    ]);
+  });
+
+  test("parses --format json", () => {
+    const output = JSON.stringify([
+      {
+        filePath: "/repo/src/a.ts",
+        messages: [
+          {
+            line: 2,
+            column: 3,
+            ruleId: "eqeqeq",
+            message: "Use ===",
+            severity: 2,
+          },
+        ],
+      },
+    ]);
+
+    expect(parseGateOutput(gate("lint"), output, CWD)).toEqual([
+      {
+        file: "src/a.ts",
+        line: 2,
+        column: 3,
+        rule: "eqeqeq",
+        message: "Use ===",
+        severity: "error",
+      },
+    ]);
+  });
+});
+
+describe("test", () => {
+  test("takes bun's error line, not its code frame", () => {
+    // Real `bun test` output (bun 1.4.3)
+    const output = `bun test v1.4.3 (c6da4a4d3)
+
+math.test.ts:
+1 | import { test, expect } from "bun:test";
+2 |
+3 | test("adds", () => {
+4 |   expect(1 + 1).toBe(3);
+                    ^
+error: expect(received).toBe(expected)
+
+Expected: 3
+Received: 2
+
+      at <anonymous> (/repo/math.test.ts:4:17)
+(fail) adds [0.37ms]
+(pass) ok [0.02ms]
+
+ 1 pass
+ 1 fail
+ 2 expect() calls
+Ran 2 tests across 1 file. [5.00ms]
+`;
+
+    expect(parseGateOutput(gate("test"), output, CWD)).toEqual([
+      {
+        file: "math.test.ts",
+        line: 4,
+        column: 17,
+        rule: "adds",
+        message: "expect(received).toBe(expected)",
+        severity: "error",
+      },
+    ]);
+  });
+
+  test("skips a code frame when there is no error line", () => {
+    const output = [
+      "a.test.ts:",
+      "1 | throw 1;",
+      "    ^",
+      "Thrown: 1",
+      "(fail) throws",
+    ].join("\n");
+
+    const [diagnostic] = parseGateOutput(gate("test"), output, CWD);
+    expect(diagnostic?.message).toBe("Thrown: 1");
+  });
+
+  test("parses vitest failures", () => {
+    const output = [
+      " FAIL  src/a.test.ts > math > adds",
+      "AssertionError: expected 2 to be 3",
+      " ❯ src/a.test.ts:5:19",
+      "",
+      " Test Files  1 failed (1)",
+    ].join("\n");
+
+    expect(parseGateOutput(gate("test", "vitest"), output, CWD)).toEqual([
+      {
+        file: "src/a.test.ts",
+        line: 5,
+        column: 19,
+        rule: "math > adds",
+        message: "AssertionError: expected 2 to be 3",
+        severity: "error",
+      },
+    ]);
+  });
+});
+
+describe("parseGateOutput", () => {
+  test("returns nothing for output no parser understands", () => {
+    expect(parseGateOutput(gate("custom"), "something broke", CWD)).toEqual([]);
+  });
+
+  test("is off with parser none", () => {
+    const output = "src/a.ts(1,1): error TS1005: ';' expected.";
+    expect(
+      parseGateOutput({ ...gate("typecheck"), parser: "none" }, output, CWD)
+    ).toEqual([]);
+  });
+});
+
+describe("renderDiagnostics", () => {
+  const diagnostics: Diagnostic[] = [
+    { file: "b.ts", line: 1, message: "warn", severity: "warning" },
+    { file: "a.ts", line: 2, message: "second", severity: "error" },
+    { file: "a.ts", line: 1, message: "first", severity: "error" },
+    { file: "a.ts", line: 1, message: "first", severity: "error" },
+  ];
+
+  test("groups by file, errors first, without duplicates", () => {
+    expect(renderDiagnostics(diagnostics, 1000)).toBe(
+      [
+        "a.ts",
+        "  1:0  error  first",
+        "  2:0  error  second",
+        "b.ts",
+        "  1:0  warning  warn",
+        "",
+        "2 errors, 1 warning in 2 files",
+      ].join("\n")
+    );
+  });
+
+  test("counts what doesn't fit", () => {
+    expect(renderDiagnostics(diagnostics, 30)).toContain(
+      "... and 2 more problems not shown"
+    );
+  });
+});
+
+describe("smartTruncate", () => {
+  test("keeps the head and tail", () => {
+    const output = `${"a".repeat(50)}${"b".repeat(50)}`;
+    const truncated = smartTruncate(output, 20);
+    expect(truncated.startsWith("a".repeat(12))).toBe(true);
+    expect(truncated.endsWith("b".repeat(8))).toBe(true);
+    expect(truncated).toContain("(80 characters omitted)");
+  });
+
+  test("leaves short output alone", () => {
+    expect(smartTruncate("short", 20)).toBe("short");
+  });
+});
@@ -0,0 +1,540 @@
+/**
+ * GATE OUTPUT PARSERS
+ * ====================
+ * Turns raw quality gate output into structured diagnostics, and renders
+ * them as a compact summary for the Stop hook's block reason.
+ *
+ * Dumping the first N characters of raw output often cuts off the errors
+ * that matter (banners, progress bars and passing tests come first). Parsed
+ * diagnostics are deduplicated, grouped by file, errors first, and rendered
+ * until the size budget runs out. Output no parser understands falls back
+ * to keeping its head and tail.
+ *
+ * BUILT-IN PARSERS:
+ * - tsc: `file(line,col): error TS1234: ...` and the `--pretty` form
+ * - eslint: stylish (default) and `--format json` output
+ * - biome: `file:line:col rule ━━━` diagnostics
+ * - knip: `Unused files (N)` style sections
+ * - test: bun test, jest and vitest failures
+ *
+ * A gate can name its parser with `"parser"` in the config; otherwise one is
+ * picked from the gate's command and name, then by trying each in turn.
+ * Add your own with `registerParser`.
+ */
+
+import { isAbsolute, relative } from "path";
+import type { QualityGate } from "./config";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface Diagnostic {
+  file?: string;
+  line?: number;
+  column?: number;
+  /** Rule or error code, e.g. "TS2322" or "no-unused-vars" */
+  rule?: string;
+  message: string;
+  severity: "error" | "warning";
+}
+
+export interface OutputParser {
+  name: string;
+  /** Words in a gate's command, args or name that suggest this parser */
+  hints: string[];
+  parse(output: string): Diagnostic[];
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+const ANSI_PATTERN = /\x1b\[[0-9;]*[A-Za-z]/g;
+
+function stripAnsi(text: string): string {
+  return text.replace(ANSI_PATTERN, "");
+}
+
+function lines(output: string): string[] {
+  return stripAnsi(output).split(/\r?\n/);
+}
+
+/**
+ * Match a stack frame or pointer line like "at fn (src/a.ts:12:5)" or
+ * "❯ src/a.ts:12:5", ignoring frames inside node_modules.
+ */
+function parseLocation(
+  line: string
+): { file: string; line: number; column: number } | null {
+  const match = line.match(
+    /(?:\bat\b.*?|❯)\s\(?([^\s()]+?):(\d+):(\d+)\)?\s*$/
+  );
+  if (!match || match[1]!.includes("node_modules")) return null;
+  return {
+    file: match[1]!.replace(/^file:\/\//, ""),
+    line: Number(match[2]),
+    column: Number(match[3]),
+  };
+}
+
+// =============================================================================
+// PARSERS
+// =============================================================================
+
+const tscParser: OutputParser = {
+  name: "tsc",
+  hints: ["tsc", "typecheck", "vue-tsc"],
+  parse(output) {
+    const diagnostics: Diagnostic[] = [];
+    for (const line of lines(output)) {
+      const match =
+        line.match(/^(.+?)\((\d+),(\d+)\): (error|warning) (TS\d+): (.*)$/) ??
+        line.match(/^(.+?):(\d+):(\d+) - (error|warning) (TS\d+): (.*)$/);
+      if (!match) continue;
+      diagnostics.push({
+        file: match[1],
+        line: Number(match[2]),
+        column: Number(match[3]),
+        severity: match[4] as Diagnostic["severity"],
+        rule: match[5],
+        message: match[6]!,
+      });
+    }
+    return diagnostics;
+  },
+};
+
+const eslintParser: OutputParser = {
+  name: "eslint",
+  hints: ["eslint", "lint"],
+  parse(output) {
+    const text = stripAnsi(output).trim();
+
+    // --format json
+    if (text.startsWith("[")) {
+      try {
+        const results = JSON.parse(text) as {
+          filePath: string;
+          messages: {
+            line?: number;
+            column?: number;
+            ruleId?: string | null;
+            message: string;
+            severity: number;
+          }[];
+        }[];
+        return results.flatMap((result) =>
+          result.messages.map((m) => ({
+            file: result.filePath,
+            line: m.line,
+            column: m.column,
+            rule: m.ruleId ?? undefined,
+            message: m.message,
+            severity: m.severity === 2 ? "error" : "warning",
+          }))
+        );
+      } catch {
+        // Not JSON after all; try stylish
+      }
+    }
+
+    // stylish: a file path line, then indented "line:col  severity  message  rule"
+    const diagnostics: Diagnostic[] = [];
+    let file: string | undefined;
+    for (const line of lines(output)) {
+      const match = line.match(
+        /^\s+(\d+):(\d+)\s+(error|warning)\s+(.+?)(?:\s{2,}(\S+))?\s*$/
+      );
+      if (match) {
+        diagnostics.push({
+          file,
+          line: Number(match[1]),
+          column: Number(match[2]),
+          severity: match[3] as Diagnostic["severity"],
+          message: match[4]!,
+          rule: match[5],
+        });
+      } else if (/^\S/.test(line) && !/^[✖×]/.test(line)) {
+        file = line.trim();
+      }
+    }
+    return diagnostics;
+  },
+};
+
+const biomeParser: OutputParser = {
+  name: "biome",
+  hints: ["biome"],
+  parse(output) {
+    const diagnostics: Diagnostic[] = [];
+    let current: Diagnostic | null = null;
+
+    for (const line of lines(output)) {
+      const header = line.match(
+        /^(\S+?)(?::(\d+):(\d+))? ([a-z][\w/]*)\b.*━+\s*$/
+      );
+      if (header) {
+        current = {
+          file: header[1],
+          line: header[2] ? Number(header[2]) : undefined,
+          column: header[3] ? Number(header[3]) : undefined,
+          rule: header[4],
+          message: "",
+          severity: "error",
+        };
+        continue;
+      }
+
+      // The first "× message" / "! message" line after a header
+      const message = line.match(/^\s+([×!ℹi]) (.+)$/);
+      if (current && message) {
+        current.message = message[2]!;
+        current.severity = message[1] === "×" ? "error" : "warning";
+        diagnostics.push(current);
+        current = null;
+      }
+    }
+    return diagnostics;
+  },
+};
+
+const knipParser: OutputParser = {
+  name: "knip",
+  hints: ["knip"],
+  parse(output) {
+    const diagnostics: Diagnostic[] = [];
+    let category: string | null = null;
+
+    for (const line of lines(output)) {
+      const section = line.match(
+        /^(Unused|Unlisted|Unresolved|Duplicate|Configuration)\b(.*?) \(\d+\)$/
+      );
+      if (section) {
+        category = `${section[1]}${section[2]}`;
+        continue;
+      }
+      if (!category || !line.trim()) continue;
+
+      const words = line.trim().split(/\s+/);
+      const location = words
+        .map((w) => w.match(/^(.+?):(\d+):(\d+)$/))
+        .find(Boolean);
+      const rule = category.toLowerCase().replace(/\s+/g, "-");
+
+      if (location) {
+        diagnostics.push({
+          file: location[1],
+          line: Number(location[2]),
+          column: Number(location[3]),
+          rule,
+          message: `${category}: ${words[0]}`,
+          severity: "error",
+        });
+      } else if (words.length === 1) {
+        // "Unused files" lists bare paths
+        diagnostics.push({
+          file: words[0],
+          rule,
+          message: category,
+          severity: "error",
+        });
+      } else {
+        diagnostics.push({
+          rule,
+          message: `${category}: ${words[0]}`,
+          severity: "error",
+        });
+      }
+    }
+    return diagnostics;
+  },
+};
+
+/**
+ * Collect a failure's message and location from the lines of its block.
+ */
+function failureFromBlock(
+  name: string,
+  block: string[],
+  fallbackFile?: string
+): Diagnostic {
+  const candidates = block
+    .map((l) => l.trim())
+    .filter(
+      (l) =>
+        l &&
+        !l.startsWith("at ") &&
+        !l.startsWith("❯") &&
+        // bun prints a code frame ("4 |   expect(...)" and a caret line)
+        // before the error
+        !/^\d+ \|/.test(l) &&
+        !/^[\^~\s]+$/.test(l)
+    );
+  const message =
+    candidates.find((l) => l.startsWith("error:")) ?? candidates[0] ?? "failed";
+  const location = block.map(parseLocation).find(Boolean);
+  return {
+    file: location?.file ?? fallbackFile,
+    line: location?.line,
+    column: location?.column,
+    rule: name,
+    message: message.replace(/^error:\s*/, ""),
+    severity: "error",
+  };
+}
+
+const testParser: OutputParser = {
+  name: "test",
+  hints: ["test", "jest", "vitest"],
+  parse(output) {
+    const all = lines(output);
+    const diagnostics: Diagnostic[] = [];
+
+    // bun test: error details come *before* "(fail) name"
+    let file: string | undefined;
+    let block: string[] = [];
+    for (const line of all) {
+      const header = line.match(/^(\S.*\.(?:test|spec)\.[cm]?[jt]sx?):$/);
+      if (header) {
+        file = header[1];
+        block = [];
+        continue;
+      }
+      const result = line.match(
+        /^\((pass|fail|skip|todo)\) (.+?)(?: \[[\d.]+m?s\])?$/
+      );
+      if (result) {
+        if (result[1] === "fail") {
+          diagnostics.push(failureFromBlock(result[2]!, block, file));
+        }
+        block = [];
+        continue;
+      }
+      block.push(line);
+    }
+
+    // jest: "● Suite › name" then message, then stack
+    // vitest: "FAIL  file > suite > name" then message, then "❯ file:line:col"
+    let current: { name: string; file?: string; block: string[] } | null = null;
+    const flush = () => {
+      if (current) {
+        diagnostics.push(
+          failureFromBlock(current.name, current.block, current.file)
+        );
+      }
+      current = null;
+    };
+
+    for (const line of all) {
+      const jest = line.match(/^\s*● (.+)$/);
+      const vitest = line.match(/^\s*FAIL\s+(\S+) > (.+)$/);
+      if (jest) {
+        flush();
+        current = { name: jest[1]!.trim(), block: [] };
+      } else if (vitest) {
+        flush();
+        current = { name: vitest[2]!.trim(), file: vitest[1], block: [] };
+      } else if (current && /^\s*(PASS|FAIL|Test Files|Tests:|⎯)/.test(line)) {
+        flush();
+      } else if (current) {
+        (current as { block: string[] }).block.push(line);
+      }
+    }
+    flush();
+
+    return diagnostics;
+  },
+};
+
+const PARSERS: OutputParser[] = [
+  tscParser,
+  eslintParser,
+  biomeParser,
+  knipParser,
+  testParser,
+];
+
+/**
+ * Names accepted in a gate's "parser" config ("none" disables parsing).
+ */
+export function parserNames(): string[] {
+  return [...PARSERS.map((p) => p.name), "none"];
+}
+
+/**
+ * Add (or replace) an output parser.
+ */
+export function registerParser(parser: OutputParser): void {
+  const index = PARSERS.findIndex((p) => p.name === parser.name);
+  if (index === -1) {
+    PARSERS.push(parser);
+  } else {
+    PARSERS[index] = parser;
+  }
+}
+
+// =============================================================================
+// PARSING
+// =============================================================================
+
+/**
+ * Parse a gate's output into diagnostics.
+ *
+ * Uses the gate's configured parser if it names one. Otherwise parsers
+ * hinted at by the gate's command, args and name are tried first, then the
+ * rest; the first to find anything wins.
+ *
+ * @param gate - The gate that produced the output
+ * @param output - Raw combined stdout/stderr
+ * @param cwd - Absolute paths under this directory are made relative to it
+ */
+export function parseGateOutput(
+  gate: Pick<QualityGate, "name" | "command" | "args" | "parser">,
+  output: string,
+  cwd: string
+): Diagnostic[] {
+  if (gate.parser === "none") return [];
+
+  let candidates: OutputParser[];
+  if (gate.parser) {
+    candidates = PARSERS.filter((p) => p.name === gate.parser);
+  } else {
+    const words = [gate.name, gate.command, ...gate.args]
+      .join(" ")
+      .toLowerCase();
+    const hinted = PARSERS.filter((p) =>
+      p.hints.some((h) => words.includes(h))
+    );
+    candidates = [...hinted, ...PARSERS.filter((p) => !hinted.includes(p))];
+  }
+
+  for (const parser of candidates) {
+    const diagnostics = parser.parse(output);
+    if (diagnostics.length > 0) {
+      return diagnostics.map((d) => ({
+        ...d,
+        file:
+          d.file && isAbsolute(d.file) && d.file.startsWith(cwd)
+            ? relative(cwd, d.file)
+            : d.file,
+      }));
+    }
+  }
+  return [];
+}
+
+// =============================================================================
+// RENDERING
+// =============================================================================
+
+/**
+ * Keep the head and tail of output that is too long, since tools tend to
+ * print the first error at the top and a summary at the bottom.
+ */
+export function smartTruncate(output: string, maxLength: number): string {
+  if (output.length <= maxLength) return output;
+
+  const headLength = Math.floor(maxLength * 0.6);
+  const tailLength = maxLength - headLength;
+  const omitted = output.length - headLength - tailLength;
+
+  return `${output.slice(0, headLength)}\n... (${omitted} characters omitted) ...\n${output.slice(-tailLength)}`;
+}
+
+function formatDiagnostic(d: Diagnostic): string {
+  const position = d.line !== undefined ? `${d.line}:${d.column ?? 0}` : "-";
+  const rule = d.rule ? `  ${d.rule}` : "";
+  return `  ${position}  ${d.severity}  ${d.message}${rule}`;
+}
+
+/**
+ * Render diagnostics grouped by file within a size budget.
+ *
+ * Duplicates are dropped, errors come before warnings, and files with the
+ * most errors come first. When the budget runs out, the rest are counted
+ * instead of listed.
+ */
+export function renderDiagnostics(
+  diagnostics: Diagnostic[],
+  maxLength: number
+): string {
+  // Deduplicate
+  const seen = new Set<string>();
+  const unique = diagnostics.filter((d) => {
+    const key = [d.file, d.line, d.column, d.rule, d.message].join("|");
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  // Group by file
+  const byFile = new Map<string, Diagnostic[]>();
+  for (const d of unique) {
+    const file = d.file ?? "(no file)";
+    byFile.set(file, [...(byFile.get(file) ?? []), d]);
+  }
+
+  const errorCount = (ds: Diagnostic[]) =>
+    ds.filter((d) => d.severity === "error").length;
+
+  const groups = [...byFile.entries()].sort(
+    ([, a], [, b]) => errorCount(b) - errorCount(a)
+  );
+
+  const out: string[] = [];
+  let length = 0;
+  let shown = 0;
+
+  for (const [file, ds] of groups) {
+    ds.sort(
+      (a, b) =>
+        Number(a.severity === "warning") - Number(b.severity === "warning") ||
+        (a.line ?? 0) - (b.line ?? 0)
+    );
+
+    const header = file;
+    if (length + header.length + 1 > maxLength) break;
+    out.push(header);
+    length += header.length + 1;
+
+    for (const d of ds) {
+      const line = formatDiagnostic(d);
+      if (length + line.length + 1 > maxLength) break;
+      out.push(line);
+      length += line.length + 1;
+      shown++;
+    }
+  }
+
+  const hidden = unique.length - shown;
+  if (hidden > 0) {
+    out.push(
+      `... and ${hidden} more problem${hidden === 1 ? "" : "s"} not shown`
+    );
+  }
+
+  const errors = errorCount(unique);
+  const warnings = unique.length - errors;
+  out.push(
+    `\n${errors} error${errors === 1 ? "" : "s"}, ${warnings} warning${warnings === 1 ? "" : "s"} in ${byFile.size} file${byFile.size === 1 ? "" : "s"}`
+  );
+
+  return out.join("\n");
+}
+
+/**
+ * Summarize a gate's output for a block reason: parsed diagnostics when a
+ * parser understands it, head-and-tail truncation otherwise.
+ */
+export function summarizeGateOutput(
+  gate: Pick<QualityGate, "name" | "command" | "args" | "parser">,
+  output: string,
+  cwd: string,
+  maxLength: number
+): string {
+  const diagnostics = parseGateOutput(gate, output, cwd);
+  return diagnostics.length > 0
+    ? renderDiagnostics(diagnostics, maxLength)
+    : smartTruncate(stripAnsi(output), maxLength);
+}
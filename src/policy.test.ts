@@ -0,0 +1,134 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { decideToolCall, loadPolicy, POLICY_FILE_NAME } from "./policy";
+
+let cwd: string;
+let userPolicyPath: string;
+
+beforeEach(async () => {
+  cwd = await mkdtemp(join(tmpdir(), "policy-test-"));
+  userPolicyPath = join(cwd, "user-policy.json");
+});
+
+afterEach(async () => {
+  await rm(cwd, { recursive: true, force: true });
+});
+
+async function load(project: unknown, user: unknown) {
+  await writeFile(join(cwd, POLICY_FILE_NAME), JSON.stringify(project));
+  await writeFile(userPolicyPath, JSON.stringify(user));
+  return loadPolicy(cwd, userPolicyPath);
+}
+
+function decide(
+  policy: Awaited<ReturnType<typeof loadPolicy>>,
+  tool: string,
+  input: Record<string, unknown>
+) {
+  return decideToolCall(policy, tool, input, cwd)?.decision ?? "none";
+}
+
+describe("rules", () => {
+  test("a project allow can't lift a user deny", async () => {
+    const policy = await load(
+      { rules: [{ decision: "allow", tool: "Bash", argv: ["curl"] }] },
+      { rules: [{ decision: "deny", tool: "Bash", argv: ["curl"] }] }
+    );
+    expect(decide(policy, "Bash", { command: "curl example.com" })).toBe(
+      "deny"
+    );
+  });
+
+  test("a project can tighten a user allow", async () => {
+    const policy = await load(
+      { rules: [{ decision: "ask", tool: "WebFetch" }] },
+      { rules: [{ decision: "allow", tool: "WebFetch" }] }
+    );
+    expect(decide(policy, "WebFetch", { url: "https://example.com" })).toBe(
+      "ask"
+    );
+  });
+
+  test("each file uses its own precedence", async () => {
+    const policy = await load(
+      {
+        precedence: "first-match",
+        rules: [
+          { decision: "allow", tool: "*" },
+          { decision: "ask", tool: "Read", paths: "docs/**" },
+        ],
+      },
+      {
+        rules: [
+          { decision: "ask", tool: "*" },
+          { decision: "allow", tool: "Read", paths: "docs/**" },
+        ],
+      }
+    );
+    // Project: first match allows; user: the more specific rule allows
+    expect(decide(policy, "Read", { file_path: "docs/a.md" })).toBe("allow");
+    // User: only the catch-all ask matches
+    expect(decide(policy, "Read", { file_path: "src/a.ts" })).toBe("ask");
+  });
+});
+
+describe("built-in checks", () => {
+  const forcePush = { command: "git push --force" };
+
+  test("a project can't turn off a check the user set", async () => {
+    const policy = await load(
+      { bashChecks: { "git-push-force": "off" } },
+      { bashChecks: { "git-push-force": "deny" } }
+    );
+    expect(policy.bashChecks["git-push-force"]).toBe("deny");
+    expect(decide(policy, "Bash", forcePush)).toBe("deny");
+  });
+
+  test("a project can make a check stricter", async () => {
+    const policy = await load(
+      { bashChecks: { "git-push-force": "deny" } },
+      { bashChecks: { "git-push-force": "allow" } }
+    );
+    expect(decide(policy, "Bash", forcePush)).toBe("deny");
+  });
+
+  test("project settings apply where the user set nothing", async () => {
+    const policy = await load({ bashChecks: { "git-push-force": "off" } }, {});
+    expect(decide(policy, "Bash", forcePush)).toBe("none");
+  });
+
+  test("a project can't turn off a sandbox the user turned on", async () => {
+    const policy = await load(
+      { writeSandbox: false },
+      { writeSandbox: { protectedPaths: ["schema.sql"] } }
+    );
+    expect(policy.writeSandbox.enabled).toBe(true);
+    expect(
+      decide(policy, "Write", { file_path: "/etc/hosts", content: "" })
+    ).toBe("deny");
+  });
+
+  test("a project can turn off the default sandbox", async () => {
+    const policy = await load({ writeSandbox: false }, {});
+    expect(policy.writeSandbox.enabled).toBe(false);
+  });
+
+  test("a project can't loosen the user's secret settings", async () => {
+    const policy = await load(
+      {
+        secrets: {
+          onWrite: "off",
+          onOutput: "off",
+          rules: { "github-token": false, "slack-token": false },
+        },
+      },
+      { secrets: { onWrite: "ask", rules: { "github-token": true } } }
+    );
+    expect(policy.secrets.onWrite).toBe("ask");
+    // The user didn't set onOutput, so the project's setting applies
+    expect(policy.secrets.onOutput).toBe("off");
+    expect(policy.secrets.disabled).toEqual(["slack-token"]);
+  });
+});
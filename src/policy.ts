@@ -0,0 +1,1156 @@
+/**
+ * TOOL POLICY
+ * ============
+ * Declarative allow/deny/ask rules for the PreToolUse hook.
+ *
+ * Rules are read from two files, project rules first:
+ *
+ * 1. `.tool-policy.json` in the session's working directory
+ * 2. `~/.claude/tool-policy.json` for rules that apply to every project
+ *
+ * EXAMPLE (.tool-policy.json):
+ * ```json
+ * {
+ *   "rules": [
+ *     { "decision": "allow", "tool": "Read", "paths": "docs/**" },
+ *     { "decision": "deny", "tool": ["Write", "Edit"], "paths": "**\/*.lock",
+ *       "reason": "Lockfiles are updated by the package manager" },
+ *     { "decision": "ask", "tool": "Bash", "argv": ["git", "push"] },
+ *     { "decision": "deny", "tool": "Bash", "command": "\\bsudo\\b" },
+ *     { "decision": "deny", "tool": "mcp__github__delete_*" }
+ *   ],
+ *   "tests": [
+ *     { "tool": "Bash", "input": { "command": "git push origin main" }, "expect": "ask" }
+ *   ]
+ * }
+ * ```
+ *
+ * MATCHING (every condition a rule sets must match):
+ * - tool: tool name or glob (`mcp__github__*`); one or an array
+ * - paths: globs for the `file_path`, `notebook_path` or `path` input, matched
+ *   relative to cwd (or absolute, for patterns starting with `/` or `~/`)
+ * - command: regex tested against a Bash command
+ * - argv: words one simple command in a Bash command must start with; each
+ *   is a glob, so `["git", "push", "*"]` needs at least one argument
+ *
+ * PRECEDENCE:
+ * - "most-specific" (default): the matching rule with the most conditions
+ *   wins, an exact tool name counting for more than a glob; ties go to the
+ *   earlier rule.
+ * - "first-match": the first matching rule wins.
+ * Each file picks its winning rule with its own `precedence`, and the
+ * stricter of the project's and the user's decisions wins, so a project
+ * can add restrictions but not lift the user's.
+ *
+ * PROJECT VS USER SETTINGS:
+ * The same goes for the built-in checks: for `bashChecks`, `secrets.onWrite`
+ * and `secrets.onOutput` the stricter setting wins, a project can't turn off
+ * a write sandbox or secret rule the user turned on, and otherwise project
+ * settings win.
+ *
+ * BASH CHECKS:
+ * Bash commands also go through the built-in dangerous command checks in
+ * src/danger.ts. When both a rule and a check apply, the stricter decision
+ * wins (deny, then ask, then allow). Override a check's decision, or turn it
+ * off, with `"bashChecks": { "<id>": "allow" | "ask" | "deny" | "off" }`.
+ *
+ * WRITE SANDBOX:
+ * Write, Edit, MultiEdit and NotebookEdit calls are checked against the
+ * built-in write boundary in src/sandbox.ts, which denies writes outside
+ * cwd, through escaping symlinks, or to protected paths. Configure it with
+ * `"writeSandbox": { "protectedPaths": [...], "allowedPaths": [...] }`, or
+ * turn it off with `"writeSandbox": false`.
+ *
+ * INPUT TRANSFORMERS:
+ * Tool inputs are also rewritten by the transformers in src/transform.ts.
+ * Turn one off with `"transforms": { "<id>": false }`, and give Bash calls
+ * without a timeout one with `"defaultBashTimeout": <ms>`.
+ *
+ * SECRETS:
+ * Content written by file-editing tools is scanned for credentials (see
+ * src/secrets.ts) and denied by default. Configure it with
+ * `"secrets": { "onWrite", "onOutput", "rules", "patterns", "allowlist" }`.
+ *
+ * QUOTAS:
+ * `"quotas": [{ "tool": "WebFetch", "max": 50, "window": 60000 }]` limits
+ * how often tools are called per session (see src/quota.ts).
+ *
+ * No matching rule or check means no decision: Claude Code's normal
+ * permission flow applies. Run the `tests` with
+ * `bun bin/tool-policy.ts test`.
+ */
+
+import { homedir } from "os";
+import { isAbsolute, join, relative, resolve } from "path";
+import {
+  bashCheckIds,
+  findDangerousCommands,
+  type BashCheckSetting,
+} from "./danger";
+import {
+  checkWrite,
+  DEFAULT_WRITE_SANDBOX,
+  type WriteSandbox,
+} from "./sandbox";
+import type { ToolQuota } from "./quota";
+import {
+  DEFAULT_SECRET_SETTINGS,
+  describeFindings,
+  scanToolWrite,
+  secretRuleIds,
+  type OutputSecretAction,
+  type SecretRule,
+  type SecretSettings,
+} from "./secrets";
+import { parseShellCommand } from "./shell";
+import {
+  DEFAULT_TRANSFORM_SETTINGS,
+  transformerIds,
+  type TransformSettings,
+} from "./transform";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type PolicyDecision = "allow" | "deny" | "ask";
+
+export type PolicyPrecedence = "most-specific" | "first-match";
+
+export interface PolicyRule {
+  decision: PolicyDecision;
+  tool?: string[];
+  paths?: string[];
+  command?: string;
+  argv?: string[];
+  reason?: string;
+  /** File the rule came from and its index, for messages */
+  source: string;
+}
+
+export interface PolicyTest {
+  tool: string;
+  input: Record<string, unknown>;
+  /** Expected decision; "none" means no rule should match */
+  expect: PolicyDecision | "none";
+  source: string;
+}
+
+/**
+ * The rules from one policy file.
+ */
+export interface PolicyRuleSet {
+  rules: PolicyRule[];
+  precedence: PolicyPrecedence;
+}
+
+export interface ToolPolicy {
+  /** Project rules, then user rules; each set is evaluated on its own */
+  ruleSets: PolicyRuleSet[];
+  /** Decision overrides for the built-in Bash checks (see src/danger.ts) */
+  bashChecks: Record<string, BashCheckSetting>;
+  /** Write boundary for file-editing tools (see src/sandbox.ts) */
+  writeSandbox: WriteSandbox;
+  /** Settings for the input transformers (see src/transform.ts) */
+  transforms: TransformSettings;
+  /** Secret scanning settings (see src/secrets.ts) */
+  secrets: SecretSettings;
+  /** Per-session tool call limits (see src/quota.ts) */
+  quotas: ToolQuota[];
+  tests: PolicyTest[];
+  /** Files the policy was loaded from */
+  sources: string[];
+}
+
+export interface PolicyMatch {
+  decision: PolicyDecision;
+  reason: string;
+  /** The rule or built-in check that decided, for logs */
+  source: string;
+  /** The deciding rule, if a policy rule decided */
+  rule?: PolicyRule;
+}
+
+export interface PolicyTestResult {
+  test: PolicyTest;
+  actual: PolicyDecision | "none";
+  passed: boolean;
+  match: PolicyMatch | null;
+}
+
+/**
+ * Thrown when a policy file exists but is malformed.
+ * The message lists every problem found, one per line.
+ */
+export class ToolPolicyError extends Error {
+  constructor(
+    public readonly source: string,
+    public readonly problems: string[]
+  ) {
+    super(
+      `Invalid tool policy in ${source}:\n${problems
+        .map((p) => `  - ${p}`)
+        .join("\n")}`
+    );
+    this.name = "ToolPolicyError";
+  }
+}
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+/**
+ * Name of the project policy file, looked up in the session cwd.
+ */
+export const POLICY_FILE_NAME = ".tool-policy.json";
+
+/**
+ * Path of the user-wide policy file.
+ */
+export const USER_POLICY_PATH = join(homedir(), ".claude", "tool-policy.json");
+
+const DECISIONS: PolicyDecision[] = ["allow", "deny", "ask"];
+
+const PRECEDENCES: PolicyPrecedence[] = ["most-specific", "first-match"];
+
+const OUTPUT_SECRET_ACTIONS: OutputSecretAction[] = ["redact", "warn", "off"];
+
+/**
+ * Decisions from least to most restrictive.
+ */
+const DECISION_ORDER: PolicyDecision[] = ["allow", "ask", "deny"];
+
+/**
+ * Check settings from least to most restrictive: "allow" approves outright,
+ * "off" leaves the call to Claude Code's permission flow.
+ */
+const CHECK_SETTING_ORDER: BashCheckSetting[] = ["allow", "off", "ask", "deny"];
+
+/**
+ * Output secret actions from least to most restrictive.
+ */
+const OUTPUT_SECRET_ORDER: OutputSecretAction[] = ["off", "warn", "redact"];
+
+/**
+ * Tool input fields that hold the path a tool reads or writes.
+ */
+const PATH_FIELDS = ["file_path", "notebook_path", "path"];
+
+// =============================================================================
+// VALIDATION
+// =============================================================================
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isStringOrStringArray(value: unknown): value is string | string[] {
+  return (
+    typeof value === "string" ||
+    (Array.isArray(value) && value.every((v) => typeof v === "string"))
+  );
+}
+
+function toArray(value: string | string[] | undefined): string[] | undefined {
+  return typeof value === "string" ? [value] : value;
+}
+
+/**
+ * Validate a single rule, pushing any problems onto `problems`.
+ */
+function validateRule(
+  raw: unknown,
+  where: string,
+  problems: string[]
+): PolicyRule | null {
+  if (!isPlainObject(raw)) {
+    problems.push(`${where} must be an object`);
+    return null;
+  }
+
+  const startCount = problems.length;
+  const { decision, tool, paths, command, argv, reason } = raw;
+
+  if (!DECISIONS.includes(decision as PolicyDecision)) {
+    problems.push(`${where}.decision must be one of: ${DECISIONS.join(", ")}`);
+  }
+  if (tool !== undefined && !isStringOrStringArray(tool)) {
+    problems.push(`${where}.tool must be a tool name or an array of them`);
+  }
+  if (paths !== undefined && !isStringOrStringArray(paths)) {
+    problems.push(`${where}.paths must be a glob or an array of globs`);
+  }
+  if (command !== undefined) {
+    if (typeof command !== "string") {
+      problems.push(`${where}.command must be a regular expression string`);
+    } else {
+      try {
+        new RegExp(command);
+      } catch (error) {
+        problems.push(
+          `${where}.command is not a valid regex: ${(error as Error).message}`
+        );
+      }
+    }
+  }
+  if (
+    argv !== undefined &&
+    (!Array.isArray(argv) ||
+      argv.length === 0 ||
+      !argv.every((a) => typeof a === "string"))
+  ) {
+    problems.push(`${where}.argv must be a non-empty array of strings`);
+  }
+  if (reason !== undefined && typeof reason !== "string") {
+    problems.push(`${where}.reason must be a string`);
+  }
+  if (
+    tool === undefined &&
+    paths === undefined &&
+    command === undefined &&
+    argv === undefined
+  ) {
+    problems.push(
+      `${where} must set at least one of tool, paths, command, argv`
+    );
+  }
+
+  if (problems.length > startCount) {
+    return null;
+  }
+
+  return {
+    decision: decision as PolicyDecision,
+    tool: toArray(tool as string | string[] | undefined),
+    paths: toArray(paths as string | string[] | undefined),
+    command: command as string | undefined,
+    argv: argv as string[] | undefined,
+    reason: reason as string | undefined,
+    source: where,
+  };
+}
+
+/**
+ * Validate a single test case, pushing any problems onto `problems`.
+ */
+function validateTest(
+  raw: unknown,
+  where: string,
+  problems: string[]
+): PolicyTest | null {
+  if (!isPlainObject(raw)) {
+    problems.push(`${where} must be an object`);
+    return null;
+  }
+
+  const startCount = problems.length;
+  const { tool, input, expect } = raw;
+
+  if (typeof tool !== "string" || !tool) {
+    problems.push(`${where}.tool must be a tool name`);
+  }
+  if (!isPlainObject(input)) {
+    problems.push(`${where}.input must be an object`);
+  }
+  if (expect !== "none" && !DECISIONS.includes(expect as PolicyDecision)) {
+    problems.push(
+      `${where}.expect must be one of: ${[...DECISIONS, "none"].join(", ")}`
+    );
+  }
+
+  if (problems.length > startCount) {
+    return null;
+  }
+
+  return {
+    tool: tool as string,
+    input: input as Record<string, unknown>,
+    expect: expect as PolicyDecision | "none",
+    source: where,
+  };
+}
+
+/**
+ * Validate a single quota, pushing any problems onto `problems`.
+ */
+function validateQuota(
+  raw: unknown,
+  where: string,
+  problems: string[]
+): ToolQuota | null {
+  if (!isPlainObject(raw)) {
+    problems.push(`${where} must be an object`);
+    return null;
+  }
+
+  const startCount = problems.length;
+  const { tool, max, window, decision } = raw;
+  const isPositiveInteger = (value: unknown) =>
+    typeof value === "number" && Number.isInteger(value) && value > 0;
+
+  for (const key of Object.keys(raw)) {
+    if (!["tool", "max", "window", "decision"].includes(key)) {
+      problems.push(`${where} has unknown key "${key}"`);
+    }
+  }
+  if (!isStringOrStringArray(tool)) {
+    problems.push(`${where}.tool must be a tool name or an array of them`);
+  }
+  if (!isPositiveInteger(max)) {
+    problems.push(`${where}.max must be a positive integer`);
+  }
+  if (window !== undefined && !isPositiveInteger(window)) {
+    problems.push(`${where}.window must be a positive integer (ms)`);
+  }
+  if (decision !== undefined && decision !== "deny" && decision !== "ask") {
+    problems.push(`${where}.decision must be "deny" or "ask"`);
+  }
+
+  if (problems.length > startCount) {
+    return null;
+  }
+
+  return {
+    tool: toArray(tool as string | string[])!,
+    max: max as number,
+    window: window as number | undefined,
+    decision: (decision as ToolQuota["decision"] | undefined) ?? "deny",
+    source: where,
+  };
+}
+
+/**
+ * Secret settings as written in one policy file, before merging.
+ */
+interface SecretSettingsFile {
+  onWrite?: SecretSettings["onWrite"];
+  onOutput?: OutputSecretAction;
+  rules: Record<string, boolean>;
+  patterns: SecretRule[];
+  allowlist: string[];
+}
+
+/**
+ * Validate the `secrets` section, pushing any problems onto `problems`.
+ */
+function validateSecrets(
+  raw: unknown,
+  problems: string[]
+): SecretSettingsFile | undefined {
+  if (!isPlainObject(raw)) {
+    problems.push("secrets must be an object");
+    return undefined;
+  }
+
+  const result: SecretSettingsFile = { rules: {}, patterns: [], allowlist: [] };
+  const known = ["onWrite", "onOutput", "rules", "patterns", "allowlist"];
+  for (const key of Object.keys(raw)) {
+    if (!known.includes(key)) {
+      problems.push(`secrets has unknown key "${key}"`);
+    }
+  }
+
+  const { onWrite, onOutput, rules, patterns, allowlist } = raw;
+  const writeSettings = [...DECISIONS, "off"];
+  if (onWrite !== undefined) {
+    if (!writeSettings.includes(onWrite as string)) {
+      problems.push(
+        `secrets.onWrite must be one of: ${writeSettings.join(", ")}`
+      );
+    } else {
+      result.onWrite = onWrite as SecretSettings["onWrite"];
+    }
+  }
+  if (onOutput !== undefined) {
+    if (!OUTPUT_SECRET_ACTIONS.includes(onOutput as OutputSecretAction)) {
+      problems.push(
+        `secrets.onOutput must be one of: ${OUTPUT_SECRET_ACTIONS.join(", ")}`
+      );
+    } else {
+      result.onOutput = onOutput as OutputSecretAction;
+    }
+  }
+
+  if (rules !== undefined) {
+    if (!isPlainObject(rules)) {
+      problems.push("secrets.rules must be an object");
+    } else {
+      const ids = secretRuleIds();
+      for (const [id, enabled] of Object.entries(rules)) {
+        if (!ids.includes(id)) {
+          problems.push(
+            `secrets.rules has unknown rule "${id}" (known: ${ids.join(", ")})`
+          );
+        } else if (typeof enabled !== "boolean") {
+          problems.push(`secrets.rules.${id} must be true or false`);
+        } else {
+          result.rules[id] = enabled;
+        }
+      }
+    }
+  }
+
+  if (patterns !== undefined) {
+    if (!Array.isArray(patterns)) {
+      problems.push("secrets.patterns must be an array");
+    } else {
+      patterns.forEach((p, i) => {
+        const where = `secrets.patterns[${i}]`;
+        if (
+          !isPlainObject(p) ||
+          typeof p.id !== "string" ||
+          typeof p.pattern !== "string"
+        ) {
+          problems.push(`${where} must have a string id and pattern`);
+          return;
+        }
+        if (p.description !== undefined && typeof p.description !== "string") {
+          problems.push(`${where}.description must be a string`);
+          return;
+        }
+        try {
+          result.patterns.push({
+            id: p.id,
+            description: (p.description as string | undefined) ?? p.id,
+            pattern: new RegExp(p.pattern, "g"),
+          });
+        } catch (error) {
+          problems.push(
+            `${where}.pattern is not a valid regex: ${(error as Error).message}`
+          );
+        }
+      });
+    }
+  }
+
+  if (allowlist !== undefined) {
+    if (
+      !Array.isArray(allowlist) ||
+      !allowlist.every((f) => typeof f === "string")
+    ) {
+      problems.push("secrets.allowlist must be an array of fingerprints");
+    } else {
+      result.allowlist = allowlist;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Validate a raw policy file.
+ *
+ * @param raw - Parsed JSON
+ * @param source - Where it came from, used in error messages
+ * @throws ToolPolicyError listing every problem found
+ */
+export function validatePolicy(
+  raw: unknown,
+  source: string
+): {
+  rules: PolicyRule[];
+  tests: PolicyTest[];
+  precedence?: PolicyPrecedence;
+  bashChecks: Record<string, BashCheckSetting>;
+  writeSandbox?: Partial<WriteSandbox>;
+  transforms: Record<string, boolean>;
+  defaultBashTimeout?: number;
+  secrets?: SecretSettingsFile;
+  quotas: ToolQuota[];
+} {
+  if (!isPlainObject(raw)) {
+    throw new ToolPolicyError(source, ["policy must be an object"]);
+  }
+
+  const problems: string[] = [];
+  const knownKeys = new Set([
+    "rules",
+    "tests",
+    "precedence",
+    "bashChecks",
+    "writeSandbox",
+    "transforms",
+    "defaultBashTimeout",
+    "secrets",
+    "quotas",
+  ]);
+  for (const key of Object.keys(raw)) {
+    if (!knownKeys.has(key)) {
+      problems.push(`unknown key "${key}"`);
+    }
+  }
+
+  const rules: PolicyRule[] = [];
+  if (raw.rules !== undefined) {
+    if (!Array.isArray(raw.rules)) {
+      problems.push("rules must be an array");
+    } else {
+      raw.rules.forEach((r, i) => {
+        const rule = validateRule(r, `${source} rules[${i}]`, problems);
+        if (rule) rules.push(rule);
+      });
+    }
+  }
+
+  const tests: PolicyTest[] = [];
+  if (raw.tests !== undefined) {
+    if (!Array.isArray(raw.tests)) {
+      problems.push("tests must be an array");
+    } else {
+      raw.tests.forEach((t, i) => {
+        const test = validateTest(t, `${source} tests[${i}]`, problems);
+        if (test) tests.push(test);
+      });
+    }
+  }
+
+  let precedence: PolicyPrecedence | undefined;
+  if (raw.precedence !== undefined) {
+    if (!PRECEDENCES.includes(raw.precedence as PolicyPrecedence)) {
+      problems.push(`precedence must be one of: ${PRECEDENCES.join(", ")}`);
+    } else {
+      precedence = raw.precedence as PolicyPrecedence;
+    }
+  }
+
+  const bashChecks: Record<string, BashCheckSetting> = {};
+  if (raw.bashChecks !== undefined) {
+    if (!isPlainObject(raw.bashChecks)) {
+      problems.push("bashChecks must be an object");
+    } else {
+      const ids = bashCheckIds();
+      const settings = [...DECISIONS, "off"];
+      for (const [id, setting] of Object.entries(raw.bashChecks)) {
+        if (!ids.includes(id)) {
+          problems.push(
+            `bashChecks has unknown check "${id}" (known: ${ids.join(", ")})`
+          );
+        } else if (!settings.includes(setting as string)) {
+          problems.push(
+            `bashChecks.${id} must be one of: ${settings.join(", ")}`
+          );
+        } else {
+          bashChecks[id] = setting as BashCheckSetting;
+        }
+      }
+    }
+  }
+
+  let writeSandbox: Partial<WriteSandbox> | undefined;
+  if (raw.writeSandbox === false) {
+    writeSandbox = { enabled: false };
+  } else if (raw.writeSandbox !== undefined) {
+    if (!isPlainObject(raw.writeSandbox)) {
+      problems.push("writeSandbox must be an object or false");
+    } else {
+      writeSandbox = { enabled: true };
+      for (const [key, value] of Object.entries(raw.writeSandbox)) {
+        if (key !== "protectedPaths" && key !== "allowedPaths") {
+          problems.push(`writeSandbox has unknown key "${key}"`);
+        } else if (!isStringOrStringArray(value)) {
+          problems.push(
+            `writeSandbox.${key} must be a glob or an array of globs`
+          );
+        } else {
+          writeSandbox[key] = toArray(value);
+        }
+      }
+    }
+  }
+
+  const transforms: Record<string, boolean> = {};
+  if (raw.transforms !== undefined) {
+    if (!isPlainObject(raw.transforms)) {
+      problems.push("transforms must be an object");
+    } else {
+      const ids = transformerIds();
+      for (const [id, enabled] of Object.entries(raw.transforms)) {
+        if (!ids.includes(id)) {
+          problems.push(
+            `transforms has unknown transformer "${id}" (known: ${ids.join(
+              ", "
+            )})`
+          );
+        } else if (typeof enabled !== "boolean") {
+          problems.push(`transforms.${id} must be true or false`);
+        } else {
+          transforms[id] = enabled;
+        }
+      }
+    }
+  }
+
+  const { defaultBashTimeout } = raw;
+  if (
+    defaultBashTimeout !== undefined &&
+    (typeof defaultBashTimeout !== "number" ||
+      !Number.isInteger(defaultBashTimeout) ||
+      defaultBashTimeout <= 0)
+  ) {
+    problems.push("defaultBashTimeout must be a positive integer (ms)");
+  }
+
+  const quotas: ToolQuota[] = [];
+  if (raw.quotas !== undefined) {
+    if (!Array.isArray(raw.quotas)) {
+      problems.push("quotas must be an array");
+    } else {
+      raw.quotas.forEach((q, i) => {
+        const quota = validateQuota(q, `${source} quotas[${i}]`, problems);
+        if (quota) quotas.push(quota);
+      });
+    }
+  }
+
+  const secrets =
+    raw.secrets === undefined
+      ? undefined
+      : validateSecrets(raw.secrets, problems);
+
+  if (problems.length > 0) {
+    throw new ToolPolicyError(source, problems);
+  }
+  return {
+    rules,
+    tests,
+    precedence,
+    bashChecks,
+    writeSandbox,
+    transforms,
+    defaultBashTimeout: defaultBashTimeout as number | undefined,
+    secrets,
+    quotas,
+  };
+}
+
+// =============================================================================
+// LOADING
+// =============================================================================
+
+/**
+ * Read and validate one policy file, or return null if it doesn't exist.
+ */
+async function readPolicyFile(path: string, source: string) {
+  const file = Bun.file(path);
+  if (!(await file.exists())) {
+    return null;
+  }
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await file.text());
+  } catch (error) {
+    throw new ToolPolicyError(source, [
+      `invalid JSON: ${error instanceof Error ? error.message : error}`,
+    ]);
+  }
+  return validatePolicy(raw, source);
+}
+
+/**
+ * The stricter of a user and a project setting, or whichever is set.
+ *
+ * @param order - The settings from least to most restrictive
+ */
+function stricter<T>(
+  order: T[],
+  user: T | undefined,
+  project: T | undefined
+): T | undefined {
+  if (user === undefined || project === undefined) {
+    return project ?? user;
+  }
+  return order.indexOf(project) > order.indexOf(user) ? project : user;
+}
+
+/**
+ * Load the project and user policy files. Missing files contribute no
+ * rules, so with neither present every tool call is left alone.
+ *
+ * @param cwd - The project root (the session's working directory)
+ * @param userPolicyPath - Override the user policy location
+ * @throws ToolPolicyError if a policy file exists but is malformed
+ */
+export async function loadPolicy(
+  cwd: string,
+  userPolicyPath: string = USER_POLICY_PATH
+): Promise<ToolPolicy> {
+  const project = await readPolicyFile(
+    join(cwd, POLICY_FILE_NAME),
+    POLICY_FILE_NAME
+  );
+  const user = await readPolicyFile(userPolicyPath, userPolicyPath);
+
+  return {
+    ruleSets: [project, user]
+      .filter((p) => p !== null)
+      .map((p) => ({
+        rules: p.rules,
+        precedence: p.precedence ?? "most-specific",
+      })),
+    tests: [...(project?.tests ?? []), ...(user?.tests ?? [])],
+    bashChecks: Object.fromEntries(
+      bashCheckIds()
+        .map((id) => [
+          id,
+          stricter(
+            CHECK_SETTING_ORDER,
+            user?.bashChecks[id],
+            project?.bashChecks[id]
+          ),
+        ])
+        .filter(([, setting]) => setting !== undefined)
+    ),
+    // A project can turn the sandbox on, but not off if the user turned it
+    // on; globs from both apply
+    writeSandbox: {
+      enabled:
+        user?.writeSandbox?.enabled === true ||
+        (project?.writeSandbox?.enabled ??
+          user?.writeSandbox?.enabled ??
+          DEFAULT_WRITE_SANDBOX.enabled),
+      protectedPaths: [
+        ...(project?.writeSandbox?.protectedPaths ?? []),
+        ...(user?.writeSandbox?.protectedPaths ?? []),
+      ],
+      allowedPaths: [
+        ...(project?.writeSandbox?.allowedPaths ?? []),
+        ...(user?.writeSandbox?.allowedPaths ?? []),
+      ],
+    },
+    transforms: {
+      disabled: transformerIds().filter(
+        (id) =>
+          (project?.transforms[id] ??
+            user?.transforms[id] ??
+            !DEFAULT_TRANSFORM_SETTINGS.disabled.includes(id)) === false
+      ),
+      defaultBashTimeout:
+        project?.defaultBashTimeout ?? user?.defaultBashTimeout,
+    },
+    // The stricter action wins; patterns and allowlists from both apply
+    secrets: {
+      onWrite:
+        stricter(
+          CHECK_SETTING_ORDER,
+          user?.secrets?.onWrite,
+          project?.secrets?.onWrite
+        ) ?? DEFAULT_SECRET_SETTINGS.onWrite,
+      onOutput:
+        stricter(
+          OUTPUT_SECRET_ORDER,
+          user?.secrets?.onOutput,
+          project?.secrets?.onOutput
+        ) ?? DEFAULT_SECRET_SETTINGS.onOutput,
+      disabled: secretRuleIds().filter(
+        (id) =>
+          user?.secrets?.rules[id] !== true &&
+          (project?.secrets?.rules[id] ?? user?.secrets?.rules[id]) === false
+      ),
+      patterns: [
+        ...(project?.secrets?.patterns ?? []),
+        ...(user?.secrets?.patterns ?? []),
+      ],
+      allowlist: [
+        ...(project?.secrets?.allowlist ?? []),
+        ...(user?.secrets?.allowlist ?? []),
+      ],
+    },
+    // Both apply: a call must fit every quota for its tool
+    quotas: [...(project?.quotas ?? []), ...(user?.quotas ?? [])],
+    sources: [
+      ...(project ? [POLICY_FILE_NAME] : []),
+      ...(user ? [userPolicyPath] : []),
+    ],
+  };
+}
+
+// =============================================================================
+// MATCHING
+// =============================================================================
+
+function globMatch(pattern: string, value: string): boolean {
+  return new Bun.Glob(pattern).match(value);
+}
+
+/**
+ * Check a tool input path against a glob. Relative patterns match paths
+ * inside cwd; absolute and `~/` patterns match the absolute path.
+ */
+function pathMatches(pattern: string, path: string, cwd: string): boolean {
+  const absolute = resolve(cwd, path);
+  if (pattern.startsWith("~/")) {
+    return globMatch(join(homedir(), pattern.slice(2)), absolute);
+  }
+  if (isAbsolute(pattern)) {
+    return globMatch(pattern, absolute);
+  }
+  const rel = relative(cwd, absolute);
+  return !rel.startsWith("..") && !isAbsolute(rel) && globMatch(pattern, rel);
+}
+
+function ruleMatches(
+  rule: PolicyRule,
+  toolName: string,
+  input: Record<string, unknown>,
+  cwd: string
+): boolean {
+  if (rule.tool && !rule.tool.some((t) => globMatch(t, toolName))) {
+    return false;
+  }
+
+  if (rule.paths) {
+    const paths = PATH_FIELDS.map((f) => input[f]).filter(
+      (p): p is string => typeof p === "string"
+    );
+    if (
+      paths.length === 0 ||
+      !paths.some((p) => rule.paths!.some((g) => pathMatches(g, p, cwd)))
+    ) {
+      return false;
+    }
+  }
+
+  if (rule.command !== undefined || rule.argv) {
+    if (typeof input.command !== "string") {
+      return false;
+    }
+    if (
+      rule.command !== undefined &&
+      !new RegExp(rule.command).test(input.command)
+    ) {
+      return false;
+    }
+    if (rule.argv) {
+      const argv = rule.argv;
+      const matched = parseShellCommand(input.command).some(
+        ({ argv: words }) =>
+          words.length >= argv.length &&
+          argv.every((pattern, i) => globMatch(pattern, words[i]!))
+      );
+      if (!matched) return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * How specific a rule is: one point per condition, plus one for naming
+ * tools exactly rather than with a glob.
+ */
+function specificity(rule: PolicyRule): number {
+  let score = 0;
+  if (rule.tool) {
+    score += rule.tool.some((t) => /[*?[{]/.test(t)) ? 1 : 2;
+  }
+  if (rule.paths) score++;
+  if (rule.command !== undefined) score++;
+  if (rule.argv) score += 1 + rule.argv.length / 100;
+  return score;
+}
+
+function describeRule(rule: PolicyRule): string {
+  const parts = [
+    rule.tool && `tool ${rule.tool.join("|")}`,
+    rule.paths && `paths ${rule.paths.join(", ")}`,
+    rule.command !== undefined && `command /${rule.command}/`,
+    rule.argv && `argv "${rule.argv.join(" ")}"`,
+  ].filter(Boolean);
+  return `${rule.source} (${parts.join(", ")})`;
+}
+
+/**
+ * Find the rule in one file's rules that decides a tool call.
+ */
+function evaluateRuleSet(
+  { rules, precedence }: PolicyRuleSet,
+  toolName: string,
+  input: Record<string, unknown>,
+  cwd: string
+): PolicyRule | undefined {
+  let best: PolicyRule | undefined;
+  for (const rule of rules) {
+    if (!ruleMatches(rule, toolName, input, cwd)) continue;
+    if (precedence === "first-match") {
+      return rule;
+    }
+    if (!best || specificity(rule) > specificity(best)) {
+      best = rule;
+    }
+  }
+  return best;
+}
+
+/**
+ * Find the rule that decides a tool call: each file's winning rule, the
+ * strictest of them if both files have one (the project's on a tie).
+ *
+ * @returns The winning rule and its decision, or null if no rule matches
+ */
+export function evaluatePolicy(
+  policy: ToolPolicy,
+  toolName: string,
+  toolInput: unknown,
+  cwd: string
+): PolicyMatch | null {
+  const input = isPlainObject(toolInput) ? toolInput : {};
+  let best: PolicyRule | undefined;
+
+  for (const ruleSet of policy.ruleSets) {
+    const rule = evaluateRuleSet(ruleSet, toolName, input, cwd);
+    if (
+      rule &&
+      (!best ||
+        DECISION_ORDER.indexOf(rule.decision) >
+          DECISION_ORDER.indexOf(best.decision))
+    ) {
+      best = rule;
+    }
+  }
+
+  if (!best) {
+    return null;
+  }
+  return {
+    decision: best.decision,
+    reason:
+      best.reason ?? `Matched ${best.decision} rule ${describeRule(best)}`,
+    source: best.source,
+    rule: best,
+  };
+}
+
+/**
+ * Check a file-editing tool call against the write sandbox.
+ *
+ * @returns A deny, or null if the write is inside the boundary
+ */
+export function checkWriteSandbox(
+  policy: ToolPolicy,
+  toolName: string,
+  toolInput: unknown,
+  cwd: string
+): PolicyMatch | null {
+  const violation = checkWrite(toolName, toolInput, cwd, policy.writeSandbox);
+  if (!violation) {
+    return null;
+  }
+  return {
+    decision: "deny",
+    reason: `Write denied: ${violation.message}`,
+    source: "write sandbox",
+  };
+}
+
+/**
+ * Scan the content a file-editing tool call would write for secrets.
+ *
+ * @returns The `secrets.onWrite` decision, or null if nothing was found
+ */
+export function checkSecrets(
+  policy: ToolPolicy,
+  toolName: string,
+  toolInput: unknown
+): PolicyMatch | null {
+  if (policy.secrets.onWrite === "off") {
+    return null;
+  }
+  const secrets = scanToolWrite(toolName, toolInput, policy.secrets);
+  if (secrets.length === 0) {
+    return null;
+  }
+  return {
+    decision: policy.secrets.onWrite,
+    reason: `This ${toolName} would add what looks like a secret:\n${describeFindings(
+      secrets
+    )}\nUse an environment variable or secret store instead. If this is a false positive, add its fingerprint to secrets.allowlist in .tool-policy.json.`,
+    source: `secret scan ${secrets.map((f) => f.rule).join(", ")}`,
+  };
+}
+
+/**
+ * Check a Bash command against the built-in dangerous command checks.
+ *
+ * @returns The strictest finding, or null if none
+ */
+export function checkBashCommand(
+  policy: ToolPolicy,
+  toolName: string,
+  toolInput: unknown,
+  cwd: string
+): PolicyMatch | null {
+  const input = isPlainObject(toolInput) ? toolInput : {};
+  if (toolName !== "Bash" || typeof input.command !== "string") {
+    return null;
+  }
+  return strictest(
+    findDangerousCommands(input.command, cwd, policy.bashChecks).map(
+      (finding) => ({
+        decision: finding.decision,
+        reason: `${capitalize(finding.message)}: \`${finding.command}\``,
+        source: `bash check ${finding.id}`,
+      })
+    )
+  );
+}
+
+/**
+ * The most restrictive of some matches; the earliest on a tie.
+ */
+function strictest(matches: (PolicyMatch | null)[]): PolicyMatch | null {
+  return matches.reduce<PolicyMatch | null>(
+    (best, match) =>
+      match &&
+      (!best ||
+        DECISION_ORDER.indexOf(match.decision) >
+          DECISION_ORDER.indexOf(best.decision))
+        ? match
+        : best,
+    null
+  );
+}
+
+/**
+ * Decide a tool call from the policy rules, the write sandbox and secret
+ * scan for file-editing tools and, for Bash, the built-in dangerous
+ * command checks.
+ * The most restrictive decision wins.
+ *
+ * The PreToolUse hook runs each of these as its own handler (see
+ * scripts/PreToolUse.ts); this is the same decision in one call, for
+ * `bin/tool-policy.ts` and the policy's tests.
+ *
+ * @returns The deciding match, or null if nothing applies
+ */
+export function decideToolCall(
+  policy: ToolPolicy,
+  toolName: string,
+  toolInput: unknown,
+  cwd: string
+): PolicyMatch | null {
+  return strictest([
+    evaluatePolicy(policy, toolName, toolInput, cwd),
+    checkWriteSandbox(policy, toolName, toolInput, cwd),
+    checkSecrets(policy, toolName, toolInput),
+    checkBashCommand(policy, toolName, toolInput, cwd),
+  ]);
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/**
+ * Run a policy's test cases.
+ */
+export function runPolicyTests(
+  policy: ToolPolicy,
+  cwd: string
+): PolicyTestResult[] {
+  return policy.tests.map((test) => {
+    const match = decideToolCall(policy, test.tool, test.input, cwd);
+    const actual = match?.decision ?? "none";
+    return { test, actual, passed: actual === test.expect, match };
+  });
+}
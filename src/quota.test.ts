@@ -0,0 +1,151 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  checkQuotas,
+  getQuotaUsage,
+  summarizeQuotaUsage,
+  USAGE_LOG,
+  type ToolQuota,
+  type UsageEvent,
+} from "./quota";
+import { appendEvent } from "./state";
+
+const WORKERS = 8;
+
+// Each worker makes one call and prints whether it was allowed
+const WORKER = `
+import { checkQuotas } from ${JSON.stringify(join(import.meta.dir, "quota.ts"))};
+const { SESSION_ID, WORKER_ID, QUOTAS } = process.env;
+const match = await checkQuotas(SESSION_ID, "WebFetch", "call-" + WORKER_ID, JSON.parse(QUOTAS));
+console.log(match ? match.decision : "allow");
+`;
+
+let stateDir: string;
+
+beforeAll(async () => {
+  stateDir = await mkdtemp(join(tmpdir(), "quota-test-"));
+  process.env.QUALITY_GATES_STATE_DIR = stateDir;
+});
+
+afterAll(async () => {
+  delete process.env.QUALITY_GATES_STATE_DIR;
+  await rm(stateDir, { recursive: true, force: true });
+});
+
+function quota(tool: string[], max: number, extra: Partial<ToolQuota> = {}) {
+  return { tool, max, decision: "deny", source: "test", ...extra } as ToolQuota;
+}
+
+/**
+ * Make calls one after another, returning each decision.
+ */
+async function call(
+  sessionId: string,
+  toolName: string,
+  quotas: ToolQuota[],
+  count = 1
+): Promise<string[]> {
+  const decisions: string[] = [];
+  for (let i = 0; i < count; i++) {
+    const match = await checkQuotas(
+      sessionId,
+      toolName,
+      `${toolName}-${crypto.randomUUID()}`,
+      quotas
+    );
+    decisions.push(match?.decision ?? "allow");
+  }
+  return decisions;
+}
+
+describe("checkQuotas", () => {
+  test("denies calls past the max, and denied calls don't count", async () => {
+    const quotas = [quota(["Web*"], 2)];
+    expect(await call("max", "WebFetch", quotas, 2)).toEqual([
+      "allow",
+      "allow",
+    ]);
+    expect(await call("max", "WebSearch", quotas, 2)).toEqual(["deny", "deny"]);
+    // Other tools aren't limited
+    expect(await call("max", "Read", quotas)).toEqual(["allow"]);
+    expect(await getQuotaUsage("max", quotas)).toEqual([
+      { quota: quotas[0]!, used: 2 },
+    ]);
+  });
+
+  test("a deny quota beats an ask quota", async () => {
+    const quotas = [
+      quota(["Bash"], 1, { decision: "ask" }),
+      quota(["Bash"], 1),
+    ];
+    expect(await call("strictest", "Bash", quotas, 2)).toEqual([
+      "allow",
+      "deny",
+    ]);
+  });
+
+  test("a window only counts recent calls", async () => {
+    const window = 60_000;
+    const quotas = [quota(["Write", "Edit"], 2, { window })];
+    const now = Date.now();
+    // Two calls that have left the window, one still in it
+    for (const [id, at] of [
+      ["old-1", now - window - 5000],
+      ["old-2", now - window - 1],
+      ["recent", now - window / 2],
+    ] as const) {
+      await appendEvent<UsageEvent>("window", USAGE_LOG, {
+        id,
+        tool: "Edit",
+        at,
+      });
+    }
+
+    expect(await call("window", "Write", quotas, 2)).toEqual(["allow", "deny"]);
+    const [usage] = await getQuotaUsage("window", quotas);
+    expect(usage?.used).toBe(2);
+    expect(summarizeQuotaUsage([usage!])).toBe(
+      "Tool usage: Write|Edit 2/2 per 1m"
+    );
+  });
+
+  test(
+    "exactly one of many processes racing for the last slot gets it",
+    async () => {
+      const quotas = [quota(["WebFetch"], 3)];
+      expect(await call("race", "WebFetch", quotas, 2)).toEqual([
+        "allow",
+        "allow",
+      ]);
+
+      const procs = Array.from({ length: WORKERS }, (_, i) =>
+        Bun.spawn(["bun", "-e", WORKER], {
+          env: {
+            ...process.env,
+            SESSION_ID: "race",
+            WORKER_ID: String(i),
+            QUOTAS: JSON.stringify(quotas),
+          },
+          stderr: "pipe",
+        })
+      );
+      const decisions = await Promise.all(
+        procs.map(async (p) => (await new Response(p.stdout).text()).trim())
+      );
+      expect(decisions.filter((d) => d === "allow")).toHaveLength(1);
+      expect(decisions.filter((d) => d === "deny")).toHaveLength(WORKERS - 1);
+
+      const [usage] = await getQuotaUsage("race", quotas);
+      expect(usage?.used).toBe(3);
+    },
+    { timeout: 60_000 }
+  );
+});
+
+describe("summarizeQuotaUsage", () => {
+  test("is null without quotas", () => {
+    expect(summarizeQuotaUsage([])).toBeNull();
+  });
+});
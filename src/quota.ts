@@ -0,0 +1,221 @@
+/**
+ * TOOL QUOTAS
+ * ============
+ * Per-session limits on how often Claude calls a tool, checked by the
+ * PreToolUse hook and summarized by the Stop hook.
+ *
+ * Quotas are set in `.tool-policy.json`:
+ * ```json
+ * {
+ *   "quotas": [
+ *     { "tool": "WebFetch", "max": 50 },
+ *     { "tool": "Bash", "max": 200, "decision": "ask" },
+ *     { "tool": ["Write", "Edit", "MultiEdit"], "max": 20, "window": 60000 }
+ *   ]
+ * }
+ * ```
+ * - tool: tool name or glob, or an array of them; calls to any count
+ * - max: calls allowed
+ * - window: count only calls in the last this many ms (default: the whole
+ *   session)
+ * - decision: "deny" (default) or "ask" once the quota is used up
+ *
+ * When any quota is set, every call the hook doesn't deny is appended to
+ * the session's "usage" event log (see src/state.ts). Appends from
+ * concurrent hook processes are all kept, so parallel tool calls can't lose
+ * increments. A call is checked against the calls logged before it, so when
+ * several race for the last slot exactly one gets it. Denied calls are
+ * marked as such and don't count.
+ */
+
+import type { PolicyDecision, PolicyMatch } from "./policy";
+import { appendEvent, readEvents } from "./state";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface ToolQuota {
+  tool: string[];
+  max: number;
+  /** Sliding window in ms; undefined counts the whole session */
+  window?: number;
+  decision: Exclude<PolicyDecision, "allow">;
+  /** Where the quota was defined, for messages */
+  source: string;
+}
+
+/**
+ * One line of the usage log: a tool call, or a later note that the call
+ * was denied.
+ */
+export interface UsageEvent {
+  /** The tool_use_id of the call */
+  id: string;
+  tool?: string;
+  at?: number;
+  denied?: boolean;
+}
+
+export interface QuotaUsage {
+  quota: ToolQuota;
+  used: number;
+}
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+/**
+ * Name of the session event log that records tool calls.
+ */
+export const USAGE_LOG = "usage";
+
+// =============================================================================
+// COUNTING
+// =============================================================================
+
+function quotaMatches(quota: ToolQuota, toolName: string): boolean {
+  return quota.tool.some((t) => new Bun.Glob(t).match(toolName));
+}
+
+/**
+ * Count the calls that count against a quota: not denied, matching the
+ * quota's tools, and inside its window.
+ */
+function countUsage(
+  quota: ToolQuota,
+  events: UsageEvent[],
+  now: number
+): number {
+  const denied = new Set(events.filter((e) => e.denied).map((e) => e.id));
+  return events.filter(
+    (e) =>
+      e.tool !== undefined &&
+      !denied.has(e.id) &&
+      quotaMatches(quota, e.tool) &&
+      (quota.window === undefined || now - (e.at ?? 0) < quota.window)
+  ).length;
+}
+
+function formatWindow(ms: number): string {
+  if (ms % 3_600_000 === 0) return `${ms / 3_600_000}h`;
+  if (ms % 60_000 === 0) return `${ms / 60_000}m`;
+  if (ms % 1000 === 0) return `${ms / 1000}s`;
+  return `${ms}ms`;
+}
+
+/**
+ * Describe a quota's usage, e.g. "Write|Edit 4/20 per 1m".
+ */
+function describeUsage({ quota, used }: QuotaUsage): string {
+  const per =
+    quota.window === undefined ? "" : ` per ${formatWindow(quota.window)}`;
+  return `${quota.tool.join("|")} ${used}/${quota.max}${per}`;
+}
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Record a tool call and check it against the quotas. Call this only for
+ * calls nothing else denied.
+ *
+ * @param sessionId - The session making the call
+ * @param toolName - The tool being called
+ * @param toolUseId - The call's tool_use_id
+ * @param quotas - The quotas from the tool policy
+ * @returns A deny or ask decision if a quota is used up, otherwise null
+ */
+export async function checkQuotas(
+  sessionId: string,
+  toolName: string,
+  toolUseId: string,
+  quotas: ToolQuota[]
+): Promise<PolicyMatch | null> {
+  // Without quotas there is nothing to count against
+  if (quotas.length === 0) {
+    return null;
+  }
+
+  const now = Date.now();
+  await appendEvent<UsageEvent>(sessionId, USAGE_LOG, {
+    id: toolUseId,
+    tool: toolName,
+    at: now,
+  });
+
+  const applicable = quotas.filter((q) => quotaMatches(q, toolName));
+  if (applicable.length === 0) {
+    return null;
+  }
+
+  // Only the calls logged before this one
+  const events = await readEvents<UsageEvent>(sessionId, USAGE_LOG);
+  const own = events.findIndex((e) => e.id === toolUseId && e.tool);
+  const earlier = own === -1 ? events : events.slice(0, own);
+
+  const exceeded = applicable
+    .map((quota) => ({ quota, used: countUsage(quota, earlier, now) }))
+    .filter(({ quota, used }) => used >= quota.max)
+    // A deny beats an ask
+    .sort((a, b) =>
+      a.quota.decision === b.quota.decision
+        ? 0
+        : a.quota.decision === "deny"
+          ? -1
+          : 1
+    )[0];
+
+  if (!exceeded) {
+    return null;
+  }
+
+  if (exceeded.quota.decision === "deny") {
+    await appendEvent<UsageEvent>(sessionId, USAGE_LOG, {
+      id: toolUseId,
+      denied: true,
+    });
+  }
+
+  const { quota } = exceeded;
+  const scope =
+    quota.window === undefined
+      ? "this session"
+      : `in the last ${formatWindow(quota.window)}`;
+  return {
+    decision: quota.decision,
+    reason: `Quota reached: ${exceeded.used} of ${quota.max} ${quota.tool.join(
+      "|"
+    )} calls used ${scope} (${quota.source})`,
+    source: quota.source,
+  };
+}
+
+/**
+ * Work out how much of each quota the session has used.
+ */
+export async function getQuotaUsage(
+  sessionId: string,
+  quotas: ToolQuota[]
+): Promise<QuotaUsage[]> {
+  if (quotas.length === 0) {
+    return [];
+  }
+  const events = await readEvents<UsageEvent>(sessionId, USAGE_LOG);
+  const now = Date.now();
+  return quotas.map((quota) => ({
+    quota,
+    used: countUsage(quota, events, now),
+  }));
+}
+
+/**
+ * One-line summary of quota usage for the user, or null without quotas.
+ */
+export function summarizeQuotaUsage(usage: QuotaUsage[]): string | null {
+  return usage.length > 0
+    ? `Tool usage: ${usage.map(describeUsage).join(", ")}`
+    : null;
+}
@@ -0,0 +1,171 @@
+import { beforeAll, describe, expect, test } from "bun:test";
+import { join } from "path";
+import type { AuditRecord } from "./audit";
+import {
+  buildSessionReport,
+  parseTranscript,
+  renderHtml,
+  renderMarkdown,
+  type SessionReport,
+} from "./report";
+
+const FIXTURES = join(import.meta.dir, "fixtures", "report");
+const SESSION = "5d2c8a1e-3b4f-4e6a-9c7d-1a2b3c4d5e6f";
+// Written by a Bash call, and on purpose not a safe thing to put in HTML
+const ODD_FILE = "<img src=x onerror=alert(1)>.html";
+
+let records: AuditRecord[];
+let report: SessionReport;
+
+beforeAll(async () => {
+  records = (await Bun.file(join(FIXTURES, "audit.jsonl")).text())
+    .split("\n")
+    .filter(Boolean)
+    .map((line) => JSON.parse(line));
+  const transcript = parseTranscript(
+    await Bun.file(join(FIXTURES, "transcript.jsonl")).text()
+  );
+  report = buildSessionReport(SESSION, records, transcript);
+});
+
+describe("parseTranscript", () => {
+  test("reads prompts and tool calls with their results", async () => {
+    const transcript = parseTranscript(
+      await Bun.file(join(FIXTURES, "transcript.jsonl")).text()
+    );
+    expect(transcript.sessionId).toBe(SESSION);
+    expect(transcript.cwd).toBe("/repo");
+    // Tool results and meta entries aren't prompts
+    expect(transcript.prompts.map((p) => p.text)).toEqual([
+      "Add a <script> check to the page",
+      "Now make the tests pass",
+    ]);
+    expect(transcript.toolCalls.map((c) => [c.id, c.name, c.isError])).toEqual([
+      ["toolu_01", "Write", false],
+      ["toolu_02", "Bash", true],
+      ["toolu_03", "Bash", false],
+      ["toolu_04", "Edit", true],
+    ]);
+  });
+});
+
+describe("buildSessionReport", () => {
+  test("covers the session's span and sources", () => {
+    expect(report).toMatchObject({
+      sessionId: SESSION,
+      cwd: "/repo",
+      startedAt: "2026-03-02T10:00:00.000Z",
+      endedAt: "2026-03-02T10:01:10.000Z",
+      promptCount: 2,
+      sources: ["audit log (10 records)", "transcript"],
+    });
+  });
+
+  test("counts tool calls, denials, errors and durations", () => {
+    expect(report.tools).toEqual([
+      {
+        name: "Bash",
+        calls: 2,
+        denied: 1,
+        errors: 0,
+        // Only the call that ran, timed by the hooks
+        totalMs: 500,
+        timedCalls: 1,
+      },
+      {
+        name: "Edit",
+        calls: 1,
+        denied: 0,
+        errors: 1,
+        // Timed by the transcript; no PostToolUse for a failed call
+        totalMs: 1000,
+        timedCalls: 1,
+      },
+      {
+        name: "Write",
+        calls: 1,
+        denied: 0,
+        errors: 0,
+        totalMs: 1400,
+        timedCalls: 1,
+      },
+    ]);
+  });
+
+  test("lists the files changed, relative to the project", () => {
+    // Not the failed edit's
+    expect(report.files).toEqual([ODD_FILE, "src/page.ts"]);
+  });
+
+  test("lists denied calls with their rule", () => {
+    expect(report.denied).toEqual([
+      {
+        at: "2026-03-02T10:00:04.100Z",
+        tool: "Bash",
+        rule: "bash check force-push",
+        reason: "Force push rewrites history: git push --force origin <main>",
+      },
+    ]);
+  });
+
+  test("reports blocked stops with the failing gate, and the final status", () => {
+    expect(report.stops).toEqual([
+      {
+        at: "2026-03-02T10:00:10.000Z",
+        blocked: true,
+        reason: "Quality gates failed",
+        failedGates: ["test"],
+      },
+      {
+        at: "2026-03-02T10:01:10.000Z",
+        blocked: false,
+        reason: undefined,
+        failedGates: [],
+      },
+    ]);
+    expect(report.finalGates).toEqual([
+      { name: "typecheck", status: "cached" },
+      { name: "test", status: "passed", duration_ms: 2000 },
+    ]);
+  });
+
+  test("works from the audit log alone", () => {
+    const partial = buildSessionReport(SESSION, records, null, "/repo");
+    expect(partial.prompts).toEqual([]);
+    expect(partial.promptCount).toBe(2);
+    expect(partial.files).toEqual([ODD_FILE, "src/page.ts"]);
+    expect(partial.tools.map((t) => [t.name, t.calls])).toEqual([
+      ["Bash", 2],
+      ["Edit", 1],
+      ["Write", 1],
+    ]);
+    expect(partial.sources).toEqual(["audit log (10 records)"]);
+  });
+});
+
+describe("rendering", () => {
+  test("Markdown has a row per summary item and stop", () => {
+    const markdown = renderMarkdown(report);
+    expect(markdown).toStartWith(`# Session report: ${SESSION}\n`);
+    expect(markdown).toContain("| Tool calls | 4 |");
+    expect(markdown).toContain("| Blocked stops | 1 |");
+    expect(markdown).toContain("| Final gate status | passing |");
+    expect(markdown).toContain("| Bash | 2 | 1 | 0 | 500ms | 500ms |");
+    expect(markdown).toContain(
+      "| 2026-03-02 10:00:10 UTC | blocked | test | Quality gates failed |"
+    );
+    expect(markdown).toContain("- `src/page.ts`");
+  });
+
+  test("HTML escapes tool input, prompts and reasons", () => {
+    const html = renderHtml(report);
+    expect(html).not.toContain("<img");
+    expect(html).not.toContain("<script>");
+    expect(html).not.toContain("<main>");
+    expect(html).toContain(
+      "<code>&lt;img src=x onerror=alert(1)&gt;.html</code>"
+    );
+    expect(html).toContain("Add a &lt;script&gt; check to the page");
+    expect(html).toContain("git push --force origin &lt;main&gt;");
+  });
+});
@@ -0,0 +1,671 @@
+/**
+ * SESSION REPORT
+ * ===============
+ * Summarizes what Claude did in a session, for reviewing its work before
+ * merging it: the prompts, the tools it used, the files it changed, the
+ * tool calls that were denied, every stop the quality gates blocked, and
+ * where the gates stood at the end.
+ *
+ * Built from two sources, either of which may be missing:
+ * - the audit log (see src/audit.ts): decisions, rewrites, touched files,
+ *   gate results and timings
+ * - the session transcript (the JSONL file hooks get as
+ *   `transcript_path`): prompt text, every tool call, and tool errors
+ *
+ * Rendered as Markdown or as a standalone HTML page; see
+ * bin/session-report.ts.
+ */
+
+import { homedir } from "os";
+import { isAbsolute, join, relative } from "path";
+import type { AuditGateResult, AuditRecord } from "./audit";
+import { extractTouchedFiles } from "./tracking";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface TranscriptPrompt {
+  at?: string;
+  text: string;
+}
+
+export interface TranscriptToolCall {
+  id: string;
+  name: string;
+  input: unknown;
+  at?: string;
+  /** When its result came back */
+  finishedAt?: string;
+  isError?: boolean;
+}
+
+/**
+ * What a report needs from a session transcript.
+ */
+export interface Transcript {
+  sessionId?: string;
+  cwd?: string;
+  prompts: TranscriptPrompt[];
+  toolCalls: TranscriptToolCall[];
+}
+
+export interface ToolUsage {
+  name: string;
+  calls: number;
+  denied: number;
+  errors: number;
+  /** Total run time of the calls with a known duration */
+  totalMs: number;
+  timedCalls: number;
+}
+
+export interface DeniedCall {
+  at: string;
+  tool: string;
+  rule?: string;
+  reason?: string;
+}
+
+export interface StopOutcome {
+  at: string;
+  blocked: boolean;
+  reason?: string;
+  failedGates: string[];
+}
+
+export interface SessionReport {
+  sessionId: string;
+  cwd?: string;
+  startedAt?: string;
+  endedAt?: string;
+  prompts: TranscriptPrompt[];
+  /** Prompts the audit log saw; their text is only in the transcript */
+  promptCount: number;
+  tools: ToolUsage[];
+  files: string[];
+  denied: DeniedCall[];
+  stops: StopOutcome[];
+  /** Gate results from the last Stop that ran them */
+  finalGates: AuditGateResult[] | null;
+  /** Which data the report was built from */
+  sources: string[];
+}
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+/**
+ * Where Claude Code keeps session transcripts, one directory per project.
+ */
+const TRANSCRIPTS_DIR = join(homedir(), ".claude", "projects");
+
+/**
+ * Characters of a prompt or reason shown in the report.
+ */
+const MAX_PROMPT_LENGTH = 300;
+const MAX_REASON_LENGTH = 200;
+
+// =============================================================================
+// TRANSCRIPTS
+// =============================================================================
+
+/**
+ * Find a session's transcript among Claude Code's projects.
+ *
+ * @returns The path, or null if there is none
+ */
+export function findTranscript(sessionId: string): string | null {
+  try {
+    for (const path of new Bun.Glob(`*/${sessionId}.jsonl`).scanSync(
+      TRANSCRIPTS_DIR
+    )) {
+      return join(TRANSCRIPTS_DIR, path);
+    }
+  } catch {
+    // No transcripts directory
+  }
+  return null;
+}
+
+type ContentBlock = Record<string, unknown>;
+
+function contentBlocks(message: unknown): ContentBlock[] | string | null {
+  const content = (message as { content?: unknown } | undefined)?.content;
+  if (typeof content === "string") return content;
+  return Array.isArray(content) ? (content as ContentBlock[]) : null;
+}
+
+/**
+ * Parse a session transcript (one JSON entry per line). Lines that aren't
+ * JSON, and entries this doesn't know, are skipped.
+ */
+export function parseTranscript(text: string): Transcript {
+  const transcript: Transcript = { prompts: [], toolCalls: [] };
+  const calls = new Map<string, TranscriptToolCall>();
+
+  for (const line of text.split("\n")) {
+    if (!line.trim()) continue;
+    let entry: Record<string, unknown>;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      continue;
+    }
+
+    transcript.sessionId ??= entry.sessionId as string | undefined;
+    transcript.cwd ??= entry.cwd as string | undefined;
+    const at = entry.timestamp as string | undefined;
+    const content = contentBlocks(entry.message);
+    if (content === null) continue;
+
+    if (entry.type === "assistant" && Array.isArray(content)) {
+      for (const block of content) {
+        if (block.type !== "tool_use") continue;
+        const call: TranscriptToolCall = {
+          id: String(block.id),
+          name: String(block.name),
+          input: block.input,
+          at,
+        };
+        calls.set(call.id, call);
+        transcript.toolCalls.push(call);
+      }
+    } else if (entry.type === "user" && !entry.isMeta) {
+      if (typeof content === "string") {
+        transcript.prompts.push({ at, text: content });
+        continue;
+      }
+      const results = content.filter((b) => b.type === "tool_result");
+      for (const result of results) {
+        const call = calls.get(String(result.tool_use_id));
+        if (call) {
+          call.finishedAt = at;
+          call.isError = result.is_error === true;
+        }
+      }
+      const text = content
+        .filter((b) => b.type === "text")
+        .map((b) => String(b.text))
+        .join("\n");
+      if (results.length === 0 && text) {
+        transcript.prompts.push({ at, text });
+      }
+    }
+  }
+
+  return transcript;
+}
+
+// =============================================================================
+// BUILDING
+// =============================================================================
+
+function elapsed(from?: string, to?: string): number | undefined {
+  if (!from || !to) return undefined;
+  const ms = Date.parse(to) - Date.parse(from);
+  return Number.isNaN(ms) || ms < 0 ? undefined : ms;
+}
+
+function shorten(text: string | undefined, max: number): string | undefined {
+  if (text === undefined) return undefined;
+  const flat = text.replace(/\s+/g, " ").trim();
+  return flat.length > max ? `${flat.slice(0, max)}…` : flat;
+}
+
+function toProjectPath(file: string, cwd: string | undefined): string {
+  if (!cwd || !isAbsolute(file)) return file;
+  const rel = relative(cwd, file);
+  return rel.startsWith("..") || isAbsolute(rel) ? file : rel;
+}
+
+/**
+ * Put together a session's report from its audit records and transcript.
+ *
+ * @param sessionId - The session to report on
+ * @param records - The session's audit records, oldest first
+ * @param transcript - The session's transcript, if it was found
+ * @param cwd - The project directory, for showing paths relative to it
+ */
+export function buildSessionReport(
+  sessionId: string,
+  records: AuditRecord[],
+  transcript: Transcript | null,
+  cwd?: string
+): SessionReport {
+  const root = transcript?.cwd ?? cwd;
+  const byEvent = (event: string) => records.filter((r) => r.event === event);
+
+  // Tool calls by tool_use_id, from whichever source saw them
+  const calls = new Map<
+    string,
+    { name: string; denied: boolean; error: boolean; ms?: number }
+  >();
+  for (const call of transcript?.toolCalls ?? []) {
+    calls.set(call.id, {
+      name: call.name,
+      denied: false,
+      error: !!call.isError,
+      ms: elapsed(call.at, call.finishedAt),
+    });
+  }
+  const pre = new Map<string, AuditRecord>();
+  for (const record of byEvent("PreToolUse")) {
+    if (!record.tool_use_id || !record.tool_name) continue;
+    pre.set(record.tool_use_id, record);
+    const call = calls.get(record.tool_use_id) ?? {
+      name: record.tool_name,
+      denied: false,
+      error: false,
+    };
+    call.denied = record.decision === "deny";
+    calls.set(record.tool_use_id, call);
+  }
+  // The hooks' own timestamps are more precise than the transcript's
+  for (const record of byEvent("PostToolUse")) {
+    const call = record.tool_use_id && calls.get(record.tool_use_id);
+    const start = record.tool_use_id && pre.get(record.tool_use_id);
+    if (!call || !start) continue;
+    const end = new Date(
+      Date.parse(record.ts) - record.duration_ms
+    ).toISOString();
+    call.ms = elapsed(start.ts, end) ?? call.ms;
+  }
+
+  const tools = new Map<string, ToolUsage>();
+  for (const call of calls.values()) {
+    const usage = tools.get(call.name) ?? {
+      name: call.name,
+      calls: 0,
+      denied: 0,
+      errors: 0,
+      totalMs: 0,
+      timedCalls: 0,
+    };
+    usage.calls++;
+    if (call.denied) usage.denied++;
+    // Denied calls come back as errors too
+    if (call.error && !call.denied) usage.errors++;
+    if (call.ms !== undefined && !call.denied) {
+      usage.totalMs += call.ms;
+      usage.timedCalls++;
+    }
+    tools.set(call.name, usage);
+  }
+
+  // Files: what PostToolUse recorded, plus what successful calls in the
+  // transcript wrote
+  const files = new Set<string>();
+  for (const record of byEvent("PostToolUse")) {
+    for (const file of record.files ?? []) files.add(toProjectPath(file, root));
+  }
+  for (const call of transcript?.toolCalls ?? []) {
+    if (call.isError || call.finishedAt === undefined) continue;
+    if (calls.get(call.id)?.denied) continue;
+    for (const file of extractTouchedFiles(call.name, call.input)) {
+      files.add(toProjectPath(file, root));
+    }
+  }
+
+  const denied = byEvent("PreToolUse")
+    .filter((r) => r.decision === "deny")
+    .map((r) => ({
+      at: r.ts,
+      tool: r.tool_name ?? "?",
+      rule: r.rule,
+      reason: shorten(r.reason, MAX_REASON_LENGTH),
+    }));
+
+  const stopRecords = byEvent("Stop");
+  const stops = stopRecords.map((r) => ({
+    at: r.ts,
+    blocked: r.decision === "block",
+    // A block reason is the whole failure report; its heading is enough
+    reason: shorten(
+      r.reason
+        ?.split("\n")
+        .find((l) => l.trim())
+        ?.replace(/^#+\s*/, ""),
+      MAX_REASON_LENGTH
+    ),
+    failedGates: (r.gates ?? [])
+      .filter((g) => g.status === "failed" || g.status === "timed-out")
+      .map((g) => g.name),
+  }));
+  const finalGates = [...stopRecords].reverse().find((r) => r.gates)?.gates;
+
+  const times = [
+    ...records.map((r) => r.ts),
+    ...(transcript?.prompts ?? []).map((p) => p.at),
+    ...(transcript?.toolCalls ?? []).map((c) => c.at),
+  ]
+    .filter((t): t is string => !!t)
+    .sort();
+
+  return {
+    sessionId,
+    cwd: root,
+    startedAt: times[0],
+    endedAt: times[times.length - 1],
+    prompts: (transcript?.prompts ?? []).map((p) => ({
+      at: p.at,
+      text: shorten(p.text, MAX_PROMPT_LENGTH) ?? "",
+    })),
+    promptCount: Math.max(
+      transcript?.prompts.length ?? 0,
+      byEvent("UserPromptSubmit").length
+    ),
+    tools: [...tools.values()].sort(
+      (a, b) => b.calls - a.calls || a.name.localeCompare(b.name)
+    ),
+    files: [...files].sort(),
+    denied,
+    stops,
+    finalGates: finalGates ?? null,
+    sources: [
+      records.length > 0 && `audit log (${records.length} records)`,
+      transcript && "transcript",
+    ].filter((s): s is string => !!s),
+  };
+}
+
+// =============================================================================
+// RENDERING
+// =============================================================================
+
+/**
+ * A piece of a report, rendered the same way in every format.
+ */
+type Block =
+  | { kind: "paragraph"; text: string }
+  | { kind: "list"; items: string[]; ordered?: boolean }
+  | { kind: "table"; headers: string[]; rows: string[][] };
+
+interface Section {
+  title: string;
+  blocks: Block[];
+}
+
+function formatTime(iso: string | undefined): string {
+  return iso ? `${iso.slice(0, 19).replace("T", " ")} UTC` : "unknown";
+}
+
+function formatDuration(ms: number): string {
+  if (ms >= 60_000) return `${(ms / 60_000).toFixed(1)}m`;
+  return ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${Math.round(ms)}ms`;
+}
+
+/**
+ * Lay a report out as titled sections.
+ */
+function reportSections(report: SessionReport): Section[] {
+  const blockedStops = report.stops.filter((s) => s.blocked).length;
+  const finalStatus = report.finalGates
+    ? report.finalGates.every(
+        (g) => g.status === "passed" || g.status === "cached"
+      )
+      ? "passing"
+      : "failing"
+    : "not run";
+  const totalCalls = report.tools.reduce((n, t) => n + t.calls, 0);
+
+  const sections: Section[] = [
+    {
+      title: "Summary",
+      blocks: [
+        {
+          kind: "table",
+          headers: ["", ""],
+          rows: [
+            ["Session", report.sessionId],
+            ["Project", report.cwd ?? "unknown"],
+            ["Started", formatTime(report.startedAt)],
+            ["Last activity", formatTime(report.endedAt)],
+            ["Prompts", String(report.promptCount)],
+            ["Tool calls", String(totalCalls)],
+            ["Files changed", String(report.files.length)],
+            ["Denied tool calls", String(report.denied.length)],
+            ["Blocked stops", String(blockedStops)],
+            ["Final gate status", finalStatus],
+          ],
+        },
+        {
+          kind: "paragraph",
+          text: `Built from: ${report.sources.join(", ") || "no data"}.`,
+        },
+      ],
+    },
+  ];
+
+  sections.push({
+    title: "Prompts",
+    blocks:
+      report.prompts.length > 0
+        ? [
+            {
+              kind: "list",
+              ordered: true,
+              items: report.prompts.map(
+                (p) => `${formatTime(p.at)}: ${p.text}`
+              ),
+            },
+          ]
+        : [
+            {
+              kind: "paragraph",
+              text:
+                report.promptCount > 0
+                  ? `${report.promptCount} prompt(s); their text is only in the transcript, which wasn't found.`
+                  : "None recorded.",
+            },
+          ],
+  });
+
+  sections.push({
+    title: "Tools",
+    blocks:
+      report.tools.length > 0
+        ? [
+            {
+              kind: "table",
+              headers: [
+                "Tool",
+                "Calls",
+                "Denied",
+                "Errors",
+                "Total time",
+                "Average",
+              ],
+              rows: report.tools.map((t) => [
+                t.name,
+                String(t.calls),
+                String(t.denied),
+                String(t.errors),
+                t.timedCalls > 0 ? formatDuration(t.totalMs) : "",
+                t.timedCalls > 0
+                  ? formatDuration(t.totalMs / t.timedCalls)
+                  : "",
+              ]),
+            },
+          ]
+        : [{ kind: "paragraph", text: "None recorded." }],
+  });
+
+  sections.push({
+    title: "Files changed",
+    blocks:
+      report.files.length > 0
+        ? [{ kind: "list", items: report.files.map((f) => `\`${f}\``) }]
+        : [{ kind: "paragraph", text: "None recorded." }],
+  });
+
+  sections.push({
+    title: "Denied tool calls",
+    blocks:
+      report.denied.length > 0
+        ? [
+            {
+              kind: "table",
+              headers: ["Time", "Tool", "Rule", "Reason"],
+              rows: report.denied.map((d) => [
+                formatTime(d.at),
+                d.tool,
+                d.rule ?? "",
+                d.reason ?? "",
+              ]),
+            },
+          ]
+        : [{ kind: "paragraph", text: "None." }],
+  });
+
+  sections.push({
+    title: "Stops",
+    blocks:
+      report.stops.length > 0
+        ? [
+            {
+              kind: "table",
+              headers: ["Time", "Outcome", "Failing gates", "Reason"],
+              rows: report.stops.map((s) => [
+                formatTime(s.at),
+                s.blocked ? "blocked" : "allowed",
+                s.failedGates.join(", "),
+                s.reason ?? "",
+              ]),
+            },
+          ]
+        : [{ kind: "paragraph", text: "None recorded." }],
+  });
+
+  sections.push({
+    title: "Final gate status",
+    blocks: report.finalGates
+      ? [
+          {
+            kind: "table",
+            headers: ["Gate", "Status", "Duration"],
+            rows: report.finalGates.map((g) => [
+              g.name,
+              g.status,
+              g.duration_ms !== undefined ? formatDuration(g.duration_ms) : "",
+            ]),
+          },
+        ]
+      : [{ kind: "paragraph", text: "The quality gates never ran." }],
+  });
+
+  return sections;
+}
+
+function escapeCell(text: string): string {
+  return text.replace(/\|/g, "\\|").replace(/\n/g, " ");
+}
+
+/**
+ * Render a report as Markdown.
+ */
+export function renderMarkdown(report: SessionReport): string {
+  const lines = [`# Session report: ${report.sessionId}`];
+  for (const section of reportSections(report)) {
+    lines.push("", `## ${section.title}`);
+    for (const block of section.blocks) {
+      lines.push("");
+      switch (block.kind) {
+        case "paragraph":
+          lines.push(block.text);
+          break;
+        case "list":
+          block.items.forEach((item, i) =>
+            lines.push(`${block.ordered ? `${i + 1}.` : "-"} ${item}`)
+          );
+          break;
+        case "table":
+          lines.push(
+            `| ${block.headers.map(escapeCell).join(" | ")} |`,
+            `|${block.headers.map(() => "---").join("|")}|`,
+            ...block.rows.map((row) => `| ${row.map(escapeCell).join(" | ")} |`)
+          );
+          break;
+      }
+    }
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Escape text for HTML, turning `code` spans into <code> elements.
+ */
+function inlineHtml(text: string): string {
+  return escapeHtml(text).replace(/`([^`]+)`/g, "<code>$1</code>");
+}
+
+/**
+ * Render a report as a standalone HTML page.
+ */
+export function renderHtml(report: SessionReport): string {
+  const title = `Session report: ${escapeHtml(report.sessionId)}`;
+  const body: string[] = [`<h1>${title}</h1>`];
+
+  for (const section of reportSections(report)) {
+    body.push(`<h2>${escapeHtml(section.title)}</h2>`);
+    for (const block of section.blocks) {
+      switch (block.kind) {
+        case "paragraph":
+          body.push(`<p>${inlineHtml(block.text)}</p>`);
+          break;
+        case "list": {
+          const tag = block.ordered ? "ol" : "ul";
+          body.push(
+            `<${tag}>${block.items
+              .map((item) => `<li>${inlineHtml(item)}</li>`)
+              .join("")}</${tag}>`
+          );
+          break;
+        }
+        case "table": {
+          const head = block.headers.some(Boolean)
+            ? `<thead><tr>${block.headers
+                .map((h) => `<th>${escapeHtml(h)}</th>`)
+                .join("")}</tr></thead>`
+            : "";
+          const rows = block.rows
+            .map(
+              (row) =>
+                `<tr>${row.map((c) => `<td>${inlineHtml(c)}</td>`).join("")}</tr>`
+            )
+            .join("\n");
+          body.push(`<table>${head}<tbody>\n${rows}\n</tbody></table>`);
+          break;
+        }
+      }
+    }
+  }
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${title}</title>
+<style>
+  body { font-family: system-ui, sans-serif; max-width: 60rem; margin: 2rem auto; padding: 0 1rem; color: #222; }
+  table { border-collapse: collapse; margin: 0.5rem 0; }
+  th, td { border: 1px solid #ccc; padding: 0.25rem 0.5rem; text-align: left; vertical-align: top; }
+  th { background: #f4f4f4; }
+  code { background: #f4f4f4; padding: 0 0.2rem; }
+</style>
+</head>
+<body>
+${body.join("\n")}
+</body>
+</html>
+`;
+}
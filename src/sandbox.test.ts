@@ -0,0 +1,195 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, rm, symlink, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  checkWrite,
+  DEFAULT_WRITE_SANDBOX,
+  resolveRealPath,
+  writePathOf,
+  type WriteSandbox,
+} from "./sandbox";
+
+let root: string;
+let project: string;
+let outside: string;
+
+beforeAll(async () => {
+  root = resolveRealPath(await mkdtemp(join(tmpdir(), "sandbox-test-")));
+  project = join(root, "project");
+  outside = join(root, "outside");
+  await mkdir(join(project, "src"), { recursive: true });
+  await mkdir(outside);
+  await writeFile(join(project, "src", "index.ts"), "");
+
+  // Links inside the project: one escaping it, one staying in it, one
+  // dangling out of it, and one to a protected file
+  await symlink(outside, join(project, "escape"));
+  await symlink(join(project, "src"), join(project, "source"));
+  await symlink(join(outside, "missing.txt"), join(project, "dangling"));
+  await symlink("../.env", join(project, "src", "config"));
+  // The session can also be started through a link to the project
+  await symlink(project, join(root, "link-to-project"));
+});
+
+afterAll(async () => {
+  await rm(root, { recursive: true, force: true });
+});
+
+function write(
+  path: string,
+  sandbox: Partial<WriteSandbox> = {},
+  cwd = project
+): string | null {
+  return (
+    checkWrite("Write", { file_path: path, content: "" }, cwd, {
+      ...DEFAULT_WRITE_SANDBOX,
+      ...sandbox,
+    })?.message ?? null
+  );
+}
+
+describe("relative paths and ..", () => {
+  test("allows paths inside the project", () => {
+    expect(write("src/index.ts")).toBeNull();
+    expect(write("./src/../src/new.ts")).toBeNull();
+    expect(write("src/deep/new/file.ts")).toBeNull();
+  });
+
+  test("denies .. escaping the project", () => {
+    expect(write("../outside/file.txt")).toBe(
+      `../outside/file.txt is outside the project (${project})`
+    );
+    expect(write("src/../../outside/file.txt")).toContain(
+      "is outside the project"
+    );
+  });
+
+  test("catches a protected path spelled with ..", () => {
+    expect(write("src/../.env")).toStartWith(".env is a protected path");
+  });
+});
+
+describe("absolute paths", () => {
+  test("allows absolute paths inside the project", () => {
+    expect(write(join(project, "src", "index.ts"))).toBeNull();
+  });
+
+  test("denies absolute paths outside it", () => {
+    expect(write("/etc/passwd")).toBe(
+      `/etc/passwd is outside the project (${project})`
+    );
+    expect(write(join(project, "..", "outside", "x"))).toContain(
+      "is outside the project"
+    );
+  });
+
+  test("denies a sibling directory sharing the project's prefix", () => {
+    expect(write(`${project}-other/file.txt`)).toContain(
+      "is outside the project"
+    );
+  });
+});
+
+describe("symlinks", () => {
+  test("denies writes through a link leading outside", () => {
+    expect(write("escape/file.txt")).toBe(
+      `escape/file.txt resolves to ${join(outside, "file.txt")} through a symlink, outside the project (${project})`
+    );
+  });
+
+  test("denies a dangling link whose target is outside", () => {
+    expect(write("dangling")).toBe(
+      `dangling resolves to ${join(outside, "missing.txt")} through a symlink, outside the project (${project})`
+    );
+  });
+
+  test("allows links that stay inside", () => {
+    expect(write("source/index.ts")).toBeNull();
+  });
+
+  test("denies a link to a protected file", () => {
+    expect(write("src/config")).toStartWith(
+      ".env (via symlink src/config) is a protected path"
+    );
+  });
+
+  test("works when the session cwd is itself a link", () => {
+    const cwd = join(root, "link-to-project");
+    expect(write("src/index.ts", {}, cwd)).toBeNull();
+    expect(write(join(project, "src", "index.ts"), {}, cwd)).toBeNull();
+    expect(write("../outside/x", {}, cwd)).toContain("is outside the project");
+  });
+});
+
+describe("resolveRealPath", () => {
+  test("keeps missing trailing segments", () => {
+    expect(resolveRealPath(join(project, "source", "a", "b.ts"))).toBe(
+      join(project, "src", "a", "b.ts")
+    );
+  });
+
+  test("follows a dangling link to its target", () => {
+    expect(resolveRealPath(join(project, "dangling"))).toBe(
+      join(outside, "missing.txt")
+    );
+  });
+});
+
+describe("protected paths", () => {
+  test("protects lockfiles, .env files, CI configs and .git", () => {
+    for (const path of [
+      "bun.lock",
+      "packages/app/package-lock.json",
+      ".env.local",
+      ".github/workflows/ci.yml",
+      "db/migrations/001_init.sql",
+      ".git/config",
+    ]) {
+      expect(write(path)).toStartWith(`${path} is a protected path`);
+    }
+  });
+
+  test("adds configured globs to the defaults", () => {
+    expect(write("schema.sql", { protectedPaths: ["schema.sql"] })).toContain(
+      "is a protected path"
+    );
+    expect(write("bun.lock", { protectedPaths: ["schema.sql"] })).toContain(
+      "is a protected path"
+    );
+  });
+});
+
+describe("allowedPaths", () => {
+  test("exempts paths from every check", () => {
+    expect(write("bun.lock", { allowedPaths: ["bun.lock"] })).toBeNull();
+    expect(
+      write(join(outside, "x"), { allowedPaths: [`${outside}/**`] })
+    ).toBeNull();
+  });
+
+  test("a relative glob doesn't exempt a link leading outside", () => {
+    expect(write("escape/x", { allowedPaths: ["escape/**"] })).toContain(
+      "through a symlink"
+    );
+  });
+});
+
+describe("checkWrite", () => {
+  test("allows everything when disabled", () => {
+    expect(write("/etc/passwd", { enabled: false })).toBeNull();
+  });
+
+  test("ignores tools that don't write files", () => {
+    expect(
+      checkWrite("Read", { file_path: "/etc/passwd" }, project)
+    ).toBeNull();
+  });
+
+  test("reads NotebookEdit's path field", () => {
+    expect(writePathOf("NotebookEdit", { notebook_path: "a.ipynb" })).toBe(
+      "a.ipynb"
+    );
+    expect(writePathOf("Edit", { file_path: 1 })).toBeNull();
+  });
+});
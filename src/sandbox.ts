@@ -0,0 +1,280 @@
+/**
+ * WRITE SANDBOX
+ * ==============
+ * Built-in write boundary the PreToolUse hook applies to the file-editing
+ * tools (Write, Edit, MultiEdit, NotebookEdit), on top of the project's
+ * tool policy (see src/policy.ts).
+ *
+ * A write is denied when the file:
+ * - is outside the session's working directory
+ * - is inside it by name but a symlink on the way leads outside
+ * - matches a protected glob: lockfiles, migrations, `.env*`, CI configs,
+ *   generated code and `.git/` by default
+ *
+ * Paths are normalized before checking: relative paths are resolved against
+ * cwd, `..` segments are collapsed, and symlinks are followed (including a
+ * dangling link at the end, which Write would create the target of).
+ *
+ * Configure it with `writeSandbox` in `.tool-policy.json`:
+ * ```json
+ * {
+ *   "writeSandbox": {
+ *     "protectedPaths": ["schema.sql"],
+ *     "allowedPaths": ["/tmp/**", "db/migrations/pending/**"]
+ *   }
+ * }
+ * ```
+ * `protectedPaths` adds to the defaults; `allowedPaths` exempts paths from
+ * every check. `"writeSandbox": false` turns the sandbox off.
+ */
+
+import { readlinkSync, realpathSync } from "fs";
+import { homedir } from "os";
+import {
+  basename,
+  dirname,
+  isAbsolute,
+  join,
+  relative,
+  resolve,
+  sep,
+} from "path";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface WriteSandbox {
+  enabled: boolean;
+  /** Globs on top of DEFAULT_PROTECTED_PATHS */
+  protectedPaths: string[];
+  /** Globs exempt from every check */
+  allowedPaths: string[];
+}
+
+export interface SandboxViolation {
+  /** The path as the tool was given it */
+  path: string;
+  /** Why the write is refused, for the permission reason */
+  message: string;
+}
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+/**
+ * Tools that write files, and the input field holding the path.
+ */
+const WRITE_TOOLS: Record<string, string> = {
+  Write: "file_path",
+  Edit: "file_path",
+  MultiEdit: "file_path",
+  NotebookEdit: "notebook_path",
+};
+
+/**
+ * Files agents should leave to the tools and people that own them.
+ * Relative globs, matched against the path inside the project.
+ */
+export const DEFAULT_PROTECTED_PATHS = [
+  // Lockfiles: updated by the package manager
+  "**/package-lock.json",
+  "**/npm-shrinkwrap.json",
+  "**/yarn.lock",
+  "**/pnpm-lock.yaml",
+  "**/bun.lock",
+  "**/bun.lockb",
+  "**/Cargo.lock",
+  "**/go.sum",
+  "**/poetry.lock",
+  "**/uv.lock",
+  "**/Pipfile.lock",
+  "**/Gemfile.lock",
+  "**/composer.lock",
+  // Migrations: applied ones must not change
+  "**/migrations/**",
+  // Secrets
+  "**/.env",
+  "**/.env.*",
+  // CI configs
+  ".github/workflows/**",
+  ".gitlab-ci.yml",
+  ".circleci/**",
+  ".buildkite/**",
+  "azure-pipelines.yml",
+  "Jenkinsfile",
+  // Generated code
+  "**/__generated__/**",
+  "**/*.generated.*",
+  "**/*.pb.go",
+  "**/*_pb2.py",
+  // Git internals
+  ".git/**",
+];
+
+export const DEFAULT_WRITE_SANDBOX: WriteSandbox = {
+  enabled: true,
+  protectedPaths: [],
+  allowedPaths: [],
+};
+
+/**
+ * Links followed before giving up, as a guard against cycles.
+ */
+const MAX_LINKS = 40;
+
+// =============================================================================
+// PATH NORMALIZATION
+// =============================================================================
+
+function isInside(path: string, dir: string): boolean {
+  const rel = relative(dir, path);
+  return (
+    rel === "" ||
+    (rel !== ".." && !rel.startsWith(`..${sep}`) && !isAbsolute(rel))
+  );
+}
+
+/**
+ * Resolve every symlink in an absolute path, like realpath(3), except the
+ * path doesn't have to exist: missing trailing segments are kept as they
+ * are, and a dangling link is followed to where its target would be.
+ */
+export function resolveRealPath(path: string, links = 0): string {
+  try {
+    return realpathSync(path);
+  } catch {
+    // Missing, or a dangling link somewhere along the way
+  }
+
+  if (links < MAX_LINKS) {
+    try {
+      const target = readlinkSync(path);
+      return resolveRealPath(resolve(dirname(path), target), links + 1);
+    } catch {
+      // Not a link
+    }
+  }
+
+  const parent = dirname(path);
+  if (parent === path) {
+    return path;
+  }
+  return join(resolveRealPath(parent, links), basename(path));
+}
+
+function globMatch(pattern: string, value: string): boolean {
+  return new Bun.Glob(pattern).match(value);
+}
+
+/**
+ * Check a path against sandbox globs. Relative globs match inside the
+ * project; absolute and `~/` globs match the absolute path.
+ */
+function matchesAny(globs: string[], path: string, root: string): boolean {
+  return globs.some((pattern) => {
+    if (pattern.startsWith("~/")) {
+      return globMatch(join(homedir(), pattern.slice(2)), path);
+    }
+    if (isAbsolute(pattern)) {
+      return globMatch(pattern, path);
+    }
+    return isInside(path, root) && globMatch(pattern, relative(root, path));
+  });
+}
+
+// =============================================================================
+// CHECKING
+// =============================================================================
+
+/**
+ * The path a file-editing tool call writes to, or null for other tools.
+ */
+export function writePathOf(
+  toolName: string,
+  toolInput: unknown
+): string | null {
+  const field = WRITE_TOOLS[toolName];
+  if (!field || typeof toolInput !== "object" || toolInput === null) {
+    return null;
+  }
+  const path = (toolInput as Record<string, unknown>)[field];
+  return typeof path === "string" && path ? path : null;
+}
+
+/**
+ * Check a tool call against the write sandbox.
+ *
+ * @param toolName - The tool being called
+ * @param toolInput - Its input
+ * @param cwd - The session's working directory (the project root)
+ * @param sandbox - The sandbox settings from the tool policy
+ * @returns Why the write is refused, or null if it is allowed or the tool
+ *   doesn't write files
+ */
+export function checkWrite(
+  toolName: string,
+  toolInput: unknown,
+  cwd: string,
+  sandbox: WriteSandbox = DEFAULT_WRITE_SANDBOX
+): SandboxViolation | null {
+  const path = writePathOf(toolName, toolInput);
+  if (!sandbox.enabled || path === null) {
+    return null;
+  }
+
+  // The project as the session sees it, and with its own symlinks resolved
+  // (e.g. /tmp -> /private/tmp on macOS)
+  const root = resolve(cwd);
+  const realRoot = resolveRealPath(root);
+  const lexical = resolve(root, path);
+  const real = resolveRealPath(lexical);
+
+  // Compare the lexical path with whichever form of the root it was
+  // written against
+  const lexicalRoot = isInside(lexical, root) ? root : realRoot;
+  const candidates = [
+    { path: lexical, root: lexicalRoot },
+    { path: real, root: realRoot },
+  ];
+
+  // A symlink inside an allowed directory mustn't let writes escape, so
+  // relative allowed globs only match the real path. Absolute ones also
+  // match the path as given, for system links like /tmp.
+  const outsideGlobs = sandbox.allowedPaths.filter(
+    (g) => isAbsolute(g) || g.startsWith("~/")
+  );
+  if (
+    matchesAny(sandbox.allowedPaths, real, realRoot) ||
+    matchesAny(outsideGlobs, lexical, lexicalRoot)
+  ) {
+    return null;
+  }
+
+  if (!isInside(real, realRoot)) {
+    const message = isInside(lexical, lexicalRoot)
+      ? `${path} resolves to ${real} through a symlink, outside the project (${root})`
+      : `${path} is outside the project (${root})`;
+    return { path, message };
+  }
+
+  const protectedPaths = [
+    ...DEFAULT_PROTECTED_PATHS,
+    ...sandbox.protectedPaths,
+  ];
+  const hit = candidates.find((c) =>
+    matchesAny(protectedPaths, c.path, c.root)
+  );
+  if (hit) {
+    const shown = relative(hit.root, hit.path);
+    const via =
+      hit.path === real && real !== lexical ? ` (via symlink ${path})` : "";
+    return {
+      path,
+      message: `${shown}${via} is a protected path; add it to writeSandbox.allowedPaths in .tool-policy.json to allow edits`,
+    };
+  }
+
+  return null;
+}
@@ -0,0 +1,141 @@
+import { describe, expect, test } from "bun:test";
+import {
+  HookInputError,
+  HookOutputError,
+  parseHookInput,
+  serializeHookOutput,
+  validateHookInput,
+  validateHookOutput,
+} from "./schema";
+
+const BASE = {
+  session_id: "s1",
+  transcript_path: "/tmp/s1.jsonl",
+  cwd: "/repo",
+};
+
+const preToolUse = {
+  ...BASE,
+  hook_event_name: "PreToolUse",
+  tool_name: "Bash",
+  tool_input: { command: "ls" },
+  tool_use_id: "toolu_1",
+};
+
+describe("validateHookInput", () => {
+  test("accepts a valid input, with fields it doesn't know", () => {
+    expect(
+      validateHookInput("PreToolUse", { ...preToolUse, future_field: 1 })
+    ).toEqual([]);
+  });
+
+  test("names every missing or mistyped field", () => {
+    expect(
+      validateHookInput("SessionStart", {
+        ...BASE,
+        session_id: undefined,
+        hook_event_name: "SessionStart",
+        source: "fork",
+      })
+    ).toEqual([
+      "session_id: missing",
+      'source: expected one of "startup", "resume", "clear", "compact", got "fork"',
+    ]);
+  });
+
+  test("requires tool_input to be an object", () => {
+    for (const event of ["PreToolUse", "PostToolUse"] as const) {
+      const input = { ...preToolUse, hook_event_name: event, tool_response: 1 };
+      expect(validateHookInput(event, { ...input, tool_input: "ls" })).toEqual([
+        'tool_input: expected an object, got "ls"',
+      ]);
+      expect(validateHookInput(event, { ...input, tool_input: [] })).toEqual([
+        "tool_input: expected an object, got an array",
+      ]);
+      expect(validateHookInput(event, { ...input, tool_input: null })).toEqual([
+        "tool_input: expected an object, got null",
+      ]);
+    }
+  });
+
+  test("rejects an input for another event", () => {
+    expect(
+      validateHookInput("Stop", { ...BASE, hook_event_name: "SubagentStop" })
+    ).toContain('hook_event_name: expected "Stop", got "SubagentStop"');
+  });
+
+  test("rejects a root that isn't an object", () => {
+    expect(validateHookInput("Stop", [])).toEqual([
+      "expected a JSON object, got an array",
+    ]);
+  });
+});
+
+describe("validateHookOutput", () => {
+  test("accepts outputs the hooks write", () => {
+    expect(validateHookOutput("Stop", {})).toEqual([]);
+    expect(
+      validateHookOutput("PreToolUse", {
+        hookSpecificOutput: {
+          hookEventName: "PreToolUse",
+          permissionDecision: "deny",
+          permissionDecisionReason: "no",
+        },
+      })
+    ).toEqual([]);
+  });
+
+  test("rejects unknown fields", () => {
+    expect(validateHookOutput("Stop", { decison: "block" })).toEqual([
+      "decison: unknown field",
+    ]);
+  });
+
+  test("rejects hook-specific output for another event", () => {
+    expect(
+      validateHookOutput("PostToolUse", {
+        hookSpecificOutput: { hookEventName: "PreToolUse" },
+      })
+    ).toEqual([
+      'hookSpecificOutput.hookEventName: expected "PostToolUse", got "PreToolUse"',
+    ]);
+  });
+
+  test("requires a reason to block", () => {
+    expect(validateHookOutput("Stop", { decision: "block" })).toEqual([
+      'reason: required when decision is "block"',
+    ]);
+  });
+});
+
+describe("parseHookInput", () => {
+  test("returns the parsed input", () => {
+    expect(parseHookInput("PreToolUse", JSON.stringify(preToolUse))).toEqual(
+      preToolUse as never
+    );
+  });
+
+  test("throws HookInputError for bad JSON or a bad input", () => {
+    expect(() => parseHookInput("PreToolUse", "{")).toThrow(HookInputError);
+    expect(() =>
+      parseHookInput(
+        "PreToolUse",
+        JSON.stringify({ ...preToolUse, tool_input: "ls" })
+      )
+    ).toThrow("tool_input: expected an object");
+  });
+});
+
+describe("serializeHookOutput", () => {
+  test("leaves out undefined fields", () => {
+    expect(
+      serializeHookOutput("Stop", { decision: undefined, reason: undefined })
+    ).toBe("{}");
+  });
+
+  test("throws HookOutputError for an invalid output", () => {
+    expect(() =>
+      serializeHookOutput("Stop", { decision: "block" } as never)
+    ).toThrow(HookOutputError);
+  });
+});
@@ -0,0 +1,497 @@
+/**
+ * HOOK PAYLOAD SCHEMAS
+ * =====================
+ * Runtime schemas for what Claude Code sends a hook on stdin (each
+ * HookInput variant) and what a hook may write back (SyncHookJSONOutput),
+ * mirroring the types in @anthropic-ai/claude-agent-sdk.
+ *
+ * The hook runtime (src/hook.ts) checks every input before a handler sees
+ * it and every output before it's written, so a malformed payload fails
+ * with a message naming the field instead of crashing deep in a handler:
+ *
+ *   Invalid SessionStart hook input:
+ *     - source: expected one of "startup", "resume", "clear", "compact", got "fork"
+ *     - session_id: missing
+ *
+ * Inputs may have fields the schema doesn't list, since newer versions of
+ * Claude Code add them. Outputs may not: an unknown field is a typo Claude
+ * Code would silently ignore.
+ *
+ * Keep these in step with the SDK's types when upgrading it.
+ */
+
+import type {
+  HookInput,
+  SyncHookJSONOutput,
+} from "@anthropic-ai/claude-agent-sdk";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type HookEventName = HookInput["hook_event_name"];
+
+/**
+ * The input Claude Code sends for an event.
+ */
+export type HookInputFor<E extends HookEventName> = Extract<
+  HookInput,
+  { hook_event_name: E }
+>;
+
+export type Schema =
+  | { type: "string"; enum?: readonly string[] }
+  | { type: "boolean" }
+  | { type: "unknown" }
+  | { type: "array"; items: Schema }
+  | ObjectSchema
+  | TaggedSchema;
+
+export interface ObjectSchema {
+  type: "object";
+  /** Known fields; without them, any object matches */
+  fields?: Record<string, Field>;
+  /** Reject fields not in `fields` */
+  strict?: boolean;
+}
+
+/**
+ * One of several object shapes, picked by the value of its `tag` field.
+ */
+export interface TaggedSchema {
+  type: "tagged";
+  tag: string;
+  variants: Record<string, ObjectSchema>;
+}
+
+export type Field = Schema & { optional?: boolean; nullable?: boolean };
+
+/**
+ * A hook's input is not JSON, or doesn't match the event's schema.
+ */
+export class HookInputError extends Error {
+  constructor(
+    public readonly event: HookEventName,
+    public readonly problems: string[]
+  ) {
+    super(
+      `Invalid ${event} hook input:\n${problems
+        .map((p) => `  - ${p}`)
+        .join("\n")}`
+    );
+    this.name = "HookInputError";
+  }
+}
+
+/**
+ * A hook's output doesn't match the output schema for its event.
+ */
+export class HookOutputError extends Error {
+  constructor(
+    public readonly event: HookEventName,
+    public readonly problems: string[]
+  ) {
+    super(
+      `Invalid ${event} hook output:\n${problems
+        .map((p) => `  - ${p}`)
+        .join("\n")}`
+    );
+    this.name = "HookOutputError";
+  }
+}
+
+// =============================================================================
+// SCHEMAS
+// =============================================================================
+
+const STRING: Schema = { type: "string" };
+const BOOLEAN: Schema = { type: "boolean" };
+const UNKNOWN: Schema = { type: "unknown" };
+const OBJECT: Schema = { type: "object" };
+
+function oneOf(...values: string[]): Schema {
+  return { type: "string", enum: values };
+}
+
+function optional(schema: Schema): Field {
+  return { ...schema, optional: true };
+}
+
+function object(fields: Record<string, Field>, strict = false): ObjectSchema {
+  return { type: "object", fields, strict };
+}
+
+/**
+ * An input: the fields every event has, and the event's own.
+ */
+function input(
+  event: HookEventName,
+  fields: Record<string, Field>
+): ObjectSchema {
+  return object({
+    hook_event_name: oneOf(event),
+    session_id: STRING,
+    transcript_path: STRING,
+    cwd: STRING,
+    permission_mode: optional(STRING),
+    ...fields,
+  });
+}
+
+/**
+ * A hookSpecificOutput that can only add context.
+ */
+function contextOutput(event: HookEventName): ObjectSchema {
+  return object(
+    { hookEventName: oneOf(event), additionalContext: optional(STRING) },
+    true
+  );
+}
+
+export const HOOK_INPUT_SCHEMAS: Record<HookEventName, ObjectSchema> = {
+  PreToolUse: input("PreToolUse", {
+    tool_name: STRING,
+    tool_input: OBJECT,
+    tool_use_id: STRING,
+  }),
+  PostToolUse: input("PostToolUse", {
+    tool_name: STRING,
+    tool_input: OBJECT,
+    tool_response: UNKNOWN,
+    tool_use_id: STRING,
+  }),
+  PostToolUseFailure: input("PostToolUseFailure", {
+    tool_name: STRING,
+    tool_input: UNKNOWN,
+    tool_use_id: STRING,
+    error: STRING,
+    is_interrupt: optional(BOOLEAN),
+  }),
+  Notification: input("Notification", {
+    message: STRING,
+    title: optional(STRING),
+    notification_type: STRING,
+  }),
+  UserPromptSubmit: input("UserPromptSubmit", { prompt: STRING }),
+  SessionStart: input("SessionStart", {
+    source: oneOf("startup", "resume", "clear", "compact"),
+    agent_type: optional(STRING),
+  }),
+  SessionEnd: input("SessionEnd", {
+    reason: oneOf(
+      "clear",
+      "logout",
+      "prompt_input_exit",
+      "other",
+      "bypass_permissions_disabled"
+    ),
+  }),
+  Stop: input("Stop", { stop_hook_active: BOOLEAN }),
+  SubagentStart: input("SubagentStart", {
+    agent_id: STRING,
+    agent_type: STRING,
+  }),
+  SubagentStop: input("SubagentStop", {
+    stop_hook_active: BOOLEAN,
+    agent_id: STRING,
+    agent_transcript_path: STRING,
+  }),
+  PreCompact: input("PreCompact", {
+    trigger: oneOf("manual", "auto"),
+    custom_instructions: { ...STRING, nullable: true },
+  }),
+  PermissionRequest: input("PermissionRequest", {
+    tool_name: STRING,
+    tool_input: UNKNOWN,
+    permission_suggestions: optional({ type: "array", items: OBJECT }),
+  }),
+};
+
+const HOOK_SPECIFIC_OUTPUT_SCHEMA: TaggedSchema = {
+  type: "tagged",
+  tag: "hookEventName",
+  variants: {
+    PreToolUse: object(
+      {
+        hookEventName: oneOf("PreToolUse"),
+        permissionDecision: optional(oneOf("allow", "deny", "ask")),
+        permissionDecisionReason: optional(STRING),
+        updatedInput: optional(OBJECT),
+      },
+      true
+    ),
+    PostToolUse: object(
+      {
+        hookEventName: oneOf("PostToolUse"),
+        additionalContext: optional(STRING),
+        updatedMCPToolOutput: optional(UNKNOWN),
+      },
+      true
+    ),
+    PostToolUseFailure: contextOutput("PostToolUseFailure"),
+    UserPromptSubmit: contextOutput("UserPromptSubmit"),
+    SessionStart: contextOutput("SessionStart"),
+    SubagentStart: contextOutput("SubagentStart"),
+    PermissionRequest: object(
+      {
+        hookEventName: oneOf("PermissionRequest"),
+        decision: {
+          type: "tagged",
+          tag: "behavior",
+          variants: {
+            allow: object(
+              {
+                behavior: oneOf("allow"),
+                updatedInput: optional(OBJECT),
+                updatedPermissions: optional({ type: "array", items: OBJECT }),
+              },
+              true
+            ),
+            deny: object(
+              {
+                behavior: oneOf("deny"),
+                message: optional(STRING),
+                interrupt: optional(BOOLEAN),
+              },
+              true
+            ),
+          },
+        },
+      },
+      true
+    ),
+  },
+};
+
+export const HOOK_OUTPUT_SCHEMA: ObjectSchema = object(
+  {
+    continue: optional(BOOLEAN),
+    suppressOutput: optional(BOOLEAN),
+    stopReason: optional(STRING),
+    decision: optional(oneOf("approve", "block")),
+    systemMessage: optional(STRING),
+    reason: optional(STRING),
+    hookSpecificOutput: optional(HOOK_SPECIFIC_OUTPUT_SCHEMA),
+  },
+  true
+);
+
+// =============================================================================
+// VALIDATION
+// =============================================================================
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Describe a value for an error message.
+ */
+function describeValue(value: unknown): string {
+  if (value === null || value === undefined) return String(value);
+  if (Array.isArray(value)) return "an array";
+  if (typeof value === "object") return "an object";
+  if (typeof value === "string") {
+    return JSON.stringify(value.length > 40 ? `${value.slice(0, 40)}…` : value);
+  }
+  return `${typeof value} ${String(value)}`;
+}
+
+function checkObject(
+  schema: ObjectSchema,
+  value: unknown,
+  path: string,
+  problems: string[]
+): void {
+  if (!isPlainObject(value)) {
+    problems.push(
+      path
+        ? `${path}: expected an object, got ${describeValue(value)}`
+        : `expected a JSON object, got ${describeValue(value)}`
+    );
+    return;
+  }
+  const prefix = path ? `${path}.` : "";
+  for (const [name, field] of Object.entries(schema.fields ?? {})) {
+    if (value[name] === undefined) {
+      if (!field.optional) problems.push(`${prefix}${name}: missing`);
+      continue;
+    }
+    checkValue(field, value[name], `${prefix}${name}`, problems);
+  }
+  if (schema.strict && schema.fields) {
+    for (const name of Object.keys(value)) {
+      if (!(name in schema.fields)) {
+        problems.push(`${prefix}${name}: unknown field`);
+      }
+    }
+  }
+}
+
+/**
+ * Check a value against a schema, adding a problem for each mismatch.
+ */
+function checkValue(
+  schema: Field,
+  value: unknown,
+  path: string,
+  problems: string[]
+): void {
+  if (value === null && schema.nullable) {
+    return;
+  }
+  const mismatch = (expected: string) =>
+    problems.push(`${path}: expected ${expected}, got ${describeValue(value)}`);
+
+  switch (schema.type) {
+    case "unknown":
+      return;
+    case "string":
+      if (typeof value !== "string") {
+        mismatch("a string");
+      } else if (schema.enum && !schema.enum.includes(value)) {
+        mismatch(
+          `${schema.enum.length > 1 ? "one of " : ""}${schema.enum
+            .map((v) => JSON.stringify(v))
+            .join(", ")}`
+        );
+      }
+      return;
+    case "boolean":
+      if (typeof value !== "boolean") mismatch("a boolean");
+      return;
+    case "array":
+      if (!Array.isArray(value)) {
+        mismatch("an array");
+        return;
+      }
+      value.forEach((item, i) =>
+        checkValue(schema.items, item, `${path}[${i}]`, problems)
+      );
+      return;
+    case "object":
+      checkObject(schema, value, path, problems);
+      return;
+    case "tagged": {
+      if (!isPlainObject(value)) {
+        mismatch("an object");
+        return;
+      }
+      const tag = value[schema.tag];
+      const variant =
+        typeof tag === "string" && Object.hasOwn(schema.variants, tag)
+          ? schema.variants[tag]
+          : undefined;
+      if (!variant) {
+        checkValue(
+          oneOf(...Object.keys(schema.variants)),
+          tag,
+          `${path}.${schema.tag}`,
+          problems
+        );
+        return;
+      }
+      checkObject(variant, value, path, problems);
+      return;
+    }
+  }
+}
+
+/**
+ * Check a hook input against its event's schema.
+ *
+ * @returns The problems found (empty if valid)
+ */
+export function validateHookInput(
+  event: HookEventName,
+  value: unknown
+): string[] {
+  const problems: string[] = [];
+  checkObject(HOOK_INPUT_SCHEMAS[event], value, "", problems);
+  return problems;
+}
+
+/**
+ * Check a hook output against the output schema, and that it suits the
+ * event.
+ *
+ * @returns The problems found (empty if valid)
+ */
+export function validateHookOutput(
+  event: HookEventName,
+  value: unknown
+): string[] {
+  const problems: string[] = [];
+  checkObject(HOOK_OUTPUT_SCHEMA, value, "", problems);
+  if (problems.length > 0 || !isPlainObject(value)) {
+    return problems;
+  }
+
+  const output = value as SyncHookJSONOutput;
+  const specific = output.hookSpecificOutput;
+  if (specific && specific.hookEventName !== event) {
+    problems.push(
+      `hookSpecificOutput.hookEventName: expected "${event}", got "${specific.hookEventName}"`
+    );
+  }
+  if (output.decision === "block" && !output.reason) {
+    problems.push(`reason: required when decision is "block"`);
+  }
+  return problems;
+}
+
+// =============================================================================
+// PARSING
+// =============================================================================
+
+/**
+ * Parse a hook's stdin and check it is the event's input.
+ *
+ * @throws HookInputError if it isn't
+ */
+export function parseHookInput<E extends HookEventName>(
+  event: E,
+  text: string
+): HookInputFor<E> {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new HookInputError(event, [
+      `not valid JSON: ${(error as Error).message}`,
+    ]);
+  }
+  const problems = validateHookInput(event, data);
+  if (problems.length > 0) {
+    throw new HookInputError(event, problems);
+  }
+  return data as HookInputFor<E>;
+}
+
+/**
+ * Serialize a hook's output, checking it against the output schema as it
+ * will be written (fields set to undefined are left out).
+ *
+ * @throws HookOutputError if it doesn't match
+ */
+export function serializeHookOutput(
+  event: HookEventName,
+  output: SyncHookJSONOutput
+): string {
+  let serialized: string | undefined;
+  try {
+    serialized = JSON.stringify(output);
+  } catch (error) {
+    throw new HookOutputError(event, [
+      `not serializable: ${(error as Error).message}`,
+    ]);
+  }
+  const problems = validateHookOutput(
+    event,
+    serialized === undefined ? undefined : JSON.parse(serialized)
+  );
+  if (problems.length > 0) {
+    throw new HookOutputError(event, problems);
+  }
+  return serialized!;
+}
@@ -0,0 +1,223 @@
+import { describe, expect, test } from "bun:test";
+import {
+  DEFAULT_SECRET_SETTINGS,
+  fingerprint,
+  redactSecrets,
+  scanText,
+  scanToolOutput,
+  scanToolWrite,
+  secretRuleIds,
+  type SecretSettings,
+} from "./secrets";
+
+// Samples are put together at runtime so the file itself holds no
+// token-shaped strings
+const AWS_KEY_ID = "AKIA" + "Q3EGRT7KZ2M4XW5N";
+const AWS_SECRET = "wJalrXUtnFEMI/K7MDENG/" + "bPxRfiCYzQ8pLk2vN4";
+const GITHUB_TOKEN = "ghp_" + "x7Kp2mQ9vL4tR8wZ3nB6cF1hJ5dG0sYaE2uT";
+const PRIVATE_KEY = [
+  "-----BEGIN RSA " + "PRIVATE KEY-----",
+  "MIIEowIBAAKCAQEAu1SU1LfVLPHCozMxH2Mo4lgOEePzNm0tRgeLezV6ffAt0gun",
+  "-----END RSA " + "PRIVATE KEY-----",
+].join("\n");
+const SLACK_TOKEN = "xoxb-" + "2648193057-Zq8WvR3kLm7T";
+const STRIPE_KEY = "sk_live_" + "4eC39HqLyjWDarjtT1zdp7dc";
+const GENERIC = "q8Zr2LmX9vT4kP1w";
+
+function rulesFound(text: string, settings?: SecretSettings): string[] {
+  return scanText(text, settings).map((f) => f.rule);
+}
+
+describe("built-in rules", () => {
+  // Rule, text with a secret, similar text without one
+  const cases: [string, string, string][] = [
+    [
+      "aws-access-key-id",
+      `key_id = ${AWS_KEY_ID}`,
+      "AKIA is a prefix, AKIAEXAMPLE is too short",
+    ],
+    [
+      "aws-secret-access-key",
+      `aws_secret_access_key = ${AWS_SECRET}`,
+      `aws_secret_access_key = ${"A".repeat(40)}`,
+    ],
+    ["github-token", `GH=${GITHUB_TOKEN}`, "ghp_tooShort123"],
+    ["private-key", PRIVATE_KEY, "-----BEGIN PUBLIC KEY-----"],
+    ["slack-token", `SLACK=${SLACK_TOKEN}`, "xoxb-short"],
+    ["stripe-live-key", STRIPE_KEY, "sk_test_" + "4eC39HqLyjWDarjtT1zdp7dc"],
+    [
+      "generic-secret",
+      `api_key = "${GENERIC}"`,
+      `api_key = "${GENERIC.slice(0, 8)}"`,
+    ],
+  ];
+
+  test("covers every rule", () => {
+    expect(cases.map(([rule]) => rule).sort()).toEqual(secretRuleIds().sort());
+  });
+
+  for (const [rule, positive, negative] of cases) {
+    test(rule, () => {
+      expect(rulesFound(positive)).toEqual([rule]);
+      expect(rulesFound(negative)).toEqual([]);
+    });
+  }
+
+  test("a key id on its own is found once, with its line", () => {
+    expect(scanText(`first\nsecond ${AWS_KEY_ID}\n`)).toEqual([
+      {
+        rule: "aws-access-key-id",
+        description: "AWS access key id",
+        fingerprint: fingerprint(AWS_KEY_ID),
+        line: 2,
+        preview: "AKIA********",
+      },
+    ]);
+  });
+});
+
+describe("generic-secret", () => {
+  test("needs the value to reach the entropy threshold", () => {
+    // Long enough and with a digit, but too repetitive
+    expect(rulesFound('password = "abc123abc123abc123"')).toEqual([]);
+    expect(rulesFound('password = "Xk9#mPq2$vLr7!"')).toEqual([
+      "generic-secret",
+    ]);
+  });
+
+  test("ignores code and references to a secret", () => {
+    expect(rulesFound("const token = this.auth.currentToken;")).toEqual([]);
+    expect(rulesFound("password = process.env.DB_PASSWORD_2")).toEqual([]);
+    expect(rulesFound('apiKey: "${API_KEY_1}"')).toEqual([]);
+    expect(rulesFound("secret=<your-secret-123>")).toEqual([]);
+  });
+
+  test("flags random-looking values that aren't secrets", () => {
+    // A content hash is a false positive the allowlist is for
+    const text =
+      'tokenizerIntegrity = "sha256-47DEQpj8HBSa+/TImW+5JCeuQeRkm5NMpJWZG3hSuFU="';
+    const [finding] = scanText(text);
+    expect(finding?.rule).toBe("generic-secret");
+
+    const settings = {
+      ...DEFAULT_SECRET_SETTINGS,
+      allowlist: [finding!.fingerprint],
+    };
+    expect(scanText(text, settings)).toEqual([]);
+  });
+});
+
+describe("settings", () => {
+  test("the allowlist only silences the listed secret", () => {
+    const settings = {
+      ...DEFAULT_SECRET_SETTINGS,
+      allowlist: [fingerprint(GITHUB_TOKEN)],
+    };
+    expect(rulesFound(`${GITHUB_TOKEN}\n${STRIPE_KEY}`, settings)).toEqual([
+      "stripe-live-key",
+    ]);
+  });
+
+  test("disabled turns built-in rules off", () => {
+    const settings = {
+      ...DEFAULT_SECRET_SETTINGS,
+      disabled: ["generic-secret", "slack-token"],
+    };
+    const text = `api_key = "${GENERIC}"\n${SLACK_TOKEN}\n${STRIPE_KEY}`;
+    expect(rulesFound(text, settings)).toEqual(["stripe-live-key"]);
+  });
+
+  test("patterns add project rules", () => {
+    const settings = {
+      ...DEFAULT_SECRET_SETTINGS,
+      patterns: [
+        {
+          id: "internal-token",
+          description: "internal token",
+          pattern: /\bitk_([a-z0-9]{32})\b/g,
+        },
+      ],
+    };
+    const token = "itk_" + "0123456789abcdef".repeat(2);
+    expect(scanText(`INTERNAL=${token}`, settings)).toMatchObject([
+      { rule: "internal-token", fingerprint: fingerprint(token.slice(4)) },
+    ]);
+    expect(rulesFound(`INTERNAL=${token}`)).toEqual([]);
+  });
+});
+
+describe("scanToolWrite", () => {
+  test("scans what each editing tool adds", () => {
+    const content = `export const key = "${STRIPE_KEY}";`;
+    expect(scanToolWrite("Write", { content })).toHaveLength(1);
+    expect(
+      scanToolWrite("Edit", { old_string: "x", new_string: content })
+    ).toHaveLength(1);
+    expect(
+      scanToolWrite("MultiEdit", {
+        edits: [{ old_string: "a", new_string: "b" }, { new_string: content }],
+      })
+    ).toHaveLength(1);
+    expect(scanToolWrite("NotebookEdit", { new_source: content })).toHaveLength(
+      1
+    );
+    expect(scanToolWrite("Bash", { command: content })).toEqual([]);
+  });
+
+  test("doesn't count secrets the edit keeps", () => {
+    const line = `const key = "${STRIPE_KEY}";`;
+    expect(
+      scanToolWrite("Edit", {
+        old_string: line,
+        new_string: `${line}\n// used for billing`,
+      })
+    ).toEqual([]);
+  });
+
+  test("is off with onWrite off", () => {
+    const settings = { ...DEFAULT_SECRET_SETTINGS, onWrite: "off" as const };
+    expect(scanToolWrite("Write", { content: STRIPE_KEY }, settings)).toEqual(
+      []
+    );
+  });
+});
+
+describe("tool output", () => {
+  // The shape MCP tools respond with
+  const response = {
+    content: [
+      { type: "text", text: `Found credentials: ${GITHUB_TOKEN}` },
+      { type: "text", text: `again ${GITHUB_TOKEN} and ${AWS_KEY_ID}` },
+    ],
+    isError: false,
+  };
+
+  test("scanToolOutput finds each secret once", () => {
+    expect(scanToolOutput(response).map((f) => f.rule)).toEqual([
+      "github-token",
+      "aws-access-key-id",
+    ]);
+    expect(
+      scanToolOutput(response, { ...DEFAULT_SECRET_SETTINGS, onOutput: "off" })
+    ).toEqual([]);
+  });
+
+  test("redactSecrets keeps the response's shape", () => {
+    expect(redactSecrets(response)).toEqual({
+      content: [
+        { type: "text", text: "Found credentials: [REDACTED github-token]" },
+        {
+          type: "text",
+          text: "again [REDACTED github-token] and [REDACTED aws-access-key-id]",
+        },
+      ],
+      isError: false,
+    });
+  });
+
+  test("redactSecrets replaces a private key whole", () => {
+    expect(redactSecrets(`key:\n${PRIVATE_KEY}\nend`)).toBe(
+      "key:\n[REDACTED private-key]\nend"
+    );
+  });
+});
@@ -0,0 +1,369 @@
+/**
+ * SECRET SCANNING
+ * ================
+ * Finds credentials in content Claude writes and in tool output it reads.
+ *
+ * - PreToolUse scans what Write, Edit, MultiEdit and NotebookEdit would
+ *   add to a file and denies (or asks about) the write.
+ * - PostToolUse scans tool output. For Bash, Read and other built-in tools
+ *   it warns Claude through `additionalContext`; for MCP tools it can also
+ *   redact the output through `updatedMCPToolOutput`.
+ *
+ * Built-in rules:
+ * - aws-access-key-id: AKIA/ASIA key ids
+ * - aws-secret-access-key: 40-character secrets next to "aws" and "secret"
+ * - github-token: ghp_/gho_/ghu_/ghs_/ghr_ and github_pat_ tokens
+ * - private-key: PEM private keys
+ * - slack-token: xoxb-/xoxp-/... tokens
+ * - stripe-live-key: sk_live_/rk_live_ keys
+ * - generic-secret: high-entropy values with a digit in them, assigned to
+ *   something named password, secret, token or api key
+ *
+ * Configure it with `secrets` in `.tool-policy.json`:
+ * ```json
+ * {
+ *   "secrets": {
+ *     "onWrite": "ask",
+ *     "onOutput": "warn",
+ *     "rules": { "generic-secret": false },
+ *     "patterns": [{ "id": "internal-token", "pattern": "itk_[a-z0-9]{32}" }],
+ *     "allowlist": ["5f0c2a7e9b1d4c36"]
+ *   }
+ * }
+ * ```
+ * Every finding has a fingerprint (a hash of the secret, never the secret
+ * itself); add it to `allowlist` to silence a known false positive.
+ */
+
+import type { PolicyDecision } from "./policy";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface SecretRule {
+  id: string;
+  /** What was found, for messages ("GitHub token") */
+  description: string;
+  /**
+   * Global pattern for the secret. If it has a capture group, group 1 is
+   * the secret and the rest is context.
+   */
+  pattern: RegExp;
+  /** Minimum Shannon entropy (bits per character) of the secret */
+  minEntropy?: number;
+}
+
+export interface SecretFinding {
+  rule: string;
+  description: string;
+  /** Hash of the secret, for allowlisting */
+  fingerprint: string;
+  /** 1-based line of the text the secret is on */
+  line: number;
+  /** The secret with all but its first characters masked */
+  preview: string;
+}
+
+/**
+ * What to do about output secrets: "redact" redacts MCP tool output and
+ * warns about the rest, "warn" only warns.
+ */
+export type OutputSecretAction = "redact" | "warn" | "off";
+
+export interface SecretSettings {
+  /** Decision for writes that add a secret */
+  onWrite: PolicyDecision | "off";
+  onOutput: OutputSecretAction;
+  /** Built-in rules turned off by id */
+  disabled: string[];
+  /** Project-specific rules on top of the built-in ones */
+  patterns: SecretRule[];
+  /** Fingerprints of known false positives */
+  allowlist: string[];
+}
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+export const DEFAULT_SECRET_SETTINGS: SecretSettings = {
+  onWrite: "deny",
+  onOutput: "redact",
+  disabled: [],
+  patterns: [],
+  allowlist: [],
+};
+
+const BUILT_IN_RULES: SecretRule[] = [
+  {
+    id: "aws-access-key-id",
+    description: "AWS access key id",
+    pattern: /\b((?:AKIA|ASIA)[0-9A-Z]{16})\b/g,
+  },
+  {
+    id: "aws-secret-access-key",
+    description: "AWS secret access key",
+    pattern:
+      /aws.{0,20}?secret.{0,20}?["'=:\s]\s*["']?([A-Za-z0-9/+]{40})(?![A-Za-z0-9/+])/gi,
+    minEntropy: 4,
+  },
+  {
+    id: "github-token",
+    description: "GitHub token",
+    pattern: /\b((?:ghp|gho|ghu|ghs|ghr)_[A-Za-z0-9]{36}|github_pat_\w{82})\b/g,
+  },
+  {
+    id: "private-key",
+    description: "private key",
+    // The whole block if it's all there, so each key has its own fingerprint
+    pattern:
+      /(-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----(?:[\s\S]*?-----END (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----)?)/g,
+  },
+  {
+    id: "slack-token",
+    description: "Slack token",
+    pattern: /\b(xox[abposr]-[A-Za-z0-9-]{10,})/g,
+  },
+  {
+    id: "stripe-live-key",
+    description: "Stripe live key",
+    pattern: /\b((?:sk|rk)_live_[A-Za-z0-9]{24,})/g,
+  },
+  {
+    id: "generic-secret",
+    description: "high-entropy secret",
+    // The digit keeps out code like `token = this.auth.currentToken`
+    pattern:
+      /(?:password|passwd|pwd|secret|token|api[_-]?key|access[_-]?key)[\w-]*["']?\s*(?:[:=]|=>)\s*["'`]?((?=[^\s"'`,;()]*\d)[^\s"'`,;()]{12,})/gi,
+    minEntropy: 3.5,
+  },
+];
+
+/**
+ * Values assigned to a secret-looking name that are references to a
+ * secret rather than the secret itself.
+ */
+const REFERENCE =
+  /^(process\.env|import\.meta\.env|os\.environ|getenv|\$|<|\{)/;
+
+/**
+ * Ids of the built-in rules, for validating settings.
+ */
+export function secretRuleIds(): string[] {
+  return BUILT_IN_RULES.map((r) => r.id);
+}
+
+// =============================================================================
+// DETECTION
+// =============================================================================
+
+function entropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const ch of value) counts.set(ch, (counts.get(ch) ?? 0) + 1);
+  let bits = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    bits -= p * Math.log2(p);
+  }
+  return bits;
+}
+
+/**
+ * Stable, non-reversible id for a secret value.
+ */
+export function fingerprint(secret: string): string {
+  return new Bun.CryptoHasher("sha256")
+    .update(secret)
+    .digest("hex")
+    .slice(0, 16);
+}
+
+function preview(secret: string): string {
+  return `${secret.slice(0, 4)}${"*".repeat(Math.min(secret.length - 4, 8))}`;
+}
+
+function activeRules(settings: SecretSettings): SecretRule[] {
+  return [
+    ...BUILT_IN_RULES.filter((r) => !settings.disabled.includes(r.id)),
+    ...settings.patterns,
+  ];
+}
+
+/**
+ * Find every distinct secret in a text, along with the secret itself.
+ */
+function matchSecrets(
+  text: string,
+  settings: SecretSettings
+): (SecretFinding & { secret: string })[] {
+  const matches: (SecretFinding & { secret: string })[] = [];
+  const seen = new Set<string>();
+
+  for (const rule of activeRules(settings)) {
+    for (const m of text.matchAll(rule.pattern)) {
+      const secret = m[1] ?? m[0];
+      if (!secret || REFERENCE.test(secret)) continue;
+      if (rule.minEntropy !== undefined && entropy(secret) < rule.minEntropy) {
+        continue;
+      }
+      const id = fingerprint(secret);
+      if (settings.allowlist.includes(id) || seen.has(id)) continue;
+      seen.add(id);
+
+      const index = m.index! + m[0].lastIndexOf(secret);
+      matches.push({
+        rule: rule.id,
+        description: rule.description,
+        fingerprint: id,
+        line: text.slice(0, index).split("\n").length,
+        preview: preview(secret),
+        secret,
+      });
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Scan text for secrets.
+ *
+ * @returns One finding per distinct secret, allowlisted ones excluded
+ */
+export function scanText(
+  text: string,
+  settings: SecretSettings = DEFAULT_SECRET_SETTINGS
+): SecretFinding[] {
+  return matchSecrets(text, settings).map(({ secret, ...finding }) => finding);
+}
+
+// =============================================================================
+// TOOL CALLS
+// =============================================================================
+
+/**
+ * The text a file-editing tool call adds, paired with the text it
+ * replaces (secrets already in the file aren't new).
+ */
+function addedText(
+  toolName: string,
+  input: Record<string, unknown>
+): { added: string; removed: string } | null {
+  const str = (value: unknown) => (typeof value === "string" ? value : "");
+  switch (toolName) {
+    case "Write":
+      return { added: str(input.content), removed: "" };
+    case "Edit":
+      return { added: str(input.new_string), removed: str(input.old_string) };
+    case "MultiEdit": {
+      const edits = Array.isArray(input.edits) ? input.edits : [];
+      return {
+        added: edits.map((e) => str(e?.new_string)).join("\n"),
+        removed: edits.map((e) => str(e?.old_string)).join("\n"),
+      };
+    }
+    case "NotebookEdit":
+      return { added: str(input.new_source), removed: "" };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Scan what a file-editing tool call would write.
+ *
+ * @returns Secrets the call adds; empty for other tools or when scanning
+ *   writes is off
+ */
+export function scanToolWrite(
+  toolName: string,
+  toolInput: unknown,
+  settings: SecretSettings = DEFAULT_SECRET_SETTINGS
+): SecretFinding[] {
+  if (
+    settings.onWrite === "off" ||
+    typeof toolInput !== "object" ||
+    toolInput === null
+  ) {
+    return [];
+  }
+  const text = addedText(toolName, toolInput as Record<string, unknown>);
+  if (!text) {
+    return [];
+  }
+  const existing = new Set(
+    scanText(text.removed, settings).map((f) => f.fingerprint)
+  );
+  return scanText(text.added, settings).filter(
+    (f) => !existing.has(f.fingerprint)
+  );
+}
+
+/**
+ * Every string in a tool response, however deeply nested.
+ */
+function stringsIn(value: unknown): string[] {
+  if (typeof value === "string") return [value];
+  if (Array.isArray(value)) return value.flatMap(stringsIn);
+  if (typeof value === "object" && value !== null) {
+    return Object.values(value).flatMap(stringsIn);
+  }
+  return [];
+}
+
+/**
+ * Scan a tool's output for secrets.
+ */
+export function scanToolOutput(
+  toolResponse: unknown,
+  settings: SecretSettings = DEFAULT_SECRET_SETTINGS
+): SecretFinding[] {
+  if (settings.onOutput === "off") {
+    return [];
+  }
+  const seen = new Set<string>();
+  return stringsIn(toolResponse)
+    .flatMap((text) => scanText(text, settings))
+    .filter((f) => !seen.has(f.fingerprint) && seen.add(f.fingerprint));
+}
+
+/**
+ * Copy a tool response with every secret replaced by
+ * `[REDACTED <rule>]`, keeping its shape.
+ */
+export function redactSecrets(
+  value: unknown,
+  settings: SecretSettings = DEFAULT_SECRET_SETTINGS
+): unknown {
+  if (typeof value === "string") {
+    // Longest first, so a secret containing another is replaced whole
+    return matchSecrets(value, settings)
+      .sort((a, b) => b.secret.length - a.secret.length)
+      .reduce(
+        (result, m) => result.replaceAll(m.secret, `[REDACTED ${m.rule}]`),
+        value
+      );
+  }
+  if (Array.isArray(value)) {
+    return value.map((v) => redactSecrets(v, settings));
+  }
+  if (typeof value === "object" && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [k, redactSecrets(v, settings)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Describe findings for a permission reason or warning, one per line.
+ */
+export function describeFindings(findings: SecretFinding[]): string {
+  return findings
+    .map(
+      (f) =>
+        `- ${f.description} (${f.rule}) on line ${f.line}: ${f.preview}, fingerprint ${f.fingerprint}`
+    )
+    .join("\n");
+}
@@ -0,0 +1,242 @@
+import { describe, expect, test } from "bun:test";
+import {
+  commandName,
+  parseShellCommand,
+  pipelineOf,
+  writeTargets,
+  type SimpleCommand,
+} from "./shell";
+
+function argvs(command: string): string[][] {
+  return parseShellCommand(command).map((c) => c.argv);
+}
+
+function find(commands: SimpleCommand[], name: string): SimpleCommand {
+  const command = commands.find((c) => commandName(c) === name);
+  if (!command) throw new Error(`no ${name} command`);
+  return command;
+}
+
+describe("quoting", () => {
+  test("removes quotes and escapes from words", () => {
+    for (const command of [
+      "rm -rf /",
+      "\"rm\" -r'f' /",
+      "r\\m -rf /",
+      "$'rm' -rf /",
+      "'rm' \"-rf\" '/'",
+    ]) {
+      expect(argvs(command)).toEqual([["rm", "-rf", "/"]]);
+    }
+  });
+
+  test("keeps operators inside quotes as text", () => {
+    expect(argvs("echo 'a && b' \"c | d\"")).toEqual([
+      ["echo", "a && b", "c | d"],
+    ]);
+  });
+
+  test("skips comments", () => {
+    expect(argvs("make # rm -rf /")).toEqual([["make"]]);
+  });
+
+  test("leaves variables unexpanded", () => {
+    expect(argvs('rm -rf "$HOME"')).toEqual([["rm", "-rf", "$HOME"]]);
+  });
+});
+
+describe("lists and pipelines", () => {
+  test("splits a list into its commands", () => {
+    expect(argvs("cd / && rm -rf . ; echo done || true &")).toEqual([
+      ["cd", "/"],
+      ["rm", "-rf", "."],
+      ["echo", "done"],
+      ["true"],
+    ]);
+    expect(argvs("cd /\nrm -rf .")).toEqual([
+      ["cd", "/"],
+      ["rm", "-rf", "."],
+    ]);
+  });
+
+  test("puts piped commands in one pipeline, in order", () => {
+    const commands = parseShellCommand("cd /tmp; curl -s x | sh |& tee log");
+    const sh = find(commands, "sh");
+    expect(pipelineOf(commands, sh).map(commandName)).toEqual([
+      "curl",
+      "sh",
+      "tee",
+    ]);
+    expect(sh.position).toBe(1);
+    expect(find(commands, "cd").pipeline).not.toBe(sh.pipeline);
+  });
+
+  test("finds commands in subshells and groups", () => {
+    expect(argvs("(cd /tmp; rm x) && { echo a; }")).toEqual([
+      ["cd", "/tmp"],
+      ["rm", "x"],
+      ["echo", "a"],
+    ]);
+  });
+
+  test("separates leading assignments", () => {
+    const [make] = parseShellCommand("FOO=1 BAR='a b' make test");
+    expect(make).toMatchObject({
+      argv: ["make", "test"],
+      assignments: ["FOO=1", "BAR=a b"],
+    });
+    // A quoted name makes the word a command, as in bash
+    expect(argvs('"FOO"=1 make')).toEqual([["FOO=1", "make"]]);
+  });
+});
+
+describe("nested commands", () => {
+  test("parses bash -c strings", () => {
+    for (const command of [
+      "bash -c 'rm -rf /'",
+      "sh -ec 'rm -rf /'",
+      "/bin/bash -c -- 'rm -rf /'",
+    ]) {
+      const commands = parseShellCommand(command);
+      const rm = find(commands, "rm");
+      expect(rm.argv).toEqual(["rm", "-rf", "/"]);
+      expect(rm.parent).toBe(commands[0]!);
+      expect(rm.via).toMatch(/^(ba)?sh -c$/);
+      // Not written out in the command line, so it can't be rewritten
+      expect(rm.spans).toBeUndefined();
+    }
+  });
+
+  test("parses nested bash -c strings", () => {
+    const commands = parseShellCommand(`bash -c "sh -c 'rm -rf /'"`);
+    const rm = find(commands, "rm");
+    expect(rm.parent?.argv).toEqual(["sh", "-c", "rm -rf /"]);
+    expect(rm.parent?.parent).toBe(commands[0]!);
+  });
+
+  test("parses eval arguments", () => {
+    expect(find(parseShellCommand('eval "rm -rf /"'), "rm").via).toBe("eval");
+  });
+
+  test("parses command and process substitutions", () => {
+    const commands = parseShellCommand("echo $(rm -rf /) `ls` <(cat a)");
+    expect(commands.map((c) => [commandName(c), c.via])).toEqual([
+      ["echo", undefined],
+      ["rm", "$(...)"],
+      ["ls", "`...`"],
+      ["cat", "<(...)"],
+    ]);
+  });
+
+  test("looks through wrappers and their options", () => {
+    const commands = parseShellCommand(
+      "sudo -u root env FOO=1 timeout -s KILL 10 nice -n 5 rm -rf /"
+    );
+    expect(commands.map((c) => [commandName(c), c.via])).toEqual([
+      ["sudo", undefined],
+      ["env", "sudo"],
+      ["timeout", "env"],
+      ["nice", "timeout"],
+      ["rm", "nice"],
+    ]);
+    expect(commands.at(-1)?.argv).toEqual(["rm", "-rf", "/"]);
+  });
+
+  test("finds the command xargs and find -exec run", () => {
+    expect(
+      find(parseShellCommand("ls | xargs -n 1 rm -f"), "rm")
+    ).toMatchObject({
+      argv: ["rm", "-f"],
+      via: "xargs",
+      pipeline: 0,
+      position: 1,
+    });
+    expect(
+      find(parseShellCommand("find . -name '*.tmp' -exec rm {} \\;"), "rm")
+    ).toMatchObject({ argv: ["rm", "{}"], via: "find -exec" });
+  });
+});
+
+describe("redirections", () => {
+  test("separates redirections from arguments", () => {
+    const [echo] = parseShellCommand("echo hi >> log 2>&1 < in");
+    expect(echo).toMatchObject({
+      argv: ["echo", "hi"],
+      redirects: [
+        { op: ">>", target: "log" },
+        { op: ">&", fd: "2", target: "1" },
+        { op: "<", target: "in" },
+      ],
+    });
+  });
+
+  test("skips heredoc bodies", () => {
+    expect(argvs("cat <<EOF > out.txt\nrm -rf /\nEOF\necho after")).toEqual([
+      ["cat"],
+      ["echo", "after"],
+    ]);
+    expect(argvs("cat <<-'END'\n\trm -rf /\n\tEND\nls")).toEqual([
+      ["cat"],
+      ["ls"],
+    ]);
+  });
+});
+
+describe("spans", () => {
+  test("point at each word in the command line", () => {
+    const line = 'git  push  "--force" && ls';
+    const [git] = parseShellCommand(line);
+    expect(git?.spans?.map(([start, end]) => line.slice(start, end))).toEqual([
+      "git",
+      "push",
+      '"--force"',
+    ]);
+  });
+
+  test("follow a wrapped command back to the original words", () => {
+    const line = "sudo rm -rf build";
+    const rm = find(parseShellCommand(line), "rm");
+    expect(rm.spans?.map(([start, end]) => line.slice(start, end))).toEqual([
+      "rm",
+      "-rf",
+      "build",
+    ]);
+  });
+});
+
+describe("commandName", () => {
+  test("drops the directory", () => {
+    const [rm] = parseShellCommand("/bin/rm -f x");
+    expect(commandName(rm!)).toBe("rm");
+  });
+});
+
+describe("writeTargets", () => {
+  function targets(command: string): string[] {
+    return parseShellCommand(command).flatMap(writeTargets);
+  }
+
+  test("includes output redirections but not fd duplication", () => {
+    expect(targets("echo hi >> log 2>&1 &> all >&err > /dev/null")).toEqual([
+      "log",
+      "all",
+      "err",
+    ]);
+  });
+
+  test("knows what common commands write", () => {
+    expect(targets("touch a b")).toEqual(["a", "b"]);
+    expect(targets("cp -r a b dest")).toEqual(["dest"]);
+    expect(targets("mv x y")).toEqual(["y", "x"]);
+    expect(targets("sed -i 's/a/b/' f.txt")).toEqual(["f.txt"]);
+    expect(targets("dd if=/dev/zero of=disk.img")).toEqual(["disk.img"]);
+    expect(targets("tee /dev/null")).toEqual([]);
+    expect(targets("cat a b")).toEqual([]);
+  });
+
+  test("includes writes by nested commands", () => {
+    expect(targets("bash -c 'echo key >> ~/.ssh/authorized_keys'")).toEqual([
+      "~/.ssh/authorized_keys",
+    ]);
+  });
+});
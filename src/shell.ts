@@ -0,0 +1,785 @@
+/**
+ * SHELL COMMAND PARSER
+ * =====================
+ * Splits a Bash command line into the simple commands it would run, for
+ * checks that need to know what a command does rather than what text it
+ * contains (a substring check for `rm -rf /` misses `rm -r -f /`,
+ * `"rm" -rf /`, `cd / && rm -rf .` and `bash -c 'rm -rf /'`).
+ *
+ * Handled:
+ * - quoting: '...', "...", $'...', backslash escapes, comments
+ * - lists and pipelines: ;  &  &&  ||  |  |&  newlines
+ * - subshells and groups: ( ... )  { ...; }
+ * - command and process substitution: $( ... )  ` ... `  <( ... )  >( ... )
+ * - redirections, including heredocs (whose bodies are skipped)
+ * - commands run by other commands: `bash -c '...'`, `eval`, `xargs`,
+ *   `find -exec`, and wrappers like sudo, env, nohup, timeout and nice
+ *
+ * Every command found, at any depth, is returned in one flat list. Nested
+ * commands link to the command that runs them through `parent`.
+ *
+ * This is not a full shell: no variable, glob, alias or brace expansion
+ * happens, so `$HOME` stays `$HOME`. Checks should treat words containing
+ * `$` as unknown.
+ */
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface Redirect {
+  /** The operator without its fd: ">", ">>", "<", "&>", ">&" ... */
+  op: string;
+  /** Explicit file descriptor ("2" in `2>file`) */
+  fd?: string;
+  target: string;
+}
+
+export interface SimpleCommand {
+  /** Command name and arguments, with quotes removed */
+  argv: string[];
+  /** Leading `NAME=value` assignments */
+  assignments: string[];
+  redirects: Redirect[];
+  /** Identifies the pipeline the command is part of */
+  pipeline: number;
+  /** Position within the pipeline; 0 is the first command */
+  position: number;
+  /** The command this one runs inside, for nested commands */
+  parent?: SimpleCommand;
+  /** How the parent runs it: "bash -c", "$(...)", "xargs", "sudo"... */
+  via?: string;
+  /**
+   * Where each argv word is in the command line, as [start, end) offsets,
+   * for rewriting it. Missing for commands that aren't written out in the
+   * command line itself (`bash -c` strings, substitutions).
+   */
+  spans?: [number, number][];
+}
+
+interface WordToken {
+  type: "word";
+  value: string;
+  /** Inner command text of each $(...), `...`, <(...) or >(...) */
+  substitutions: { via: string; text: string }[];
+  /** Any part of the word was quoted */
+  quoted: boolean;
+  /** Length of the value before its first quoted part */
+  unquotedLength: number;
+  /** Offsets of the word in the text that was tokenized */
+  span?: [number, number];
+}
+
+interface OperatorToken {
+  type: "op";
+  value: string;
+  /** File descriptor written before a redirection operator */
+  fd?: string;
+}
+
+type Token = WordToken | OperatorToken;
+
+// =============================================================================
+// LEXER
+// =============================================================================
+
+const CONTROL_OPERATORS = ["&&", "||", ";;", "|&", ";", "|", "&", "(", ")"];
+
+const REDIRECT_OPERATORS = [
+  "&>>",
+  "<<<",
+  "<<-",
+  "&>",
+  ">>",
+  ">|",
+  ">&",
+  "<<",
+  "<&",
+  "<>",
+  ">",
+  "<",
+];
+
+/**
+ * Find the index just past the `)` closing a `(` at `start`, skipping over
+ * quotes and nested parentheses. Returns the input length if unclosed.
+ */
+function findClosingParen(input: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < input.length; i++) {
+    const ch = input[i]!;
+    if (ch === "\\") {
+      i++;
+    } else if (ch === "'") {
+      const end = input.indexOf("'", i + 1);
+      i = end === -1 ? input.length : end;
+    } else if (ch === '"') {
+      i++;
+      while (i < input.length && input[i] !== '"') {
+        if (input[i] === "\\") i++;
+        i++;
+      }
+    } else if (ch === "(") {
+      depth++;
+    } else if (ch === ")") {
+      depth--;
+      if (depth === 0) return i + 1;
+    }
+  }
+  return input.length;
+}
+
+const ANSI_C_ESCAPES: Record<string, string> = {
+  n: "\n",
+  t: "\t",
+  r: "\r",
+  a: "\x07",
+  b: "\b",
+  e: "\x1b",
+  f: "\f",
+  v: "\v",
+  "\\": "\\",
+  "'": "'",
+  '"': '"',
+};
+
+/**
+ * Split a command line into words and operators.
+ */
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  // Heredoc delimiters waiting for the end of the current line
+  const heredocs: { delimiter: string; stripTabs: boolean }[] = [];
+  let i = 0;
+
+  let word: WordToken | null = null;
+  const startWord = () => {
+    word ??= {
+      type: "word",
+      value: "",
+      substitutions: [],
+      quoted: false,
+      unquotedLength: 0,
+      span: [i, i],
+    };
+    return word;
+  };
+  const quote = (w: WordToken) => {
+    if (!w.quoted) w.unquotedLength = w.value.length;
+    w.quoted = true;
+  };
+  const endWord = () => {
+    if (word) {
+      word.span![1] = i;
+      tokens.push(word);
+    }
+    word = null;
+  };
+
+  const skipHeredocBodies = () => {
+    for (const { delimiter, stripTabs } of heredocs.splice(0)) {
+      while (i < input.length) {
+        const lineEnd = input.indexOf("\n", i);
+        const end = lineEnd === -1 ? input.length : lineEnd;
+        let line = input.slice(i, end);
+        if (stripTabs) line = line.replace(/^\t+/, "");
+        i = end + 1;
+        if (line === delimiter) break;
+      }
+    }
+  };
+
+  while (i < input.length) {
+    const ch = input[i]!;
+    const rest = input.slice(i);
+
+    // Whitespace ends a word
+    if (ch === " " || ch === "\t") {
+      endWord();
+      i++;
+      continue;
+    }
+
+    if (ch === "\n") {
+      endWord();
+      tokens.push({ type: "op", value: "\n" });
+      i++;
+      skipHeredocBodies();
+      continue;
+    }
+
+    // Comments run to the end of the line
+    if (ch === "#" && !word) {
+      const end = input.indexOf("\n", i);
+      i = end === -1 ? input.length : end;
+      continue;
+    }
+
+    if (ch === "\\") {
+      if (input[i + 1] === "\n") {
+        // Line continuation
+        i += 2;
+        continue;
+      }
+      const w = startWord();
+      quote(w);
+      w.value += input[i + 1] ?? "";
+      i += 2;
+      continue;
+    }
+
+    if (ch === "'") {
+      const end = input.indexOf("'", i + 1);
+      const w = startWord();
+      quote(w);
+      w.value += input.slice(i + 1, end === -1 ? undefined : end);
+      i = end === -1 ? input.length : end + 1;
+      continue;
+    }
+
+    if (rest.startsWith("$'")) {
+      const w = startWord();
+      quote(w);
+      i += 2;
+      while (i < input.length && input[i] !== "'") {
+        if (input[i] === "\\" && i + 1 < input.length) {
+          const next = input[i + 1]!;
+          w.value += ANSI_C_ESCAPES[next] ?? `\\${next}`;
+          i += 2;
+        } else {
+          w.value += input[i++];
+        }
+      }
+      i++;
+      continue;
+    }
+
+    if (ch === '"') {
+      const w = startWord();
+      quote(w);
+      i++;
+      while (i < input.length && input[i] !== '"') {
+        const c = input[i]!;
+        if (c === "\\" && '$`"\\\n'.includes(input[i + 1] ?? "")) {
+          if (input[i + 1] !== "\n") w.value += input[i + 1];
+          i += 2;
+        } else if (input.startsWith("$(", i) && input[i + 2] !== "(") {
+          const end = findClosingParen(input, i + 1);
+          w.substitutions.push({
+            via: "$(...)",
+            text: input.slice(i + 2, end - 1),
+          });
+          w.value += input.slice(i, end);
+          i = end;
+        } else if (c === "`") {
+          const end = input.indexOf("`", i + 1);
+          const stop = end === -1 ? input.length : end;
+          w.substitutions.push({
+            via: "`...`",
+            text: input.slice(i + 1, stop),
+          });
+          w.value += input.slice(i, stop + 1);
+          i = stop + 1;
+        } else {
+          w.value += c;
+          i++;
+        }
+      }
+      i++;
+      continue;
+    }
+
+    // Command substitution (but not arithmetic $(( ... )))
+    if (rest.startsWith("$(") && input[i + 2] !== "(") {
+      const end = findClosingParen(input, i + 1);
+      const w = startWord();
+      w.substitutions.push({
+        via: "$(...)",
+        text: input.slice(i + 2, end - 1),
+      });
+      w.value += input.slice(i, end);
+      i = end;
+      continue;
+    }
+
+    if (ch === "`") {
+      const end = input.indexOf("`", i + 1);
+      const stop = end === -1 ? input.length : end;
+      const w = startWord();
+      w.substitutions.push({ via: "`...`", text: input.slice(i + 1, stop) });
+      w.value += input.slice(i, stop + 1);
+      i = stop + 1;
+      continue;
+    }
+
+    // Process substitution at the start of a word
+    if (!word && (rest.startsWith("<(") || rest.startsWith(">("))) {
+      const end = findClosingParen(input, i + 1);
+      const w = startWord();
+      w.substitutions.push({
+        via: `${ch}(...)`,
+        text: input.slice(i + 2, end - 1),
+      });
+      w.value += input.slice(i, end);
+      i = end;
+      continue;
+    }
+
+    // Redirections, with an optional fd written right before them
+    const redirect = REDIRECT_OPERATORS.find((op) => rest.startsWith(op));
+    if (redirect) {
+      let fd: string | undefined;
+      const pending = word as WordToken | null;
+      if (pending && !pending.quoted && /^\d+$/.test(pending.value)) {
+        fd = pending.value;
+        word = null;
+      }
+      endWord();
+      tokens.push({ type: "op", value: redirect, fd });
+      i += redirect.length;
+
+      if (redirect === "<<" || redirect === "<<-") {
+        // The next word is the heredoc delimiter; quotes around it are removed
+        const match = input.slice(i).match(/^\s*(['"]?)([^\s'";|&<>()]+)\1/);
+        if (match) {
+          heredocs.push({
+            delimiter: match[2]!,
+            stripTabs: redirect === "<<-",
+          });
+        }
+      }
+      continue;
+    }
+
+    const operator = CONTROL_OPERATORS.find((op) => rest.startsWith(op));
+    if (operator) {
+      endWord();
+      tokens.push({ type: "op", value: operator });
+      i += operator.length;
+      continue;
+    }
+
+    startWord().value += ch;
+    i++;
+  }
+
+  endWord();
+  return tokens;
+}
+
+// =============================================================================
+// PARSER
+// =============================================================================
+
+/**
+ * Reserved words that start or end a compound command. They are dropped so
+ * the commands inside (`if rm -rf x; then ...`) are seen as ordinary ones.
+ */
+const RESERVED_WORDS = new Set([
+  "if",
+  "then",
+  "else",
+  "elif",
+  "fi",
+  "while",
+  "until",
+  "do",
+  "done",
+  "{",
+  "}",
+  "!",
+  "time",
+]);
+
+const ASSIGNMENT = /^[A-Za-z_][A-Za-z0-9_]*(\[[^\]]*\])?\+?=/;
+
+/**
+ * Whether a word is a `NAME=value` assignment. The value may be quoted
+ * (`FOO='a b'`), but not the name or `=` (`"FOO"=1` is a command).
+ */
+function isAssignment(word: WordToken): boolean {
+  const match = ASSIGNMENT.exec(word.value);
+  return (
+    match !== null && (!word.quoted || match[0].length <= word.unquotedLength)
+  );
+}
+
+interface ParseContext {
+  commands: SimpleCommand[];
+  nextPipeline: number;
+  /** Guards against pathological nesting */
+  depth: number;
+}
+
+const MAX_DEPTH = 16;
+
+/**
+ * Parse tokens into simple commands, appending them to `ctx.commands`.
+ */
+function parseTokens(
+  tokens: Token[],
+  ctx: ParseContext,
+  parent: SimpleCommand | undefined,
+  via: string | undefined
+): void {
+  let pipeline = ctx.nextPipeline++;
+  let position = 0;
+  let words: WordToken[] = [];
+  let redirects: { op: string; fd?: string; target?: WordToken }[] = [];
+
+  const finish = () => {
+    // Drop reserved words at the start, and `for`/`case` headers entirely
+    while (
+      words.length > 0 &&
+      !words[0]!.quoted &&
+      RESERVED_WORDS.has(words[0]!.value)
+    ) {
+      words.shift();
+    }
+    const first = words[0];
+    if (
+      first &&
+      !first.quoted &&
+      ["for", "case", "select"].includes(first.value)
+    ) {
+      words = [];
+    }
+    if (words.length > 0 || redirects.length > 0) {
+      addCommand(words, redirects, pipeline, position, ctx, parent, via);
+      position++;
+    }
+    words = [];
+    redirects = [];
+  };
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i]!;
+
+    if (token.type === "word") {
+      words.push(token);
+      continue;
+    }
+
+    if (REDIRECT_OPERATORS.includes(token.value)) {
+      const next = tokens[i + 1];
+      if (next?.type === "word") {
+        redirects.push({ op: token.value, fd: token.fd, target: next });
+        i++;
+      }
+      continue;
+    }
+
+    switch (token.value) {
+      case "|":
+      case "|&":
+        finish();
+        break;
+      case "(": {
+        // Subshell: parse up to the matching ")" as its own list
+        finish();
+        let depth = 1;
+        let j = i + 1;
+        for (; j < tokens.length; j++) {
+          const t = tokens[j]!;
+          if (t.type !== "op") continue;
+          if (t.value === "(") depth++;
+          if (t.value === ")" && --depth === 0) break;
+        }
+        if (ctx.depth < MAX_DEPTH) {
+          ctx.depth++;
+          parseTokens(tokens.slice(i + 1, j), ctx, parent, via);
+          ctx.depth--;
+        }
+        // The subshell takes up a place in the enclosing pipeline
+        position++;
+        i = j;
+        break;
+      }
+      case ")":
+        break;
+      default:
+        // ; & && || ;; newline: end the pipeline
+        finish();
+        pipeline = ctx.nextPipeline++;
+        position = 0;
+    }
+  }
+  finish();
+}
+
+/**
+ * Parse a nested command line (a substitution, `bash -c` string...).
+ */
+function parseNested(
+  text: string,
+  ctx: ParseContext,
+  parent: SimpleCommand,
+  via: string
+): void {
+  if (ctx.depth >= MAX_DEPTH) return;
+  ctx.depth++;
+  // Offsets in the nested text don't point into the command line
+  const tokens = tokenize(text).map((t) =>
+    t.type === "word" ? { ...t, span: undefined } : t
+  );
+  parseTokens(tokens, ctx, parent, via);
+  ctx.depth--;
+}
+
+function addCommand(
+  words: WordToken[],
+  rawRedirects: { op: string; fd?: string; target?: WordToken }[],
+  pipeline: number,
+  position: number,
+  ctx: ParseContext,
+  parent: SimpleCommand | undefined,
+  via: string | undefined
+): void {
+  let start = 0;
+  while (start < words.length && isAssignment(words[start]!)) {
+    start++;
+  }
+
+  const argvWords = words.slice(start);
+  const spans = argvWords.map((w) => w.span);
+  const command: SimpleCommand = {
+    argv: argvWords.map((w) => w.value),
+    assignments: words.slice(0, start).map((w) => w.value),
+    redirects: rawRedirects.map((r) => ({
+      op: r.op,
+      fd: r.fd,
+      target: r.target?.value ?? "",
+    })),
+    pipeline,
+    position,
+    parent,
+    via,
+    spans: spans.every((s) => s !== undefined)
+      ? (spans as [number, number][])
+      : undefined,
+  };
+  ctx.commands.push(command);
+
+  // Commands inside substitutions in any word
+  const allWords = [
+    ...words,
+    ...rawRedirects.flatMap((r) => (r.target ? [r.target] : [])),
+  ];
+  for (const word of allWords) {
+    for (const sub of word.substitutions) {
+      parseNested(sub.text, ctx, command, sub.via);
+    }
+  }
+
+  unwrapCommand(command, ctx);
+}
+
+// =============================================================================
+// NESTED COMMANDS
+// =============================================================================
+
+const SHELLS = new Set(["sh", "bash", "zsh", "dash", "ksh", "fish"]);
+
+/**
+ * Commands that run the rest of their arguments as a command, with the
+ * options of each that take a value.
+ */
+const WRAPPERS: Record<string, Set<string>> = {
+  sudo: new Set(["-u", "-g", "-C", "-D", "-h", "-p", "-r", "-t", "-U"]),
+  doas: new Set(["-u", "-C"]),
+  env: new Set(["-u", "-C", "-S", "--unset", "--chdir"]),
+  nohup: new Set(),
+  nice: new Set(["-n", "--adjustment"]),
+  ionice: new Set(["-c", "-n", "-p"]),
+  timeout: new Set(["-s", "-k", "--signal", "--kill-after"]),
+  stdbuf: new Set(["-i", "-o", "-e"]),
+  command: new Set(),
+  builtin: new Set(),
+  exec: new Set(["-a"]),
+  time: new Set(["-f", "-o"]),
+  xargs: new Set([
+    "-I",
+    "-L",
+    "-n",
+    "-P",
+    "-d",
+    "-E",
+    "-s",
+    "-a",
+    "--max-args",
+    "--max-procs",
+    "--delimiter",
+    "--arg-file",
+    "--replace",
+  ]),
+};
+
+/**
+ * Index of the first argument after a wrapper's own options, or -1.
+ */
+function skipOptions(argv: string[], valueOptions: Set<string>): number {
+  let i = 1;
+  while (i < argv.length) {
+    const arg = argv[i]!;
+    if (arg === "--") return i + 1;
+    if (!arg.startsWith("-") || arg === "-") break;
+    // "-n 10" takes the next word; "-n10" and "--opt=x" don't
+    i += valueOptions.has(arg) ? 2 : 1;
+  }
+  return i < argv.length ? i : -1;
+}
+
+/**
+ * Add the commands a command runs on its behalf: the inner command of a
+ * wrapper, a shell's `-c` string, `eval`'s arguments, `find -exec`.
+ */
+function unwrapCommand(command: SimpleCommand, ctx: ParseContext): void {
+  const { argv } = command;
+  const name = argv[0]?.split("/").pop();
+  if (!name) return;
+
+  const runInner = (start: number, end: number, via: string) => {
+    if (start >= end) return;
+    // Parse the inner argv like a fresh command so it is unwrapped in turn
+    addCommand(
+      argv.slice(start, end).map((value, i) => ({
+        type: "word",
+        value,
+        substitutions: [],
+        quoted: true,
+        unquotedLength: 0,
+        span: command.spans?.[start + i],
+      })),
+      [],
+      command.pipeline,
+      command.position,
+      ctx,
+      command,
+      via
+    );
+  };
+
+  if (SHELLS.has(name)) {
+    // bash -c 'cmd', bash -ec 'cmd', bash -c -- 'cmd'
+    for (let i = 1; i < argv.length; i++) {
+      const arg = argv[i]!;
+      if (!arg.startsWith("-")) break;
+      if (/^-[a-z]*c[a-z]*$/.test(arg)) {
+        const script = argv.slice(i + 1).find((a) => a !== "--");
+        if (script !== undefined)
+          parseNested(script, ctx, command, `${name} -c`);
+        return;
+      }
+    }
+    return;
+  }
+
+  if (name === "eval") {
+    parseNested(argv.slice(1).join(" "), ctx, command, "eval");
+    return;
+  }
+
+  if (name === "find") {
+    for (let i = 1; i < argv.length; i++) {
+      if (!["-exec", "-execdir", "-ok", "-okdir"].includes(argv[i]!)) continue;
+      const end = argv.findIndex((a, j) => j > i && (a === ";" || a === "+"));
+      runInner(i + 1, end === -1 ? argv.length : end, `find ${argv[i]}`);
+    }
+    return;
+  }
+
+  const valueOptions = WRAPPERS[name];
+  if (!valueOptions) return;
+
+  let start = skipOptions(argv, valueOptions);
+  if (start === -1) return;
+  if (name === "env") {
+    while (start < argv.length && ASSIGNMENT.test(argv[start]!)) start++;
+  }
+  if (name === "timeout") {
+    start++; // the duration
+  }
+  runInner(start, argv.length, name);
+}
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Parse a command line into every simple command it runs, including those
+ * nested in subshells, substitutions, `bash -c` strings and wrappers.
+ */
+export function parseShellCommand(command: string): SimpleCommand[] {
+  const ctx: ParseContext = { commands: [], nextPipeline: 0, depth: 0 };
+  parseTokens(tokenize(command), ctx, undefined, undefined);
+  return ctx.commands;
+}
+
+/**
+ * Get the commands in the same pipeline as `command`, in order.
+ */
+export function pipelineOf(
+  commands: SimpleCommand[],
+  command: SimpleCommand
+): SimpleCommand[] {
+  return commands.filter(
+    (c) => c.pipeline === command.pipeline && c.parent === command.parent
+  );
+}
+
+/**
+ * Get a command's name without any leading directory (`/bin/rm` → `rm`).
+ */
+export function commandName(command: SimpleCommand): string {
+  return command.argv[0]?.split("/").pop() ?? "";
+}
+
+// =============================================================================
+// FILE WRITES
+// =============================================================================
+
+/**
+ * Commands whose non-flag arguments are all files they write.
+ */
+const WRITING_COMMANDS = new Set(["touch", "rm", "tee", "truncate", "shred"]);
+
+/**
+ * Commands whose last argument is the destination they write.
+ */
+const DESTINATION_COMMANDS = new Set(["cp", "mv", "ln", "install", "rsync"]);
+
+/**
+ * Best-effort list of files a simple command writes: output redirections,
+ * plus the targets of commands that obviously write files.
+ */
+export function writeTargets(command: SimpleCommand): string[] {
+  const files = command.redirects
+    .filter((r) => /^(>|>>|>\||&>|&>>|<>)$/.test(r.op) && r.target)
+    .map((r) => r.target);
+  // ">&" writes to a file only when not duplicating an fd ("2>&1")
+  files.push(
+    ...command.redirects
+      .filter((r) => r.op === ">&" && !/^(\d+|-)$/.test(r.target))
+      .map((r) => r.target)
+  );
+
+  const name = commandName(command);
+  const args = command.argv.slice(1).filter((a) => !a.startsWith("-"));
+
+  if (WRITING_COMMANDS.has(name)) {
+    files.push(...args);
+  } else if (DESTINATION_COMMANDS.has(name) && args.length >= 2) {
+    files.push(args[args.length - 1]!);
+    if (name === "mv") files.push(...args.slice(0, -1));
+  } else if (name === "sed" && command.argv.some((a) => /^-i/.test(a))) {
+    // sed -i 's/a/b/' file...: everything after the script
+    files.push(...args.slice(1));
+  } else if (name === "dd") {
+    files.push(
+      ...command.argv.filter((a) => a.startsWith("of=")).map((a) => a.slice(3))
+    );
+  }
+
+  return files.filter((f) => f && !f.startsWith("/dev/"));
+}
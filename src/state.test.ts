@@ -0,0 +1,348 @@
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  spyOn,
+  test,
+} from "bun:test";
+import { existsSync } from "fs";
+import {
+  mkdir,
+  mkdtemp,
+  readdir,
+  readFile,
+  rm,
+  utimes,
+  writeFile,
+} from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  appendEvent,
+  createSessionState,
+  getState,
+  getStateDir,
+  parseSessionState,
+  setProjectDir,
+  STATE_VERSION,
+  sweepStaleState,
+  updateSection,
+} from "./state";
+
+const WORKERS = 12;
+const UPDATES = 10;
+
+// Each worker records UPDATES touched files, one locked update at a time
+const WORKER = `
+import { updateSection } from ${JSON.stringify(join(import.meta.dir, "state.ts"))};
+const { SESSION_ID, WORKER_ID } = process.env;
+for (let i = 0; i < ${UPDATES}; i++) {
+  await updateSection(SESSION_ID, "tracking", (tracking) => ({
+    touchedFiles: [...tracking.touchedFiles, WORKER_ID + "-" + i],
+  }));
+}
+`;
+
+let stateDir: string;
+
+beforeAll(async () => {
+  stateDir = await mkdtemp(join(tmpdir(), "state-test-"));
+  process.env.QUALITY_GATES_STATE_DIR = stateDir;
+});
+
+afterAll(async () => {
+  delete process.env.QUALITY_GATES_STATE_DIR;
+  await rm(stateDir, { recursive: true, force: true });
+});
+
+async function runWorkers(sessionId: string): Promise<void> {
+  const procs = Array.from({ length: WORKERS }, (_, i) =>
+    Bun.spawn(["bun", "-e", WORKER], {
+      env: {
+        ...process.env,
+        SESSION_ID: sessionId,
+        WORKER_ID: String(i),
+      },
+      stderr: "pipe",
+    })
+  );
+  const codes = await Promise.all(procs.map((p) => p.exited));
+  expect(codes).toEqual(Array(WORKERS).fill(0));
+}
+
+async function touchedFiles(sessionId: string): Promise<string[]> {
+  const { getSection } = await import("./state");
+  return (await getSection(sessionId, "tracking")).touchedFiles;
+}
+
+describe("concurrent updates", () => {
+  test(
+    "no update is lost across many processes",
+    async () => {
+      await runWorkers("stress");
+      expect(await touchedFiles("stress")).toHaveLength(WORKERS * UPDATES);
+    },
+    { timeout: 60_000 }
+  );
+
+  test(
+    "a stale lock is broken once, without losing updates",
+    async () => {
+      // A lock left by a process that has since exited
+      const { pid } = Bun.spawnSync(["true"]);
+      const lockPath = join(stateDir, "quality-gate-hooks-stale.json.lock");
+      await writeFile(lockPath, JSON.stringify({ pid, at: Date.now() }));
+
+      await runWorkers("stale");
+
+      expect(await touchedFiles("stale")).toHaveLength(WORKERS * UPDATES);
+      expect(existsSync(lockPath)).toBe(false);
+      // Nothing left behind by the processes that broke the lock
+      const leftovers = (await readdir(stateDir)).filter(
+        (f) => f.endsWith(".tmp") || f.endsWith(".break")
+      );
+      expect(leftovers).toEqual([]);
+    },
+    { timeout: 60_000 }
+  );
+
+  test(
+    "a process that died breaking a lock doesn't block the others",
+    async () => {
+      const { pid } = Bun.spawnSync(["true"]);
+      const lockPath = join(stateDir, "quality-gate-hooks-breaker.json.lock");
+      const dead = JSON.stringify({ pid, at: Date.now() });
+      await writeFile(lockPath, dead);
+      await writeFile(`${lockPath}.break`, dead);
+
+      await runWorkers("breaker");
+
+      expect(await touchedFiles("breaker")).toHaveLength(WORKERS * UPDATES);
+      expect(existsSync(lockPath)).toBe(false);
+      expect(existsSync(`${lockPath}.break`)).toBe(false);
+    },
+    { timeout: 60_000 }
+  );
+
+  test(
+    "a live lock is never broken",
+    async () => {
+      const { updateSection, StateLockError } = await import("./state");
+      const lockPath = join(stateDir, "quality-gate-hooks-live.json.lock");
+      const live = JSON.stringify({ pid: process.pid, at: Date.now() });
+      await writeFile(lockPath, live);
+
+      await expect(
+        updateSection("live", "tracking", (tracking) => tracking)
+      ).rejects.toBeInstanceOf(StateLockError);
+      expect(await readFile(lockPath, "utf8")).toBe(live);
+    },
+    { timeout: 15_000 }
+  );
+});
+
+describe("parseSessionState", () => {
+  let warn: ReturnType<typeof spyOn<Console, "error">>;
+
+  beforeEach(() => {
+    warn = spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    warn.mockRestore();
+  });
+
+  const attempt = {
+    at: 1,
+    failedGates: ["test"],
+    errorCount: 1,
+    fingerprints: ["a"],
+  };
+
+  test("migrates a version 0 document, before sections", () => {
+    const state = parseSessionState(
+      {
+        sessionId: "old",
+        denialCount: 2,
+        attempts: [attempt],
+        touchedFiles: ["src/a.ts"],
+      },
+      "old"
+    );
+    expect(state).toEqual({
+      version: STATE_VERSION,
+      sessionId: "old",
+      stop: {
+        denialCount: 2,
+        attempts: [attempt],
+        valveReleased: false,
+        gateCache: {},
+      },
+      tracking: { touchedFiles: ["src/a.ts"] },
+    });
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  test("resets an invalid section and keeps the others", () => {
+    const state = parseSessionState(
+      {
+        version: STATE_VERSION,
+        sessionId: "corrupt",
+        stop: { denialCount: -1, attempts: "none" },
+        tracking: { touchedFiles: ["src/a.ts"] },
+      },
+      "corrupt"
+    );
+    expect(state.stop).toEqual(createSessionState("corrupt").stop);
+    expect(state.tracking.touchedFiles).toEqual(["src/a.ts"]);
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(String(warn.mock.calls[0]![0])).toStartWith(
+      '[State] Resetting invalid "stop" state'
+    );
+  });
+
+  test("discards a document from a newer version", () => {
+    const state = parseSessionState(
+      {
+        version: STATE_VERSION + 1,
+        sessionId: "future",
+        tracking: { touchedFiles: ["src/a.ts"] },
+      },
+      "future"
+    );
+    expect(state).toEqual(createSessionState("future"));
+    expect(String(warn.mock.calls[0]![0])).toContain(
+      `unknown version ${STATE_VERSION + 1}`
+    );
+  });
+
+  test("discards a document that isn't an object", () => {
+    expect(parseSessionState([1, 2], "array")).toEqual(
+      createSessionState("array")
+    );
+    expect(warn).toHaveBeenCalledTimes(1);
+  });
+
+  test("reads a version 0 state file", async () => {
+    await writeFile(
+      join(stateDir, "quality-gate-hooks-legacy.json"),
+      JSON.stringify({ sessionId: "legacy", denialCount: 1, attempts: [] })
+    );
+    const state = await getState("legacy");
+    expect(state.version).toBe(STATE_VERSION);
+    expect(state.stop.denialCount).toBe(1);
+  });
+});
+
+describe("state directory", () => {
+  let project: string;
+
+  beforeEach(async () => {
+    project = await mkdtemp(join(tmpdir(), "state-project-"));
+    setProjectDir(project);
+  });
+
+  afterEach(async () => {
+    process.env.QUALITY_GATES_STATE_DIR = stateDir;
+    await rm(project, { recursive: true, force: true });
+  });
+
+  async function gitignoreIn(dir: string): Promise<string | null> {
+    return readFile(join(dir, ".gitignore"), "utf8").catch(() => null);
+  }
+
+  test("is resolved against the hook input's project", () => {
+    process.env.QUALITY_GATES_STATE_DIR = "project";
+    expect(getStateDir()).toBe(join(project, ".claude", "state"));
+    process.env.QUALITY_GATES_STATE_DIR = "var/state";
+    expect(getStateDir()).toBe(join(project, "var", "state"));
+  });
+
+  test("gets a .gitignore anywhere inside the project", async () => {
+    process.env.QUALITY_GATES_STATE_DIR = "project";
+    await updateSection("inside", "tracking", (tracking) => tracking);
+    expect(await gitignoreIn(join(project, ".claude", "state"))).toBe("*\n");
+
+    // A directory that already exists, under a path of the user's choosing
+    await mkdir(join(project, "var", "state"), { recursive: true });
+    process.env.QUALITY_GATES_STATE_DIR = "var/state";
+    await appendEvent("inside", "log", {});
+    expect(await gitignoreIn(join(project, "var", "state"))).toBe("*\n");
+  });
+
+  test("keeps a .gitignore that is already there", async () => {
+    await mkdir(join(project, "state"));
+    await writeFile(join(project, "state", ".gitignore"), "*.json\n");
+    process.env.QUALITY_GATES_STATE_DIR = "state";
+    await updateSection("kept", "tracking", (tracking) => tracking);
+    expect(await gitignoreIn(join(project, "state"))).toBe("*.json\n");
+  });
+
+  test("gets no .gitignore outside the project or at its root", async () => {
+    process.env.QUALITY_GATES_STATE_DIR = join(project, "..", "outside-state");
+    try {
+      await updateSection("outside", "tracking", (tracking) => tracking);
+      expect(await gitignoreIn(getStateDir())).toBeNull();
+    } finally {
+      await rm(getStateDir(), { recursive: true, force: true });
+    }
+
+    process.env.QUALITY_GATES_STATE_DIR = ".";
+    await updateSection("root", "tracking", (tracking) => tracking);
+    expect(await gitignoreIn(project)).toBeNull();
+  });
+});
+
+describe("sweepStaleState", () => {
+  const DAY = 24 * 60 * 60 * 1000;
+
+  /**
+   * Give a session state and an event log, last touched `age` ms ago.
+   */
+  async function session(id: string, age: number): Promise<void> {
+    await updateSection(id, "tracking", (tracking) => tracking);
+    await appendEvent(id, "usage", { id: "call" });
+    const at = new Date(Date.now() - age);
+    for (const name of await readdir(stateDir)) {
+      if (name.startsWith(`quality-gate-hooks-${id}.`)) {
+        await utimes(join(stateDir, name), at, at);
+      }
+    }
+  }
+
+  async function filesOf(id: string): Promise<string[]> {
+    return (await readdir(stateDir)).filter((name) =>
+      name.startsWith(`quality-gate-hooks-${id}.`)
+    );
+  }
+
+  test("deletes the files of sessions idle for longer than the TTL", async () => {
+    await session("idle", 8 * DAY);
+    await session("recent", 6 * DAY);
+    await session("starting", 30 * DAY);
+
+    const swept = await sweepStaleState(7 * DAY, "starting");
+
+    expect(swept).toContain("idle");
+    expect(swept).not.toContain("recent");
+    expect(swept).not.toContain("starting");
+    expect(await filesOf("idle")).toEqual([]);
+    expect(await filesOf("recent")).toHaveLength(2);
+    expect(await filesOf("starting")).toHaveLength(2);
+  });
+
+  test("counts a session's newest file as its last activity", async () => {
+    await session("active-log", 8 * DAY);
+    await appendEvent("active-log", "usage", { id: "later" });
+    expect(await sweepStaleState(7 * DAY)).not.toContain("active-log");
+  });
+
+  test("keeps everything with a TTL of 0", async () => {
+    await session("forever", 365 * DAY);
+    expect(await sweepStaleState(0)).toEqual([]);
+    expect(await filesOf("forever")).toHaveLength(2);
+  });
+});
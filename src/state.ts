@@ -4,35 +4,78 @@
  * Simple utilities for persisting state across hook invocations.
  *
  * Since hooks run as separate processes, they need a way to share state.
- * This module provides simple file-based state persistence using the
- * system temp directory.
+ * This module provides simple file-based state persistence in a state
+ * directory, set with QUALITY_GATES_STATE_DIR:
+ * - "tmp" (default): the system temp directory
+ * - "project": `.claude/state` in the project
+ * - "xdg": `$XDG_STATE_HOME/quality-gate-hooks` (`~/.local/state/...`)
+ * - any other value: that directory, relative to the project
+ * The project is CLAUDE_PROJECT_DIR, or the hook input's cwd (see
+ * setProjectDir). A state directory inside it gets a .gitignore.
+ *
+ * LIFECYCLE:
+ * The SessionStart hook initializes a session's state and sweeps away the
+ * files of sessions idle for longer than QUALITY_GATES_STATE_TTL (ms, 7
+ * days by default; 0 keeps them forever).
+ *
+ * All of a session's state is one document, SessionState, with a section
+ * per feature ("stop" for the Stop hook's safety valve and gate cache,
+ * "tracking" for the files Claude touched). Each section has a schema: an
+ * initial value and a validator.
  *
  * USAGE:
- * 1. Define your state interface
- * 2. Use getState/saveState to read/write state
+ * 1. Add your section's type to SessionSections and its schema to SECTIONS
+ * 2. Use getSection/getState to read state, and updateSection/updateState
+ *    to change it
  * 3. Use clearState when the session ends or state should be reset
+ * 4. Use appendEvent/readEvents for append-only logs
+ *
+ * VERSIONING:
+ * Every document records the STATE_VERSION it was written with. A document
+ * from an older version of the plugin is brought up to date by MIGRATIONS
+ * when it's read. Adding a section needs no migration (a missing section
+ * starts from its initial value); renaming or reshaping one does, and must
+ * bump the version by adding to MIGRATIONS.
+ *
+ * Whatever is read is validated. A section that doesn't match its schema
+ * is reset to its initial value, and a document that can't be read at all
+ * (corrupt, or from a newer version) is replaced by a fresh one, each with
+ * a warning on stderr. Losing state only costs the hooks some history,
+ * while trusting a malformed document would crash them.
+ *
+ * CONCURRENCY:
+ * PreToolUse and PostToolUse run in parallel for parallel tool calls, so
+ * several processes can update one session's state at once. updateState
+ * holds a lock file (`<state>.lock`, created with O_EXCL) around its
+ * read-modify-write, so no update is lost. A lock whose owner has died, or
+ * that is older than LOCK_STALE_MS, is broken by one process at a time
+ * (the one holding `<state>.lock.break`), and only while it is still the
+ * lock judged stale, so breaking it can't remove a lock another process
+ * has just taken.
  *
  * EXAMPLE:
  * ```typescript
- * interface MyState {
- *   sessionId: string;
- *   promptCount: number;
- *   flags: { [key: string]: boolean };
- * }
+ * // In SessionSections:
+ * //   prompts: { count: number };
+ * // In SECTIONS:
+ * //   prompts: {
+ * //     initial: () => ({ count: 0 }),
+ * //     validate: (value) =>
+ * //       isPlainObject(value) && isCount(value.count)
+ * //         ? []
+ * //         : ["count must be a non-negative integer"],
+ * //   },
  *
  * // In your hook:
- * const state = await getState<MyState>(session_id);
- * if (!state) {
- *   await saveState(session_id, { sessionId: session_id, promptCount: 1, flags: {} });
- * } else {
- *   state.promptCount++;
- *   await saveState(session_id, state);
- * }
+ * await updateSection(session_id, "prompts", (prompts) => {
+ *   prompts.count++;
+ * });
  * ```
  */
 
-import { tmpdir } from "os";
-import { join } from "path";
+import { randomUUID } from "crypto";
+import { homedir, tmpdir } from "os";
+import { isAbsolute, join, relative, resolve } from "path";
 
 // =============================================================================
 // CONFIGURATION
@@ -43,39 +86,201 @@ import { join } from "path";
  */
 const STATE_FILE_PREFIX = "quality-gate-hooks";
 
+/**
+ * Environment variable choosing the state directory; see the header.
+ */
+export const STATE_DIR_ENV = "QUALITY_GATES_STATE_DIR";
+
+/**
+ * Environment variable setting how long idle sessions' state is kept, in ms.
+ */
+export const STATE_TTL_ENV = "QUALITY_GATES_STATE_TTL";
+
+export const DEFAULT_STATE_TTL = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * How long to wait for another process's lock before giving up.
+ */
+const LOCK_TIMEOUT_MS = 5000;
+
+/**
+ * Age after which a lock is assumed abandoned. Updates hold the lock for
+ * milliseconds, so anything this old belongs to a process that hung.
+ */
+const LOCK_STALE_MS = 30_000;
+
+/**
+ * First and longest waits between attempts to take a lock.
+ */
+const LOCK_RETRY_MIN_MS = 2;
+const LOCK_RETRY_MAX_MS = 100;
+
+type Migration = (state: Record<string, unknown>) => Record<string, unknown>;
+
+/**
+ * Migrations from each version of the state document to the next:
+ * MIGRATIONS[n] turns a version n document into version n + 1. Only ever
+ * append to this list.
+ */
+const MIGRATIONS: Migration[] = [
+  // 0 -> 1: the flat StopHookState, before sections and versions
+  ({
+    sessionId,
+    denialCount,
+    attempts,
+    valveReleased,
+    gateCache,
+    touchedFiles,
+  }) => ({
+    sessionId,
+    stop: {
+      denialCount: denialCount ?? 0,
+      attempts: attempts ?? [],
+      valveReleased: valveReleased ?? false,
+      gateCache: gateCache ?? {},
+    },
+    tracking: { touchedFiles: touchedFiles ?? [] },
+  }),
+];
+
+/**
+ * Version of the state document this code reads and writes.
+ */
+export const STATE_VERSION = MIGRATIONS.length;
+
+/**
+ * Thrown when a state lock can't be taken within LOCK_TIMEOUT_MS.
+ */
+export class StateLockError extends Error {
+  constructor(public readonly lockPath: string) {
+    super(`Timed out waiting for state lock ${lockPath}`);
+    this.name = "StateLockError";
+  }
+}
+
 // =============================================================================
 // STATE MANAGEMENT FUNCTIONS
 // =============================================================================
 
+/**
+ * The project directory from the running hook's input; see setProjectDir.
+ */
+let hookProjectDir: string | undefined;
+
+/**
+ * Tell state where the project is, from the `cwd` of the hook's input.
+ * Hooks call this as they read their input, before touching any state.
+ */
+export function setProjectDir(cwd: string): void {
+  hookProjectDir = cwd;
+}
+
+/**
+ * Get the project root: CLAUDE_PROJECT_DIR, which Claude Code sets for
+ * hooks, else the hook input's cwd. Only code run outside a hook falls back
+ * to the process's own working directory.
+ */
+function getProjectDir(): string {
+  return process.env.CLAUDE_PROJECT_DIR || hookProjectDir || process.cwd();
+}
+
+/**
+ * Get the directory state files are kept in, from STATE_DIR_ENV.
+ */
+export function getStateDir(): string {
+  const setting = process.env[STATE_DIR_ENV] || "tmp";
+  const projectDir = getProjectDir();
+
+  switch (setting) {
+    case "tmp":
+      return tmpdir();
+    case "project":
+      return join(projectDir, ".claude", "state");
+    case "xdg":
+      return join(
+        process.env.XDG_STATE_HOME || join(homedir(), ".local", "state"),
+        STATE_FILE_PREFIX
+      );
+    default:
+      return setting.startsWith("~/")
+        ? join(homedir(), setting.slice(2))
+        : resolve(projectDir, setting);
+  }
+}
+
+/**
+ * Get how long an idle session's state is kept, from STATE_TTL_ENV.
+ */
+export function getStateTtl(): number {
+  const setting = process.env[STATE_TTL_ENV];
+  if (!setting) {
+    return DEFAULT_STATE_TTL;
+  }
+  const ttl = Number(setting);
+  if (!Number.isInteger(ttl) || ttl < 0) {
+    console.error(
+      `[State] Ignoring ${STATE_TTL_ENV}=${setting}: must be a non-negative integer (ms)`
+    );
+    return DEFAULT_STATE_TTL;
+  }
+  return ttl;
+}
+
+/**
+ * Create the state directory if needed. One inside the project gets a
+ * .gitignore if it has none, so state files never show up as changes (or
+ * get committed).
+ */
+async function ensureStateDir(): Promise<void> {
+  const dir = getStateDir();
+  const fs = await import("fs/promises");
+  await fs.mkdir(dir, { recursive: true });
+
+  const path = relative(getProjectDir(), dir);
+  // Not the project root itself, which a "*" would hide entirely
+  if (path === "" || path.startsWith("..") || isAbsolute(path)) {
+    return;
+  }
+  try {
+    await fs.writeFile(join(dir, ".gitignore"), "*\n", { flag: "wx" });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+      console.error(`[State] Could not write ${dir}/.gitignore: ${error}`);
+    }
+  }
+}
+
+/**
+ * Sanitize a session ID for use in filenames.
+ */
+function toFileId(sessionId: string): string {
+  return sessionId.replace(/[^a-zA-Z0-9-_]/g, "_");
+}
+
 /**
  * Get the file path for a session's state file.
  */
 function getStatePath(sessionId: string): string {
-  // Sanitize session ID for use in filename
-  const safeId = sessionId.replace(/[^a-zA-Z0-9-_]/g, "_");
-  return join(tmpdir(), `${STATE_FILE_PREFIX}-${safeId}.json`);
+  return join(
+    getStateDir(),
+    `${STATE_FILE_PREFIX}-${toFileId(sessionId)}.json`
+  );
 }
 
 /**
- * Retrieve the current state for a session.
- * Returns null if no state exists.
+ * Read a session's state file as it is on disk.
  *
- * @param sessionId - The session ID to retrieve state for
- * @returns The state object or null if not found
+ * @returns The parsed JSON, or null if there is no file or it isn't JSON
  */
-export async function getState<T>(sessionId: string): Promise<T | null> {
-  const statePath = getStatePath(sessionId);
-
+async function readStateFile(sessionId: string): Promise<unknown> {
+  const file = Bun.file(getStatePath(sessionId));
+  if (!(await file.exists())) {
+    return null;
+  }
   try {
-    const file = Bun.file(statePath);
-    if (!(await file.exists())) {
-      return null;
-    }
-    const content = await file.text();
-    return JSON.parse(content) as T;
+    return JSON.parse(await file.text());
   } catch (error) {
-    // File doesn't exist or is corrupted
-    console.error(`[State] Error reading state: ${error}`);
+    console.error(`[State] Discarding unreadable state: ${error}`);
     return null;
   }
 }
@@ -87,104 +292,620 @@ export async function getState<T>(sessionId: string): Promise<T | null> {
  * @param sessionId - The session ID to save state for
  * @param state - The state object to save
  */
-export async function saveState<T>(sessionId: string, state: T): Promise<void> {
+async function saveState(
+  sessionId: string,
+  state: SessionState
+): Promise<void> {
   const statePath = getStatePath(sessionId);
-  const tempPath = `${statePath}.tmp`;
+  // Unique per writer, so concurrent saves don't write into one temp file
+  const tempPath = `${statePath}.${process.pid}-${randomUUID()}.tmp`;
+  const fs = await import("fs/promises");
 
   try {
     // Write to temp file first
     await Bun.write(tempPath, JSON.stringify(state, null, 2));
 
     // Rename for atomic update
-    const fs = await import("fs/promises");
     await fs.rename(tempPath, statePath);
   } catch (error) {
     // Fallback to direct write if rename fails
     console.error(`[State] Atomic write failed, using direct: ${error}`);
+    await fs.unlink(tempPath).catch(() => {});
     await Bun.write(statePath, JSON.stringify(state, null, 2));
   }
 }
 
+/**
+ * Retrieve the current state for a session.
+ * Returns fresh state if none exists.
+ *
+ * @param sessionId - The session ID to retrieve state for
+ * @returns The state, migrated to STATE_VERSION and validated
+ */
+export async function getState(sessionId: string): Promise<SessionState> {
+  return parseSessionState(await readStateFile(sessionId), sessionId);
+}
+
+/**
+ * Retrieve one section of a session's state.
+ *
+ * @param sessionId - The session ID to retrieve state for
+ * @param name - The section to retrieve
+ */
+export async function getSection<K extends SectionName>(
+  sessionId: string,
+  name: K
+): Promise<SessionSections[K]> {
+  return (await getState(sessionId))[name];
+}
+
+/**
+ * Whether a lock file was left behind by a process that is gone or hung.
+ *
+ * @param contents - The lock file's contents, as read just now
+ */
+async function isStaleLock(
+  lockPath: string,
+  contents: string
+): Promise<boolean> {
+  const fs = await import("fs/promises");
+  try {
+    const { pid, at } = JSON.parse(contents);
+    if (Date.now() - at > LOCK_STALE_MS) {
+      return true;
+    }
+    process.kill(pid, 0);
+    return false;
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException).code;
+    if (code === "ESRCH") {
+      return true; // owner is dead
+    }
+    if (code === "EPERM") {
+      return false; // owner is alive but not ours to signal
+    }
+    // Unreadable: caught mid-write. Judge by age.
+    try {
+      const { mtimeMs } = await fs.stat(lockPath);
+      return Date.now() - mtimeMs > LOCK_STALE_MS;
+    } catch {
+      return false;
+    }
+  }
+}
+
+/**
+ * Remove a stale lock, unless another process has broken it and taken the
+ * lock since. Breakers first take `<lock>.break` (created with O_EXCL), so
+ * only one breaks the lock at a time, and then delete the lock only if it
+ * still has the contents that were judged stale. A live lock is never
+ * moved or deleted.
+ *
+ * @param contents - The stale lock's contents
+ * @returns Whether the lock is worth trying again right away, false while
+ *   another process is breaking it
+ */
+async function breakLock(lockPath: string, contents: string): Promise<boolean> {
+  const fs = await import("fs/promises");
+  const breakPath = `${lockPath}.break`;
+  const breaker = JSON.stringify({ pid: process.pid, at: Date.now() });
+  try {
+    await fs.writeFile(breakPath, breaker, { flag: "wx" });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+      throw error;
+    }
+    // Someone else is breaking it; clear their claim only if they died
+    const claim = await fs.readFile(breakPath, "utf8").catch(() => null);
+    if (claim !== null && (await isStaleLock(breakPath, claim))) {
+      await releaseLock(breakPath, claim);
+    }
+    return false;
+  }
+
+  try {
+    const current = await fs.readFile(lockPath, "utf8").catch(() => null);
+    if (current === contents) {
+      console.error(`[State] Breaking stale lock ${lockPath}`);
+      await fs.unlink(lockPath).catch(() => {});
+    }
+  } finally {
+    await releaseLock(breakPath, breaker);
+  }
+  return true;
+}
+
+/**
+ * Take a session's state lock, waiting with jittered exponential backoff
+ * while another process holds it.
+ *
+ * @returns The lock file's contents, which identify this hold of the lock
+ * @throws StateLockError if the lock isn't free within LOCK_TIMEOUT_MS
+ */
+async function acquireLock(lockPath: string): Promise<string> {
+  const fs = await import("fs/promises");
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+  let delay = LOCK_RETRY_MIN_MS;
+
+  while (true) {
+    const owner = JSON.stringify({ pid: process.pid, at: Date.now() });
+    try {
+      // "wx" fails if the file exists, so only one process can create it
+      await fs.writeFile(lockPath, owner, { flag: "wx" });
+      return owner;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+        throw error;
+      }
+    }
+
+    const contents = await fs.readFile(lockPath, "utf8").catch(() => null);
+    if (contents === null) {
+      continue; // Released in between
+    }
+    if (
+      (await isStaleLock(lockPath, contents)) &&
+      (await breakLock(lockPath, contents))
+    ) {
+      continue;
+    }
+
+    if (Date.now() >= deadline) {
+      throw new StateLockError(lockPath);
+    }
+    await Bun.sleep(delay / 2 + Math.random() * (delay / 2));
+    delay = Math.min(delay * 2, LOCK_RETRY_MAX_MS);
+  }
+}
+
+/**
+ * Release a state lock, unless it was broken as stale and is now another
+ * process's.
+ */
+async function releaseLock(lockPath: string, owner: string): Promise<void> {
+  const fs = await import("fs/promises");
+  const contents = await fs.readFile(lockPath, "utf8").catch(() => null);
+  if (contents === owner) {
+    await fs.unlink(lockPath).catch(() => {});
+  }
+}
+
+/**
+ * Run a function while holding a session's state lock. Other processes
+ * calling withStateLock or updateState for the session wait until it's
+ * done.
+ *
+ * @param sessionId - The session whose state to lock
+ * @param fn - The critical section; keep it short
+ * @throws StateLockError if the lock isn't free within LOCK_TIMEOUT_MS
+ */
+export async function withStateLock<R>(
+  sessionId: string,
+  fn: () => Promise<R>
+): Promise<R> {
+  const lockPath = `${getStatePath(sessionId)}.lock`;
+  await ensureStateDir();
+  const owner = await acquireLock(lockPath);
+  try {
+    return await fn();
+  } finally {
+    await releaseLock(lockPath, owner);
+  }
+}
+
 /**
  * Update state using a modifier function.
- * Handles the get -> modify -> save pattern atomically.
+ * Handles the get -> modify -> save pattern atomically: the session's
+ * state is locked throughout, so concurrent updates are applied one after
+ * another rather than overwriting each other.
  *
  * @param sessionId - The session ID to update state for
- * @param updater - Function that receives current state and modifies it
- * @returns The updated state, or null if no state exists
+ * @param updater - Function that receives current state (fresh state if
+ *   none exists) and modifies it, or returns a replacement
+ * @returns The updated state
+ * @throws StateLockError if the lock isn't free within LOCK_TIMEOUT_MS
  */
-export async function updateState<T>(
+export async function updateState(
   sessionId: string,
-  updater: (state: T) => void
-): Promise<T | null> {
-  const state = await getState<T>(sessionId);
-  if (!state) {
-    return null;
+  updater: (state: SessionState) => SessionState | void
+): Promise<SessionState> {
+  return withStateLock(sessionId, async () => {
+    const state = await getState(sessionId);
+    const updated = updater(state) ?? state;
+    await saveState(sessionId, updated);
+    return updated;
+  });
+}
+
+/**
+ * Update one section of a session's state; see updateState.
+ *
+ * @param sessionId - The session ID to update state for
+ * @param name - The section to update
+ * @param updater - Function that receives the section and modifies it, or
+ *   returns a replacement
+ * @returns The updated section
+ * @throws StateLockError if the lock isn't free within LOCK_TIMEOUT_MS
+ */
+export async function updateSection<K extends SectionName>(
+  sessionId: string,
+  name: K,
+  updater: (section: SessionSections[K]) => SessionSections[K] | void
+): Promise<SessionSections[K]> {
+  const state: SessionSections = await updateState(sessionId, (state) => {
+    const sections: SessionSections = state;
+    sections[name] = updater(sections[name]) ?? sections[name];
+  });
+  return state[name];
+}
+
+/**
+ * Get the file path for one of a session's event logs.
+ */
+function getEventLogPath(sessionId: string, log: string): string {
+  return getStatePath(sessionId).replace(/\.json$/, `.${log}.jsonl`);
+}
+
+/**
+ * Append an entry to a session's event log, a JSON-lines file next to its
+ * state file. Each entry is written with a single append, so entries from
+ * hook processes running at the same time are all kept.
+ *
+ * @param sessionId - The session ID to log for
+ * @param log - Name of the log (e.g. "usage")
+ * @param entry - The entry to append; keep it small (one line)
+ */
+export async function appendEvent<T>(
+  sessionId: string,
+  log: string,
+  entry: T
+): Promise<void> {
+  await ensureStateDir();
+  const fs = await import("fs/promises");
+  await fs.appendFile(
+    getEventLogPath(sessionId, log),
+    `${JSON.stringify(entry)}\n`
+  );
+}
+
+/**
+ * Read every entry in a session's event log, oldest first.
+ * Returns an empty array if the log doesn't exist.
+ *
+ * @param sessionId - The session ID to read for
+ * @param log - Name of the log
+ */
+export async function readEvents<T>(
+  sessionId: string,
+  log: string
+): Promise<T[]> {
+  const file = Bun.file(getEventLogPath(sessionId, log));
+  if (!(await file.exists())) {
+    return [];
+  }
+  const events: T[] = [];
+  for (const line of (await file.text()).split("\n")) {
+    if (!line) continue;
+    try {
+      events.push(JSON.parse(line) as T);
+    } catch {
+      // A torn line from a crashed writer; skip it
+    }
   }
+  return events;
+}
 
-  updater(state);
-  await saveState(sessionId, state);
-  return state;
+/**
+ * List the files in the state directory that belong to sessions (state
+ * files, event logs, locks and temp files), grouped by sanitized session
+ * ID.
+ */
+async function listSessionFiles(): Promise<Map<string, string[]>> {
+  const dir = getStateDir();
+  const fs = await import("fs/promises");
+  let names: string[];
+  try {
+    names = await fs.readdir(dir);
+  } catch {
+    return new Map(); // No state directory yet
+  }
+
+  const sessions = new Map<string, string[]>();
+  for (const name of names) {
+    if (
+      !name.startsWith(`${STATE_FILE_PREFIX}-`) ||
+      !/\.(json|jsonl|lock|break|tmp)$/.test(name)
+    ) {
+      continue;
+    }
+    // Sanitized IDs have no dots, so the ID ends at the first one
+    const id = name.slice(STATE_FILE_PREFIX.length + 1).split(".")[0]!;
+    sessions.set(id, [...(sessions.get(id) ?? []), join(dir, name)]);
+  }
+  return sessions;
 }
 
 /**
- * Clear/delete state for a session.
+ * Clear/delete state for a session, including its event logs.
  *
  * @param sessionId - The session ID to clear state for
  */
 export async function clearState(sessionId: string): Promise<void> {
-  const statePath = getStatePath(sessionId);
+  const files = (await listSessionFiles()).get(toFileId(sessionId)) ?? [];
 
-  try {
-    const fs = await import("fs/promises");
-    await fs.unlink(statePath);
-  } catch {
-    // Ignore errors (file may not exist)
+  const fs = await import("fs/promises");
+  // Leave a held lock to its owner
+  for (const path of files.filter((f) => !/\.(lock|break)$/.test(f))) {
+    try {
+      await fs.unlink(path);
+    } catch {
+      // Ignore errors (file may already be gone)
+    }
   }
 }
 
+/**
+ * Delete the files of every session that hasn't been active for longer
+ * than the TTL. A session's last activity is the newest modification time
+ * among its files.
+ *
+ * @param ttl - Idle time in ms after which a session is swept (0 disables)
+ * @param keep - A session never to sweep, e.g. the one starting
+ * @returns The sanitized IDs of the sessions swept
+ */
+export async function sweepStaleState(
+  ttl: number = getStateTtl(),
+  keep?: string
+): Promise<string[]> {
+  if (ttl <= 0) {
+    return [];
+  }
+
+  const fs = await import("fs/promises");
+  const now = Date.now();
+  const swept: string[] = [];
+
+  for (const [id, files] of await listSessionFiles()) {
+    if (keep !== undefined && id === toFileId(keep)) {
+      continue;
+    }
+    const mtimes = await Promise.all(
+      files.map((f) =>
+        fs.stat(f).then(
+          (s) => s.mtimeMs,
+          () => now // Gone already; don't let it make the session look old
+        )
+      )
+    );
+    if (now - Math.max(...mtimes) <= ttl) {
+      continue;
+    }
+    await Promise.all(files.map((f) => fs.unlink(f).catch(() => {})));
+    swept.push(id);
+  }
+  return swept;
+}
+
 // =============================================================================
-// EXAMPLE STATE INTERFACE (customize for your plugin)
+// SESSION STATE SCHEMA
 // =============================================================================
 
 /**
- * Example state interface - customize this for your plugin's needs.
- *
- * Common fields you might want:
- * - sessionId: Track which session this belongs to
- * - startedAt: When the session started
- * - promptCount: How many prompts have been processed
- * - flags: Boolean flags for various conditions
- * - history: Array of events/actions
- * - denialCount: For stop hooks, track how many times stop was blocked
+ * One blocked stop: which gates failed and the errors they reported.
  */
-export interface ExampleSessionState {
-  sessionId: string;
-  startedAt: number;
-  promptCount: number;
-  flags: {
-    [key: string]: boolean;
-  };
-  // Add your custom fields here
+export interface StopAttempt {
+  at: number;
+  failedGates: string[];
+  errorCount: number;
+  /** One fingerprint per error, used to tell progress from going in circles */
+  fingerprints: string[];
 }
 
 /**
- * State interface for the quality gate stop hook.
- * Tracks denial count to implement a safety valve.
+ * A gate that passed, and a hash of the inputs it passed with.
  */
-export interface StopHookState {
-  sessionId: string;
+export interface CachedGateResult {
+  key: string;
+  at: number;
+  durationMs?: number;
+}
+
+/**
+ * The Stop hook's state: blocked attempts, for the safety valve (see
+ * src/valve.ts), and passing gate results (see src/cache.ts).
+ */
+export interface StopSection {
   denialCount: number;
+  /** Failed attempts since the last user prompt, oldest first */
+  attempts: StopAttempt[];
+  /** The safety valve let Claude stop; don't block again until a new prompt */
+  valveReleased: boolean;
+  /** Last passing result per gate name */
+  gateCache: Record<string, CachedGateResult>;
 }
 
 /**
- * Create initial state for a new session.
+ * The files Claude touched this session, recorded by PostToolUse (see
+ * src/tracking.ts).
  */
-export function createInitialState(sessionId: string): ExampleSessionState {
-  return {
-    sessionId,
-    startedAt: Date.now(),
-    promptCount: 0,
-    flags: {},
-  };
+export interface TrackingSection {
+  /** Paths relative to the session's cwd */
+  touchedFiles: string[];
+}
+
+/**
+ * Every feature's section of the session state.
+ */
+export interface SessionSections {
+  stop: StopSection;
+  tracking: TrackingSection;
+}
+
+export type SectionName = keyof SessionSections;
+
+/**
+ * A session's state document, as stored in its state file.
+ */
+export interface SessionState extends SessionSections {
+  version: number;
+  sessionId: string;
+}
+
+/**
+ * How a section starts and what a stored one must look like.
+ */
+interface SectionSchema<T> {
+  /** The section for a session that hasn't used the feature yet */
+  initial: () => T;
+  /** Problems with a stored section; empty if it's valid */
+  validate: (value: unknown) => string[];
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isCount(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0;
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === "string");
+}
+
+function isStopAttempt(value: unknown): value is StopAttempt {
+  return (
+    isPlainObject(value) &&
+    typeof value.at === "number" &&
+    isStringArray(value.failedGates) &&
+    isCount(value.errorCount) &&
+    isStringArray(value.fingerprints)
+  );
+}
+
+function isCachedGateResult(value: unknown): value is CachedGateResult {
+  return (
+    isPlainObject(value) &&
+    typeof value.key === "string" &&
+    typeof value.at === "number" &&
+    (value.durationMs === undefined || typeof value.durationMs === "number")
+  );
+}
+
+const SECTIONS: { [K in SectionName]: SectionSchema<SessionSections[K]> } = {
+  stop: {
+    initial: () => ({
+      denialCount: 0,
+      attempts: [],
+      valveReleased: false,
+      gateCache: {},
+    }),
+    validate: (value) => {
+      if (!isPlainObject(value)) {
+        return ["must be an object"];
+      }
+      const problems: string[] = [];
+      if (!isCount(value.denialCount)) {
+        problems.push("denialCount must be a non-negative integer");
+      }
+      if (
+        !Array.isArray(value.attempts) ||
+        !value.attempts.every(isStopAttempt)
+      ) {
+        problems.push("attempts must be an array of stop attempts");
+      }
+      if (typeof value.valveReleased !== "boolean") {
+        problems.push("valveReleased must be true or false");
+      }
+      if (
+        !isPlainObject(value.gateCache) ||
+        !Object.values(value.gateCache).every(isCachedGateResult)
+      ) {
+        problems.push("gateCache must map gate names to cached results");
+      }
+      return problems;
+    },
+  },
+  tracking: {
+    initial: () => ({ touchedFiles: [] }),
+    validate: (value) =>
+      isPlainObject(value) && isStringArray(value.touchedFiles)
+        ? []
+        : ["touchedFiles must be an array of paths"],
+  },
+};
+
+/**
+ * Create fresh state for a session, with every section at its initial
+ * value.
+ */
+export function createSessionState(sessionId: string): SessionState {
+  const sections = Object.fromEntries(
+    Object.entries(SECTIONS).map(([name, schema]) => [name, schema.initial()])
+  ) as unknown as SessionSections;
+  return { version: STATE_VERSION, sessionId, ...sections };
+}
+
+/**
+ * Turn a stored state document into current, valid state: migrate it to
+ * STATE_VERSION, then keep each section that matches its schema and reset
+ * the rest.
+ *
+ * @param stored - The parsed state file, or null if there is none
+ * @param sessionId - The session the state belongs to
+ */
+export function parseSessionState(
+  stored: unknown,
+  sessionId: string
+): SessionState {
+  const state = createSessionState(sessionId);
+  if (stored === null) {
+    return state;
+  }
+  if (!isPlainObject(stored)) {
+    console.error(`[State] Discarding state: not an object`);
+    return state;
+  }
+
+  const version = stored.version ?? 0;
+  if (!isCount(version) || version > STATE_VERSION) {
+    console.error(
+      `[State] Discarding state with unknown version ${JSON.stringify(
+        version
+      )} (this plugin reads version ${STATE_VERSION})`
+    );
+    return state;
+  }
+
+  let document = stored;
+  for (let v = version; v < STATE_VERSION; v++) {
+    document = { ...MIGRATIONS[v]!(document), version: v + 1 };
+  }
+
+  for (const name of Object.keys(SECTIONS) as SectionName[]) {
+    loadSection(state, name, document[name]);
+  }
+  return state;
+}
+
+/**
+ * Copy a stored section into state if it's valid. A missing section keeps
+ * its initial value; an invalid one does too, with a warning.
+ */
+function loadSection<K extends SectionName>(
+  state: SessionSections,
+  name: K,
+  stored: unknown
+): void {
+  if (stored === undefined) {
+    return;
+  }
+  const problems = SECTIONS[name].validate(stored);
+  if (problems.length > 0) {
+    console.error(
+      `[State] Resetting invalid "${name}" state: ${problems.join("; ")}`
+    );
+    return;
+  }
+  state[name] = stored as SessionSections[K];
 }
@@ -0,0 +1,203 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  detectToolchain,
+  isPackageManager,
+  type ToolchainId,
+} from "./toolchain";
+
+let cwd: string;
+
+beforeEach(async () => {
+  cwd = await mkdtemp(join(tmpdir(), "toolchain-test-"));
+});
+
+afterEach(async () => {
+  await rm(cwd, { recursive: true, force: true });
+});
+
+async function project(files: Record<string, string>): Promise<void> {
+  for (const [name, content] of Object.entries(files)) {
+    await writeFile(join(cwd, name), content);
+  }
+}
+
+/**
+ * The command lines of a project's default gates, by gate name.
+ */
+async function commandLines(): Promise<Record<string, string>> {
+  const { defaultGates } = await detectToolchain(cwd);
+  return Object.fromEntries(
+    defaultGates.map((g) => [g.name, [g.command, ...g.args].join(" ")])
+  );
+}
+
+const PACKAGE_JSON = JSON.stringify({ name: "demo" });
+
+// One project per ecosystem: its files, and the toolchain and marker found
+const ECOSYSTEMS: [string, Record<string, string>, ToolchainId, string][] = [
+  [
+    "bun.lock",
+    { "package.json": PACKAGE_JSON, "bun.lock": "" },
+    "bun",
+    "bun.lock",
+  ],
+  [
+    "bun.lockb",
+    { "package.json": PACKAGE_JSON, "bun.lockb": "" },
+    "bun",
+    "bun.lockb",
+  ],
+  [
+    "pnpm",
+    { "package.json": PACKAGE_JSON, "pnpm-lock.yaml": "" },
+    "pnpm",
+    "pnpm-lock.yaml",
+  ],
+  [
+    "yarn",
+    { "package.json": PACKAGE_JSON, "yarn.lock": "" },
+    "yarn",
+    "yarn.lock",
+  ],
+  [
+    "npm lockfile",
+    { "package.json": PACKAGE_JSON, "package-lock.json": "{}" },
+    "npm",
+    "package-lock.json",
+  ],
+  [
+    "npm without a lockfile",
+    { "package.json": PACKAGE_JSON },
+    "npm",
+    "package.json",
+  ],
+  [
+    "cargo",
+    { "Cargo.toml": '[package]\nname = "demo"\n' },
+    "cargo",
+    "Cargo.toml",
+  ],
+  ["go", { "go.mod": "module example.com/demo\n" }, "go", "go.mod"],
+  [
+    "python",
+    { "pyproject.toml": '[project]\nname = "demo"\n' },
+    "python",
+    "pyproject.toml",
+  ],
+  ["make", { Makefile: "test:\n\ttrue\n" }, "make", "Makefile"],
+];
+
+describe("detectToolchain", () => {
+  for (const [label, files, id, marker] of ECOSYSTEMS) {
+    test(`detects ${label}`, async () => {
+      await project(files);
+      expect(await detectToolchain(cwd)).toMatchObject({ id, marker });
+    });
+  }
+
+  test("prefers package.json's packageManager over lockfiles", async () => {
+    await project({
+      "package.json": JSON.stringify({ packageManager: "pnpm@9.1.0" }),
+      "yarn.lock": "",
+    });
+    expect(await detectToolchain(cwd)).toMatchObject({
+      id: "pnpm",
+      marker: "package.json#packageManager",
+    });
+  });
+
+  test("prefers a JS lockfile over other manifests", async () => {
+    await project({ "bun.lock": "", "Cargo.toml": "", Makefile: "" });
+    expect((await detectToolchain(cwd)).id).toBe("bun");
+  });
+
+  test("falls back to bun when nothing matches", async () => {
+    expect(await detectToolchain(cwd)).toMatchObject({
+      id: "bun",
+      marker: null,
+    });
+  });
+
+  test("uses a forced toolchain", async () => {
+    await project({ "package.json": PACKAGE_JSON, "bun.lock": "" });
+    expect(await detectToolchain(cwd, "go")).toMatchObject({
+      id: "go",
+      marker: "config",
+    });
+  });
+});
+
+describe("default gates", () => {
+  test("run package.json scripts with the package manager", async () => {
+    await project({ "package.json": PACKAGE_JSON, "pnpm-lock.yaml": "" });
+    expect(await commandLines()).toEqual({
+      typecheck: "pnpm run typecheck",
+      lint: "pnpm run lint",
+      knip: "pnpm run knip",
+      test: "pnpm run test",
+    });
+    const { defaultGates } = await detectToolchain(cwd);
+    expect(defaultGates.find((g) => g.name === "test")?.dependsOn).toEqual([
+      "typecheck",
+    ]);
+  });
+
+  test("cargo", async () => {
+    await project({ "Cargo.toml": "" });
+    expect(await commandLines()).toEqual({
+      typecheck: "cargo check --all-targets",
+      lint: "cargo clippy --all-targets -- -D warnings",
+      format: "cargo fmt --check",
+      test: "cargo test",
+    });
+  });
+
+  test("go", async () => {
+    await project({ "go.mod": "" });
+    expect(await commandLines()).toEqual({
+      typecheck: "go build ./...",
+      lint: "go vet ./...",
+      test: "go test ./...",
+    });
+  });
+
+  test("python runs only the tools pyproject.toml configures", async () => {
+    await project({
+      "pyproject.toml":
+        "[tool.ruff]\nline-length = 100\n\n[tool.pytest.ini_options]\n",
+    });
+    expect(await commandLines()).toEqual({
+      lint: "ruff check .",
+      test: "pytest",
+    });
+  });
+
+  test("python with mypy makes tests wait for it", async () => {
+    await project({ "pyproject.toml": "[tool.mypy]\n[tool.pytest]\n" });
+    const { defaultGates } = await detectToolchain(cwd);
+    expect(defaultGates).toEqual([
+      { name: "typecheck", command: "mypy", args: ["."] },
+      { name: "test", command: "pytest", args: [], dependsOn: ["typecheck"] },
+    ]);
+  });
+
+  test("make runs only the targets the Makefile defines", async () => {
+    await project({
+      Makefile: "check := yes\n\nlint:\n\tlint\n\ntest: build\n\ttest\n",
+    });
+    expect(await commandLines()).toEqual({
+      lint: "make lint",
+      test: "make test",
+    });
+  });
+});
+
+describe("isPackageManager", () => {
+  test("knows the JS package managers", () => {
+    expect(["bun", "npm", "pnpm", "yarn"].every(isPackageManager)).toBe(true);
+    expect(isPackageManager("cargo")).toBe(false);
+  });
+});
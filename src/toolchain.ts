@@ -0,0 +1,270 @@
+/**
+ * TOOLCHAIN DETECTION
+ * ====================
+ * Works out which toolchain a project uses so the Stop hook can run the
+ * right commands without any configuration.
+ *
+ * Detection looks at lockfiles and manifests in the project root, in this
+ * order (first match wins):
+ *
+ * | Marker                         | Toolchain | Runner            |
+ * |--------------------------------|-----------|-------------------|
+ * | package.json "packageManager"  | that PM   | `<pm> run <script>` |
+ * | bun.lock / bun.lockb           | bun       | `bun run <script>`  |
+ * | pnpm-lock.yaml                 | pnpm      | `pnpm run <script>` |
+ * | yarn.lock                      | yarn      | `yarn run <script>` |
+ * | package-lock.json              | npm       | `npm run <script>`  |
+ * | package.json (no lockfile)     | npm       | `npm run <script>`  |
+ * | Cargo.toml                     | cargo     | cargo check/clippy/test |
+ * | go.mod                         | go        | go build/vet/test   |
+ * | pyproject.toml                 | python    | mypy/ruff/pytest    |
+ * | Makefile                       | make      | make <target>       |
+ *
+ * If nothing matches, the bun defaults are used (matching the original
+ * behavior of this plugin); their scripts won't exist, so they are skipped.
+ */
+
+import { join } from "path";
+import type { QualityGate } from "./config";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type PackageManager = "bun" | "npm" | "pnpm" | "yarn";
+
+export type ToolchainId = PackageManager | "cargo" | "go" | "python" | "make";
+
+export interface Toolchain {
+  id: ToolchainId;
+  /** The file that identified the toolchain (null when nothing matched) */
+  marker: string | null;
+  /** Gates to run when the project has no explicit gate config */
+  defaultGates: QualityGate[];
+}
+
+export const TOOLCHAIN_IDS: ToolchainId[] = [
+  "bun",
+  "npm",
+  "pnpm",
+  "yarn",
+  "cargo",
+  "go",
+  "python",
+  "make",
+];
+
+const PACKAGE_MANAGERS: PackageManager[] = ["bun", "npm", "pnpm", "yarn"];
+
+/**
+ * Package.json scripts run as gates for JavaScript projects, in order.
+ */
+const PACKAGE_SCRIPT_GATES = ["typecheck", "lint", "knip", "test"];
+
+/**
+ * Makefile targets run as gates for make-based projects, in order.
+ */
+const MAKE_TARGET_GATES = ["typecheck", "check", "lint", "test"];
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+async function fileExists(cwd: string, name: string): Promise<boolean> {
+  return Bun.file(join(cwd, name)).exists();
+}
+
+async function readText(cwd: string, name: string): Promise<string | null> {
+  try {
+    const file = Bun.file(join(cwd, name));
+    return (await file.exists()) ? await file.text() : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read the package manager named in package.json's "packageManager" field
+ * (e.g. "pnpm@9.1.0" → "pnpm").
+ */
+async function readPackageManagerField(
+  cwd: string
+): Promise<PackageManager | null> {
+  const text = await readText(cwd, "package.json");
+  if (!text) return null;
+  try {
+    const field = JSON.parse(text).packageManager;
+    if (typeof field !== "string") return null;
+    const name = field.split("@")[0] as PackageManager;
+    return PACKAGE_MANAGERS.includes(name) ? name : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check whether a Makefile defines a target (a line starting with "target:").
+ */
+function hasMakeTarget(makefile: string, target: string): boolean {
+  return new RegExp(`^${target}\\s*:(?!=)`, "m").test(makefile);
+}
+
+// =============================================================================
+// DEFAULT GATES
+// =============================================================================
+
+/**
+ * Make the "test" gate wait for "typecheck" when both are present, so a
+ * type error isn't reported twice.
+ */
+function withTestAfterTypecheck(gates: QualityGate[]): QualityGate[] {
+  if (!gates.some((g) => g.name === "typecheck")) return gates;
+  return gates.map((g) =>
+    g.name === "test" ? { ...g, dependsOn: ["typecheck"] } : g
+  );
+}
+
+/**
+ * Build the default gate set for a toolchain.
+ *
+ * @param id - The toolchain to build gates for
+ * @param cwd - The project root, used to filter Python and Make gates to the
+ *   tools and targets the project actually configures
+ */
+export async function defaultGatesFor(
+  id: ToolchainId,
+  cwd: string
+): Promise<QualityGate[]> {
+  switch (id) {
+    case "bun":
+    case "npm":
+    case "pnpm":
+    case "yarn":
+      return PACKAGE_SCRIPT_GATES.map((script) => ({
+        name: script,
+        command: id,
+        args: ["run", script],
+        ...(script === "test" && { dependsOn: ["typecheck"] }),
+      }));
+
+    case "cargo":
+      return [
+        {
+          name: "typecheck",
+          command: "cargo",
+          args: ["check", "--all-targets"],
+        },
+        {
+          name: "lint",
+          command: "cargo",
+          args: ["clippy", "--all-targets", "--", "-D", "warnings"],
+        },
+        { name: "format", command: "cargo", args: ["fmt", "--check"] },
+        {
+          name: "test",
+          command: "cargo",
+          args: ["test"],
+          dependsOn: ["typecheck"],
+        },
+      ];
+
+    case "go":
+      return [
+        { name: "typecheck", command: "go", args: ["build", "./..."] },
+        { name: "lint", command: "go", args: ["vet", "./..."] },
+        {
+          name: "test",
+          command: "go",
+          args: ["test", "./..."],
+          dependsOn: ["typecheck"],
+        },
+      ];
+
+    case "python": {
+      // Only run tools the project has configured in pyproject.toml
+      const pyproject = (await readText(cwd, "pyproject.toml")) ?? "";
+      const gates: QualityGate[] = [];
+      if (/^\[tool\.mypy\]/m.test(pyproject)) {
+        gates.push({ name: "typecheck", command: "mypy", args: ["."] });
+      }
+      if (/^\[tool\.ruff/m.test(pyproject)) {
+        gates.push({ name: "lint", command: "ruff", args: ["check", "."] });
+      }
+      if (/^\[tool\.pytest/m.test(pyproject)) {
+        gates.push({ name: "test", command: "pytest", args: [] });
+      }
+      return withTestAfterTypecheck(gates);
+    }
+
+    case "make": {
+      const makefile = (await readText(cwd, "Makefile")) ?? "";
+      return withTestAfterTypecheck(
+        MAKE_TARGET_GATES.filter((t) => hasMakeTarget(makefile, t)).map(
+          (target) => ({ name: target, command: "make", args: [target] })
+        )
+      );
+    }
+  }
+}
+
+// =============================================================================
+// DETECTION
+// =============================================================================
+
+/**
+ * Detect which toolchain id a project uses, without building gates.
+ */
+async function detectToolchainId(
+  cwd: string
+): Promise<{ id: ToolchainId; marker: string | null }> {
+  const declared = await readPackageManagerField(cwd);
+  if (declared) {
+    return { id: declared, marker: "package.json#packageManager" };
+  }
+
+  const markers: [string, ToolchainId][] = [
+    ["bun.lock", "bun"],
+    ["bun.lockb", "bun"],
+    ["pnpm-lock.yaml", "pnpm"],
+    ["yarn.lock", "yarn"],
+    ["package-lock.json", "npm"],
+    ["package.json", "npm"],
+    ["Cargo.toml", "cargo"],
+    ["go.mod", "go"],
+    ["pyproject.toml", "python"],
+    ["Makefile", "make"],
+  ];
+
+  for (const [marker, id] of markers) {
+    if (await fileExists(cwd, marker)) {
+      return { id, marker };
+    }
+  }
+
+  return { id: "bun", marker: null };
+}
+
+/**
+ * Detect the project's toolchain and its default quality gates.
+ *
+ * @param cwd - The project root (the session's working directory)
+ * @param override - Force a specific toolchain instead of detecting one
+ */
+export async function detectToolchain(
+  cwd: string,
+  override?: ToolchainId
+): Promise<Toolchain> {
+  const { id, marker } = override
+    ? { id: override, marker: "config" }
+    : await detectToolchainId(cwd);
+
+  return { id, marker, defaultGates: await defaultGatesFor(id, cwd) };
+}
+
+/**
+ * Whether a command is a JavaScript package manager (and so runs
+ * package.json scripts via "<pm> run <script>").
+ */
+export function isPackageManager(command: string): command is PackageManager {
+  return PACKAGE_MANAGERS.includes(command as PackageManager);
+}
@@ -0,0 +1,67 @@
+import { describe, expect, test } from "bun:test";
+import { homedir } from "os";
+import { join } from "path";
+import { extractBashWrites, extractTouchedFiles } from "./tracking";
+
+describe("extractTouchedFiles", () => {
+  test("reads the path of file-editing tools", () => {
+    expect(extractTouchedFiles("Write", { file_path: "/repo/a.ts" })).toEqual([
+      "/repo/a.ts",
+    ]);
+    expect(extractTouchedFiles("MultiEdit", { file_path: "b.ts" })).toEqual([
+      "b.ts",
+    ]);
+    expect(
+      extractTouchedFiles("NotebookEdit", { notebook_path: "c.ipynb" })
+    ).toEqual(["c.ipynb"]);
+  });
+
+  test("reads what a Bash command writes", () => {
+    expect(
+      extractTouchedFiles("Bash", { command: "echo x > out.txt && ls" })
+    ).toEqual(["out.txt"]);
+  });
+
+  test("ignores other tools and malformed input", () => {
+    expect(extractTouchedFiles("Read", { file_path: "a.ts" })).toEqual([]);
+    expect(extractTouchedFiles("Write", { file_path: 1 })).toEqual([]);
+    expect(extractTouchedFiles("Bash", "echo x > f")).toEqual([]);
+  });
+});
+
+describe("extractBashWrites", () => {
+  test("lists redirect targets and files commands write", () => {
+    expect(
+      extractBashWrites("echo a > a.txt; cat a.txt | tee b.txt >> c.txt")
+    ).toEqual(["a.txt", "c.txt", "b.txt"]);
+    expect(extractBashWrites("sed -i 's/x/y/' src/a.ts src/b.ts")).toEqual([
+      "src/a.ts",
+      "src/b.ts",
+    ]);
+  });
+
+  test("follows cd", () => {
+    expect(extractBashWrites("cd sub && echo x > f.ts")).toEqual(["sub/f.ts"]);
+    expect(
+      extractBashWrites("cd pkg; cd src && touch a.ts; cd .. && touch b.ts")
+    ).toEqual(["pkg/src/a.ts", "pkg/b.ts"]);
+    expect(extractBashWrites("cd /tmp && echo x > f.ts")).toEqual([
+      "/tmp/f.ts",
+    ]);
+    expect(extractBashWrites("cd && touch f.ts")).toEqual([
+      join(homedir(), "f.ts"),
+    ]);
+  });
+
+  test("nested commands write where the command running them is", () => {
+    expect(extractBashWrites("cd sub && bash -c 'echo x > f.ts'")).toEqual([
+      "sub/f.ts",
+    ]);
+  });
+
+  test("drops relative targets after a cd it can't follow", () => {
+    expect(
+      extractBashWrites('cd "$DIR" && echo x > f.ts && echo y > /tmp/g.ts')
+    ).toEqual(["/tmp/g.ts"]);
+  });
+});
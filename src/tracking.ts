@@ -0,0 +1,187 @@
+/**
+ * SESSION CHANGE TRACKING
+ * ========================
+ * Records which files Claude touched during a session, so the Stop hook
+ * gates on Claude's own changes rather than everything dirty in the repo
+ * (like edits the developer made by hand before starting the session).
+ *
+ * PostToolUse calls `recordToolChanges` after every tool call. Files are
+ * taken from:
+ * - Write / Edit / MultiEdit: `file_path`
+ * - NotebookEdit: `notebook_path`
+ * - Bash: targets of commands that obviously write files (`>`/`>>`
+ *   redirects, tee, touch, cp, mv, rm, sed -i...; see src/shell.ts),
+ *   following any `cd` before them.
+ *   Anything else a command writes (codegen scripts, formatters) is not
+ *   detectable this way.
+ *
+ * Paths are stored relative to the session's working directory.
+ */
+
+import { homedir } from "os";
+import { isAbsolute, join, normalize, relative } from "path";
+import type { ChangeTracking } from "./config";
+import { getChangedFiles, isGitRepository } from "./git";
+import {
+  commandName,
+  parseShellCommand,
+  writeTargets,
+  type SimpleCommand,
+} from "./shell";
+import { getSection, updateSection } from "./state";
+
+// =============================================================================
+// TOOL INPUT EXTRACTION
+// =============================================================================
+
+/**
+ * Directory a `cd` leads to, from `dir` (relative to where the command
+ * line starts, "" for there). Null once it can't be known.
+ */
+function changeDirectory(
+  dir: string | null,
+  target: string | undefined
+): string | null {
+  if (target === undefined || target === "~") return homedir();
+  if (target.startsWith("~/")) return join(homedir(), target.slice(2));
+  if (target === "-" || /\$|`/.test(target)) return null;
+  if (isAbsolute(target)) return target;
+  return dir === null ? null : join(dir, target);
+}
+
+/**
+ * Best-effort list of files a Bash command writes, relative to the
+ * directory it starts in. `cd` is followed, so `cd sub && echo x > f.ts`
+ * writes `sub/f.ts`; after a `cd` to a directory only known at run time
+ * (`cd "$DIR"`), relative targets are dropped.
+ */
+export function extractBashWrites(command: string): string[] {
+  const files: string[] = [];
+  const dirs = new Map<SimpleCommand, string | null>();
+  let dir: string | null = "";
+
+  for (const cmd of parseShellCommand(command)) {
+    // Nested commands run where the top-level command running them does
+    const here = cmd.parent ? (dirs.get(cmd.parent) ?? dir) : dir;
+    dirs.set(cmd, here);
+
+    for (const file of writeTargets(cmd)) {
+      if (isAbsolute(file)) files.push(file);
+      else if (here !== null) files.push(here ? join(here, file) : file);
+    }
+
+    const name = commandName(cmd);
+    if (!cmd.parent && (name === "cd" || name === "pushd")) {
+      dir = changeDirectory(
+        dir,
+        cmd.argv.slice(1).find((a) => !a.startsWith("-"))
+      );
+    }
+  }
+
+  return [...new Set(files)];
+}
+
+/**
+ * Get the files a tool call wrote, as given in its input.
+ *
+ * @param toolName - The tool that ran
+ * @param toolInput - The tool's input parameters
+ * @returns File paths as the tool received them (absolute or relative)
+ */
+export function extractTouchedFiles(
+  toolName: string,
+  toolInput: unknown
+): string[] {
+  const input = (toolInput ?? {}) as Record<string, unknown>;
+
+  switch (toolName) {
+    case "Write":
+    case "Edit":
+    case "MultiEdit":
+      return typeof input.file_path === "string" ? [input.file_path] : [];
+    case "NotebookEdit":
+      return typeof input.notebook_path === "string"
+        ? [input.notebook_path]
+        : [];
+    case "Bash":
+      return typeof input.command === "string"
+        ? extractBashWrites(input.command)
+        : [];
+    default:
+      return [];
+  }
+}
+
+// =============================================================================
+// STATE
+// =============================================================================
+
+/**
+ * Normalize a tool-supplied path to be relative to the session cwd.
+ */
+function toSessionPath(cwd: string, file: string): string {
+  return isAbsolute(file) ? relative(cwd, file) : normalize(file);
+}
+
+/**
+ * Record the files a tool call touched in session state.
+ *
+ * @returns The newly recorded paths (relative to cwd)
+ */
+export async function recordToolChanges(
+  sessionId: string,
+  cwd: string,
+  toolName: string,
+  toolInput: unknown
+): Promise<string[]> {
+  const touched = extractTouchedFiles(toolName, toolInput).map((f) =>
+    toSessionPath(cwd, f)
+  );
+  if (touched.length === 0) {
+    return [];
+  }
+
+  // Parallel tool calls record at the same time; updateSection serializes
+  // them
+  let added: string[] = [];
+  await updateSection(sessionId, "tracking", (tracking) => {
+    const known = new Set(tracking.touchedFiles);
+    added = touched.filter((f) => !known.has(f));
+    tracking.touchedFiles = [...known, ...added];
+  });
+  return added;
+}
+
+/**
+ * Get the files Claude touched this session (relative to cwd).
+ */
+export async function getTouchedFiles(sessionId: string): Promise<string[]> {
+  return (await getSection(sessionId, "tracking")).touchedFiles;
+}
+
+/**
+ * Get the files the quality gates should check.
+ *
+ * With "session" tracking these are the files Claude touched that git still
+ * reports as changed (so reverted edits don't count), or every touched file
+ * outside a git repository. With "git" tracking, every changed file counts.
+ */
+export async function resolveChangedFiles(
+  cwd: string,
+  options: {
+    changeTracking: ChangeTracking;
+    baseRef?: string;
+    touchedFiles: string[];
+  }
+): Promise<string[]> {
+  const { changeTracking, baseRef, touchedFiles } = options;
+  if (changeTracking === "git") {
+    return getChangedFiles(cwd, { baseRef });
+  }
+  if (!(await isGitRepository(cwd))) {
+    return touchedFiles;
+  }
+  const gitChanged = new Set(await getChangedFiles(cwd, { baseRef }));
+  return touchedFiles.filter((f) => gitChanged.has(f));
+}
@@ -0,0 +1,107 @@
+import { afterAll, beforeAll, describe, expect, spyOn, test } from "bun:test";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { applyTransformers, DEFAULT_TRANSFORM_SETTINGS } from "./transform";
+
+let cwd: string;
+
+beforeAll(async () => {
+  cwd = await mkdtemp(join(tmpdir(), "transform-test-"));
+  await writeFile(
+    join(cwd, "package.json"),
+    JSON.stringify({ scripts: { test: "vitest" } })
+  );
+  await writeFile(join(cwd, "pnpm-lock.yaml"), "");
+});
+
+afterAll(async () => {
+  await rm(cwd, { recursive: true, force: true });
+});
+
+async function transform(
+  toolInput: unknown,
+  settings = DEFAULT_TRANSFORM_SETTINGS
+) {
+  return applyTransformers("Bash", toolInput, cwd, settings);
+}
+
+describe("bash-timeout", () => {
+  const settings = {
+    ...DEFAULT_TRANSFORM_SETTINGS,
+    defaultBashTimeout: 300_000,
+  };
+
+  test("is off unless defaultBashTimeout is set", async () => {
+    expect((await transform({ command: "ls" })).changes).toEqual([]);
+  });
+
+  test("gives a Bash call without a timeout the default one", async () => {
+    const { input, changes } = await transform({ command: "ls" }, settings);
+    expect(input).toEqual({ command: "ls", timeout: 300_000 });
+    expect(changes.map((c) => c.id)).toEqual(["bash-timeout"]);
+  });
+
+  test("keeps a timeout Claude set", async () => {
+    const { input } = await transform(
+      { command: "ls", timeout: 1000 },
+      settings
+    );
+    expect(input.timeout).toBe(1000);
+  });
+
+  test("leaves malformed input alone", async () => {
+    expect((await transform({ command: 42 }, settings)).changes).toEqual([]);
+    expect((await transform({}, settings)).changes).toEqual([]);
+    expect((await transform("ls", settings)).changes).toEqual([]);
+  });
+});
+
+describe("command rewrites", () => {
+  const settings = {
+    ...DEFAULT_TRANSFORM_SETTINGS,
+    disabled: ["bash-timeout"],
+  };
+
+  test("removes --no-verify and -n from git commit", async () => {
+    const { input } = await transform(
+      { command: "git commit -anm fix && git push --no-verify" },
+      settings
+    );
+    expect(input.command).toBe("git commit -am fix && git push");
+  });
+
+  test("routes npm to the project's package manager", async () => {
+    const { input } = await transform({ command: "npm install zod" }, settings);
+    expect(input.command).toBe("pnpm add zod");
+  });
+
+  test("makes vitest exit instead of watching", async () => {
+    const { input, changes } = await transform(
+      { command: "npm test" },
+      settings
+    );
+    expect(input.command).toBe("pnpm test --run");
+    expect(changes.map((c) => c.id)).toEqual([
+      "route-package-manager",
+      "vitest-run",
+    ]);
+  });
+
+  test("only reads the project for package manager commands", async () => {
+    const file = spyOn(Bun, "file");
+    try {
+      await transform({ command: "git status && vitest" }, settings);
+      await transform(
+        { command: "npm test" },
+        { ...settings, disabled: ["route-package-manager", "vitest-run"] }
+      );
+      expect(file).not.toHaveBeenCalled();
+
+      await transform({ command: "npm test" }, settings);
+      expect(file).toHaveBeenCalled();
+    } finally {
+      file.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,491 @@
+/**
+ * INPUT TRANSFORMERS
+ * ===================
+ * Rewrite tool inputs in the PreToolUse hook before the tool runs, through
+ * the hook's `updatedInput` output.
+ *
+ * Built-in transformers:
+ * - git-no-verify: drops `--no-verify` (and `-n`) from `git commit` and
+ *   `--no-verify` from `git push`, so hooks always run
+ * - route-package-manager: rewrites `npm install/ci/run/...` for the
+ *   project's package manager (pnpm, yarn or bun), detected as in
+ *   src/toolchain.ts
+ * - vitest-run: adds `--run` to vitest so it doesn't start in watch mode,
+ *   including `npm test` when the script is plain `vitest`
+ * - bash-timeout: gives Bash calls without a `timeout` the one set with
+ *   `defaultBashTimeout`; off unless it is set
+ *
+ * Each transformer returns the new input and a summary of what it changed,
+ * which the hook logs. Transformers run in order, each seeing the previous
+ * one's output.
+ *
+ * Turn a transformer off in `.tool-policy.json` with
+ * `{ "transforms": { "vitest-run": false } }`, and turn on default Bash
+ * timeouts (in milliseconds) with `"defaultBashTimeout": 300000`.
+ *
+ * Claude Code only applies a rewritten input together with a permission
+ * decision, so the PreToolUse hook pairs one with `allow` when the policy
+ * allows the call and `ask` otherwise.
+ *
+ * To add your own, pass `[...BUILT_IN_TRANSFORMERS, myTransformer]` to
+ * `applyTransformers` in scripts/PreToolUse.ts.
+ */
+
+import { join } from "path";
+import { commandName, parseShellCommand, type SimpleCommand } from "./shell";
+import {
+  detectToolchain,
+  isPackageManager,
+  type PackageManager,
+} from "./toolchain";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface TransformSettings {
+  /** Transformers turned off by id */
+  disabled: string[];
+  /** Timeout given to Bash calls without one, in milliseconds, if any */
+  defaultBashTimeout?: number;
+}
+
+export interface TransformContext {
+  cwd: string;
+  toolName: string;
+  settings: TransformSettings;
+  /** The project's package manager, or null if it isn't a JS project */
+  packageManager: PackageManager | null;
+  /** package.json scripts, by name */
+  scripts: Record<string, string>;
+}
+
+export interface InputTransformer {
+  id: string;
+  /** Tools this transformer applies to */
+  tools: string[];
+  /**
+   * Reads `packageManager` or `scripts` from the context. They are only
+   * looked up for Bash commands that run a package manager, and are
+   * null and empty otherwise.
+   */
+  needsProject?: boolean;
+  /**
+   * Returns the rewritten input and what changed, or null to leave the
+   * input alone. Must not modify `input`.
+   */
+  transform: (
+    input: Record<string, unknown>,
+    ctx: TransformContext
+  ) => { input: Record<string, unknown>; summary: string } | null;
+}
+
+export interface TransformChange {
+  id: string;
+  summary: string;
+}
+
+export interface TransformResult {
+  /** The input after every transformer ran */
+  input: Record<string, unknown>;
+  /** What each transformer that changed something did, in order */
+  changes: TransformChange[];
+}
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+export const DEFAULT_TRANSFORM_SETTINGS: TransformSettings = {
+  disabled: [],
+};
+
+/**
+ * Commands that run a package's binary: the subcommands that do it, and
+ * whether the binary can also follow directly (`pnpm vitest`).
+ */
+const RUNNERS: Record<string, { subcommands: string[]; direct: boolean }> = {
+  npx: { subcommands: [], direct: true },
+  bunx: { subcommands: [], direct: true },
+  npm: { subcommands: ["exec"], direct: false },
+  pnpm: { subcommands: ["exec", "dlx"], direct: true },
+  yarn: { subcommands: ["exec", "dlx"], direct: true },
+  bun: { subcommands: ["x"], direct: false },
+};
+
+/**
+ * `git commit` short options that take a value, either attached (`-mfix`)
+ * or as the next word, and those that only take an attached one (`-uno`).
+ * Letters after either in a cluster are the value, not more options.
+ */
+const COMMIT_VALUE_OPTIONS = "mFCct";
+const COMMIT_ATTACHED_OPTIONS = "uS";
+
+/**
+ * Vitest arguments that already pick run or watch mode.
+ */
+const VITEST_MODES = ["run", "--run", "watch", "--watch", "bench"];
+
+// =============================================================================
+// COMMAND EDITING
+// =============================================================================
+
+interface Edit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Apply edits to a command line. Removing a word (empty text) also removes
+ * the whitespace before it.
+ */
+function editCommand(command: string, edits: Edit[]): string {
+  let result = command;
+  for (const edit of [...edits].sort((a, b) => b.start - a.start)) {
+    let start = edit.start;
+    if (edit.text === "") {
+      while (start > 0 && /[ \t]/.test(result[start - 1]!)) start--;
+    }
+    result = result.slice(0, start) + edit.text + result.slice(edit.end);
+  }
+  return result;
+}
+
+type EditableCommand = SimpleCommand & { spans: [number, number][] };
+
+/**
+ * Commands in a Bash input that can be rewritten: those written out in the
+ * command line, with the offsets of their words.
+ */
+function editableCommands(
+  input: Record<string, unknown>
+): { command: string; commands: EditableCommand[] } | null {
+  if (typeof input.command !== "string") return null;
+  const commands = parseShellCommand(input.command).filter(
+    (c): c is EditableCommand => c.spans !== undefined
+  );
+  return { command: input.command, commands };
+}
+
+/**
+ * Index of a git command's subcommand, skipping global options like
+ * `-C <dir>` and `-c <key=value>`.
+ */
+function gitSubcommandIndex(argv: string[]): number {
+  let i = 1;
+  while (i < argv.length && argv[i]!.startsWith("-")) {
+    i += ["-C", "-c", "--git-dir", "--work-tree"].includes(argv[i]!) ? 2 : 1;
+  }
+  return i;
+}
+
+// =============================================================================
+// BUILT-IN TRANSFORMERS
+// =============================================================================
+
+const gitNoVerify: InputTransformer = {
+  id: "git-no-verify",
+  tools: ["Bash"],
+  transform(input) {
+    const parsed = editableCommands(input);
+    if (!parsed) return null;
+    const edits: Edit[] = [];
+
+    for (const cmd of parsed.commands) {
+      if (commandName(cmd) !== "git") continue;
+      const sub = gitSubcommandIndex(cmd.argv);
+      const subcommand = cmd.argv[sub];
+      if (subcommand !== "commit" && subcommand !== "push") continue;
+
+      for (let i = sub + 1; i < cmd.argv.length; i++) {
+        const arg = cmd.argv[i]!;
+        const [start, end] = cmd.spans[i]!;
+        if (arg === "--") break;
+        if (arg === "--no-verify") {
+          edits.push({ start, end, text: "" });
+          continue;
+        }
+        if (subcommand !== "commit" || !/^-[a-zA-Z]+$/.test(arg)) continue;
+
+        // -n, alone or in a cluster like -anm
+        const flags = arg.slice(1);
+        const valueAt = [...flags].findIndex((f) =>
+          (COMMIT_VALUE_OPTIONS + COMMIT_ATTACHED_OPTIONS).includes(f)
+        );
+        const options = valueAt === -1 ? flags : flags.slice(0, valueAt);
+        const value = valueAt === -1 ? "" : flags.slice(valueAt);
+        if (value.length === 1 && COMMIT_VALUE_OPTIONS.includes(value)) {
+          i++; // the value is the next word
+        }
+        if (options.includes("n")) {
+          const kept = options.replaceAll("n", "") + value;
+          edits.push({ start, end, text: kept ? `-${kept}` : "" });
+        }
+      }
+    }
+
+    if (edits.length === 0) return null;
+    return {
+      input: { ...input, command: editCommand(parsed.command, edits) },
+      summary: "removed --no-verify so git hooks run",
+    };
+  },
+};
+
+const vitestRun: InputTransformer = {
+  id: "vitest-run",
+  tools: ["Bash"],
+  needsProject: true,
+  transform(input, ctx) {
+    const parsed = editableCommands(input);
+    if (!parsed) return null;
+    const edits: Edit[] = [];
+    const picksMode = (args: string[]) =>
+      args.some((a) => VITEST_MODES.includes(a));
+
+    for (const cmd of parsed.commands) {
+      const name = commandName(cmd);
+      const { argv } = cmd;
+
+      // vitest, npx vitest, pnpm exec vitest...
+      const runner = RUNNERS[name];
+      let at = name === "vitest" ? 0 : -1;
+      if (runner?.subcommands.includes(argv[1] ?? "")) at = 2;
+      else if (runner?.direct) at = 1;
+      if (at !== -1 && argv[at] === "vitest") {
+        if (!picksMode(argv.slice(at + 1))) {
+          const end = cmd.spans[at]![1];
+          edits.push({ start: end, end, text: " --run" });
+        }
+        continue;
+      }
+
+      // npm test, pnpm run test... where the script is plain vitest
+      if (!isPackageManager(name)) continue;
+      const runsScript = ["run", "run-script"].includes(argv[1] ?? "");
+      const script = runsScript
+        ? argv[2]
+        : ["test", "t"].includes(argv[1] ?? "")
+          ? "test"
+          : undefined;
+      const body = script ? ctx.scripts[script] : undefined;
+      if (
+        !body ||
+        !/^vitest(\s|$)/.test(body) ||
+        picksMode(body.split(/\s+/)) ||
+        picksMode(argv.slice(runsScript ? 3 : 2))
+      ) {
+        continue;
+      }
+      const end = cmd.spans[cmd.spans.length - 1]![1];
+      // npm needs -- to pass arguments on to the script
+      const separator = name === "npm" && !argv.includes("--") ? " --" : "";
+      edits.push({ start: end, end, text: `${separator} --run` });
+    }
+
+    if (edits.length === 0) return null;
+    return {
+      input: { ...input, command: editCommand(parsed.command, edits) },
+      summary: "added --run so vitest exits instead of watching",
+    };
+  },
+};
+
+/**
+ * The replacement for an npm command's first two words (`npm <command>`)
+ * under another package manager, or null if it has no equivalent worth
+ * translating.
+ */
+function translateNpm(
+  args: string[],
+  pm: Exclude<PackageManager, "npm">
+): string | null {
+  const [sub, ...rest] = args;
+  // `bun test` runs bun's own test runner, not the script
+  const runScript = pm === "bun" ? "bun run" : pm;
+
+  switch (sub) {
+    case "install":
+    case "i":
+    case "add":
+      if (rest.includes("-g") || rest.includes("--global")) return null;
+      return rest.some((a) => !a.startsWith("-"))
+        ? `${pm} add`
+        : `${pm} install`;
+    case "ci":
+      return `${pm} install --frozen-lockfile`;
+    case "uninstall":
+    case "remove":
+    case "rm":
+    case "un":
+      return `${pm} remove`;
+    case "run":
+    case "run-script":
+      return `${pm} run`;
+    case "test":
+    case "t":
+      return `${runScript} test`;
+    case "start":
+      return `${runScript} start`;
+    default:
+      return null;
+  }
+}
+
+const routePackageManager: InputTransformer = {
+  id: "route-package-manager",
+  tools: ["Bash"],
+  needsProject: true,
+  transform(input, ctx) {
+    const pm = ctx.packageManager;
+    if (!pm || pm === "npm") return null;
+    const parsed = editableCommands(input);
+    if (!parsed) return null;
+    const edits: Edit[] = [];
+
+    for (const cmd of parsed.commands) {
+      if (commandName(cmd) !== "npm") continue;
+      const text = translateNpm(cmd.argv.slice(1), pm);
+      if (!text) continue;
+      edits.push({ start: cmd.spans[0]![0], end: cmd.spans[1]![1], text });
+    }
+
+    if (edits.length === 0) return null;
+    return {
+      input: { ...input, command: editCommand(parsed.command, edits) },
+      summary: `routed npm to ${pm}, the project's package manager`,
+    };
+  },
+};
+
+const bashTimeout: InputTransformer = {
+  id: "bash-timeout",
+  tools: ["Bash"],
+  transform(input, ctx) {
+    // Off unless the policy sets a default; Claude Code's own applies
+    const timeout = ctx.settings.defaultBashTimeout;
+    if (timeout === undefined) {
+      return null;
+    }
+    // Not a shell command Claude Code will run; leave it to be rejected
+    if (typeof input.command !== "string" || input.timeout !== undefined) {
+      return null;
+    }
+    return {
+      input: { ...input, timeout },
+      summary: `set timeout to ${timeout}ms`,
+    };
+  },
+};
+
+/**
+ * The built-in transformers, in the order they run.
+ */
+export const BUILT_IN_TRANSFORMERS: InputTransformer[] = [
+  gitNoVerify,
+  // Before vitest-run, which needs to know which package manager runs
+  // a script to pass it --run
+  routePackageManager,
+  vitestRun,
+  bashTimeout,
+];
+
+/**
+ * Ids of the built-in transformers, for validating settings.
+ */
+export function transformerIds(): string[] {
+  return BUILT_IN_TRANSFORMERS.map((t) => t.id);
+}
+
+// =============================================================================
+// PIPELINE
+// =============================================================================
+
+/**
+ * Read the scripts from the project's package.json, if it has one.
+ */
+async function readScripts(cwd: string): Promise<Record<string, string>> {
+  const file = Bun.file(join(cwd, "package.json"));
+  if (!(await file.exists())) {
+    return {};
+  }
+  try {
+    const scripts = JSON.parse(await file.text()).scripts;
+    return typeof scripts === "object" && scripts !== null ? scripts : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Whether a Bash input runs a package manager, and so may need the
+ * project's package manager and scripts.
+ */
+function runsPackageManager(input: Record<string, unknown>): boolean {
+  return (
+    typeof input.command === "string" &&
+    parseShellCommand(input.command).some((c) =>
+      isPackageManager(commandName(c))
+    )
+  );
+}
+
+/**
+ * Run a tool input through the transformers that apply to the tool.
+ *
+ * @param toolName - The tool being called
+ * @param toolInput - Its input
+ * @param cwd - The session's working directory
+ * @param settings - Disabled transformers and the default Bash timeout
+ * @param transformers - The pipeline; defaults to the built-in ones
+ */
+export async function applyTransformers(
+  toolName: string,
+  toolInput: unknown,
+  cwd: string,
+  settings: TransformSettings = DEFAULT_TRANSFORM_SETTINGS,
+  transformers: InputTransformer[] = BUILT_IN_TRANSFORMERS
+): Promise<TransformResult> {
+  let input =
+    typeof toolInput === "object" &&
+    toolInput !== null &&
+    !Array.isArray(toolInput)
+      ? (toolInput as Record<string, unknown>)
+      : {};
+  const changes: TransformChange[] = [];
+
+  const active = transformers.filter(
+    (t) => t.tools.includes(toolName) && !settings.disabled.includes(t.id)
+  );
+  if (active.length === 0) {
+    return { input, changes };
+  }
+
+  // Reading the project costs disk access on every call; only do it for
+  // the commands that need it
+  let packageManager: PackageManager | null = null;
+  let scripts: Record<string, string> = {};
+  if (active.some((t) => t.needsProject) && runsPackageManager(input)) {
+    const { id, marker } = await detectToolchain(cwd);
+    packageManager = marker !== null && isPackageManager(id) ? id : null;
+    scripts = await readScripts(cwd);
+  }
+  const ctx: TransformContext = {
+    cwd,
+    toolName,
+    settings,
+    packageManager,
+    scripts,
+  };
+
+  for (const transformer of active) {
+    const result = transformer.transform(input, ctx);
+    if (result) {
+      input = result.input;
+      changes.push({ id: transformer.id, summary: result.summary });
+    }
+  }
+
+  return { input, changes };
+}
@@ -11,33 +11,52 @@
  */
 
 import type {
-  HookInput,
   SyncHookJSONOutput,
   PreToolUseHookSpecificOutput,
   PostToolUseHookSpecificOutput,
   UserPromptSubmitHookSpecificOutput,
   SessionStartHookSpecificOutput,
 } from "@anthropic-ai/claude-agent-sdk";
+import {
+  parseHookInput,
+  serializeHookOutput,
+  type HookEventName,
+  type HookInputFor,
+} from "./schema";
+import { setProjectDir } from "./state";
 
 // =============================================================================
 // INPUT/OUTPUT HELPERS
 // =============================================================================
 
 /**
- * Read and parse hook input from stdin.
- * All hooks receive JSON input via stdin.
+ * Read and parse hook input from stdin, checking it against the event's
+ * input schema (see src/schema.ts), and point session state at the
+ * input's project.
+ * All hooks receive JSON input via stdin. Scripts using defineHook (see
+ * src/hook.ts) get their input from the runtime instead.
+ *
+ * @throws HookInputError if the input doesn't match
  */
-export async function readHookInput<T extends HookInput>(): Promise<T> {
-  const text = await Bun.stdin.text();
-  return JSON.parse(text) as T;
+export async function readHookInput<E extends HookEventName>(
+  event: E
+): Promise<HookInputFor<E>> {
+  const input = parseHookInput(event, await Bun.stdin.text());
+  setProjectDir(input.cwd);
+  return input;
 }
 
 /**
- * Write hook output to stdout.
+ * Write hook output to stdout, checking it against the output schema.
  * All hooks must output valid JSON to stdout.
+ *
+ * @throws HookOutputError if the output doesn't match
  */
-export function writeHookOutput(output: SyncHookJSONOutput): void {
-  console.log(JSON.stringify(output));
+export function writeHookOutput(
+  event: HookEventName,
+  output: SyncHookJSONOutput
+): void {
+  console.log(serializeHookOutput(event, output));
 }
 
 /**
@@ -108,6 +127,39 @@ export function denyTool(reason: string): SyncHookJSONOutput {
   };
 }
 
+/**
+ * Build output for PreToolUse that asks the user to confirm the tool call.
+ */
+export function askTool(reason: string): SyncHookJSONOutput {
+  return {
+    continue: true,
+    hookSpecificOutput: {
+      hookEventName: "PreToolUse",
+      permissionDecision: "ask",
+      permissionDecisionReason: reason,
+    } as PreToolUseHookSpecificOutput,
+  };
+}
+
+/**
+ * Build output for PreToolUse that runs the tool with a rewritten input.
+ * Pass the output of allowTool or askTool to combine it with a decision.
+ */
+export function modifyToolInput(
+  updatedInput: Record<string, unknown>,
+  decision?: SyncHookJSONOutput
+): SyncHookJSONOutput {
+  return {
+    continue: true,
+    ...decision,
+    hookSpecificOutput: {
+      hookEventName: "PreToolUse",
+      ...decision?.hookSpecificOutput,
+      updatedInput,
+    } as PreToolUseHookSpecificOutput,
+  };
+}
+
 /**
  * Build output for Stop hook that blocks stopping.
  */
@@ -0,0 +1,156 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { getSection, updateSection, type StopAttempt } from "./state";
+import {
+  classifyAttempt,
+  evaluateAttempt,
+  resetSafetyValve,
+  type AttemptProgress,
+} from "./valve";
+
+const LIMITS = { maxStopDenials: 3, stuckLimit: 3 };
+
+/**
+ * A failed attempt whose errors are the given fingerprints.
+ */
+function attempt(...fingerprints: string[]): StopAttempt {
+  return {
+    at: 0,
+    failedGates: ["test"],
+    errorCount: fingerprints.length,
+    fingerprints,
+  };
+}
+
+describe("classifyAttempt", () => {
+  const cases: [
+    string,
+    StopAttempt | undefined,
+    StopAttempt,
+    AttemptProgress,
+  ][] = [
+    ["nothing before it", undefined, attempt("a"), "first"],
+    ["fewer errors", attempt("a", "b"), attempt("b"), "improving"],
+    ["fewer, different errors", attempt("a", "b"), attempt("c"), "improving"],
+    ["the same errors", attempt("a", "b"), attempt("b", "a"), "stuck"],
+    ["as many, different errors", attempt("a"), attempt("b"), "no-progress"],
+    ["more errors", attempt("a"), attempt("a", "b"), "no-progress"],
+  ];
+
+  for (const [label, previous, current, expected] of cases) {
+    test(label, () => {
+      expect(classifyAttempt(previous, current)).toBe(expected);
+    });
+  }
+});
+
+describe("evaluateAttempt", () => {
+  // Attempts so far, oldest first, then the decision on the last one
+  const cases: [string, StopAttempt[], Record<string, unknown>][] = [
+    [
+      "blocks the first attempt",
+      [attempt("a", "b")],
+      { action: "block", progress: "first", denials: 1, stuckStreak: 1 },
+    ],
+    [
+      "improving attempts don't count as denials",
+      [attempt("a", "b", "c"), attempt("a", "b"), attempt("a")],
+      { action: "block", progress: "improving", denials: 1 },
+    ],
+    [
+      "counts a stuck streak",
+      [attempt("a"), attempt("a")],
+      { action: "block", progress: "stuck", denials: 2, stuckStreak: 2 },
+    ],
+    [
+      "allows stopping at stuckLimit identical attempts",
+      [attempt("a"), attempt("a"), attempt("a")],
+      {
+        action: "allow",
+        progress: "stuck",
+        reason: "the same errors came back 3 times in a row",
+      },
+    ],
+    [
+      "blocks up to maxStopDenials attempts without progress",
+      [attempt("a"), attempt("b"), attempt("c")],
+      { action: "block", progress: "no-progress", denials: 3 },
+    ],
+    [
+      "allows stopping after more than maxStopDenials",
+      [attempt("a"), attempt("b"), attempt("c"), attempt("d")],
+      {
+        action: "allow",
+        progress: "no-progress",
+        reason: "3 attempts made no progress",
+      },
+    ],
+    [
+      "allows stopping after twice maxStopDenials attempts, even improving",
+      [
+        attempt("a", "b", "c", "d", "e", "f", "g"),
+        attempt("a", "b", "c", "d", "e", "f"),
+        attempt("a", "b", "c", "d", "e"),
+        attempt("a", "b", "c", "d"),
+        attempt("a", "b", "c"),
+        attempt("a", "b"),
+        attempt("a"),
+      ],
+      {
+        action: "allow",
+        progress: "improving",
+        reason: "6 attempts were blocked in total",
+      },
+    ],
+  ];
+
+  for (const [label, attempts, expected] of cases) {
+    test(label, () => {
+      const history = attempts.slice(0, -1);
+      const current = attempts[attempts.length - 1]!;
+      expect(evaluateAttempt(history, current, LIMITS)).toMatchObject(expected);
+    });
+  }
+
+  test("different errors end a stuck streak", () => {
+    const history = [attempt("a"), attempt("a"), attempt("b")];
+    expect(
+      evaluateAttempt(history, attempt("b"), { ...LIMITS, maxStopDenials: 10 })
+    ).toMatchObject({ action: "block", progress: "stuck", stuckStreak: 2 });
+  });
+});
+
+describe("resetSafetyValve", () => {
+  let stateDir: string;
+
+  beforeAll(async () => {
+    stateDir = await mkdtemp(join(tmpdir(), "valve-test-"));
+    process.env.QUALITY_GATES_STATE_DIR = stateDir;
+  });
+
+  afterAll(async () => {
+    delete process.env.QUALITY_GATES_STATE_DIR;
+    await rm(stateDir, { recursive: true, force: true });
+  });
+
+  test("clears the attempt history and the release", async () => {
+    await updateSection("s1", "stop", (stop) => {
+      stop.denialCount = 4;
+      stop.attempts = [attempt("a"), attempt("a")];
+      stop.valveReleased = true;
+      stop.gateCache = { lint: { key: "k", at: 1 } };
+    });
+
+    await resetSafetyValve("s1");
+
+    expect(await getSection("s1", "stop")).toEqual({
+      denialCount: 0,
+      attempts: [],
+      valveReleased: false,
+      // Passing results are still valid after a new prompt
+      gateCache: { lint: { key: "k", at: 1 } },
+    });
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * SAFETY VALVE
+ * =============
+ * Decides whether the Stop hook should keep blocking after a failed gate
+ * run, based on whether Claude is making progress.
+ *
+ * Each failed run is recorded as a StopAttempt with its error count and a
+ * fingerprint per error. Comparing an attempt with the one before it gives:
+ *
+ * - "first":     nothing to compare with yet
+ * - "improving": fewer errors than last time
+ * - "stuck":     exactly the same errors as last time
+ * - "no-progress": different errors, but not fewer
+ *
+ * POLICY:
+ * - Improving attempts don't count against `maxStopDenials`, so Claude can
+ *   keep going while it is fixing things.
+ * - Every other attempt does; once more than `maxStopDenials` have been
+ *   blocked, stopping is allowed.
+ * - `stuckLimit` consecutive "stuck" attempts allow stopping straight away,
+ *   since Claude is clearly not able to fix those errors.
+ * - A hard cap of twice `maxStopDenials` total attempts guarantees the
+ *   session can always end.
+ *
+ * The history resets when the user submits a new prompt or all gates pass.
+ */
+
+import { updateSection, type StopAttempt } from "./state";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type AttemptProgress = "first" | "improving" | "stuck" | "no-progress";
+
+export interface ValveLimits {
+  maxStopDenials: number;
+  stuckLimit: number;
+}
+
+export type ValveDecision =
+  | {
+      action: "block";
+      progress: AttemptProgress;
+      /** Non-improving attempts so far, including this one */
+      denials: number;
+      /** Consecutive identical attempts, including this one */
+      stuckStreak: number;
+    }
+  | {
+      action: "allow";
+      progress: AttemptProgress;
+      reason: string;
+    };
+
+// =============================================================================
+// FINGERPRINTS
+// =============================================================================
+
+/**
+ * Fingerprint one error. Line and column numbers are left out on purpose,
+ * so an error that moves because code above it changed still matches.
+ */
+export function fingerprint(...parts: (string | undefined)[]): string {
+  return Bun.hash(parts.map((p) => p ?? "").join("\0")).toString(16);
+}
+
+/**
+ * Fingerprint output no parser understood. Numbers are masked so timings
+ * and counts in the output don't make identical failures look different.
+ */
+export function fingerprintOutput(gateName: string, output: string): string {
+  return fingerprint(gateName, output.replace(/\d+(\.\d+)?/g, "#").trim());
+}
+
+// =============================================================================
+// POLICY
+// =============================================================================
+
+function sameFingerprints(a: StopAttempt, b: StopAttempt): boolean {
+  if (a.fingerprints.length !== b.fingerprints.length) return false;
+  const set = new Set(a.fingerprints);
+  return b.fingerprints.every((f) => set.has(f));
+}
+
+/**
+ * Classify an attempt relative to the one before it.
+ */
+export function classifyAttempt(
+  previous: StopAttempt | undefined,
+  current: StopAttempt
+): AttemptProgress {
+  if (!previous) return "first";
+  if (sameFingerprints(previous, current)) return "stuck";
+  if (current.errorCount < previous.errorCount) return "improving";
+  return "no-progress";
+}
+
+/**
+ * Decide whether to keep blocking, given the attempt history so far
+ * (oldest first) and the attempt that just failed.
+ */
+export function evaluateAttempt(
+  history: StopAttempt[],
+  current: StopAttempt,
+  limits: ValveLimits
+): ValveDecision {
+  const attempts = [...history, current];
+  const progressions = attempts.map((attempt, i) =>
+    classifyAttempt(attempts[i - 1], attempt)
+  );
+  const progress = progressions[progressions.length - 1]!;
+
+  const denials = progressions.filter((p) => p !== "improving").length;
+
+  let stuckStreak = 1;
+  for (let i = progressions.length - 1; i > 0; i--) {
+    if (progressions[i] !== "stuck") break;
+    stuckStreak++;
+  }
+
+  if (stuckStreak >= limits.stuckLimit) {
+    return {
+      action: "allow",
+      progress,
+      reason: `the same errors came back ${stuckStreak} times in a row`,
+    };
+  }
+  if (denials > limits.maxStopDenials) {
+    return {
+      action: "allow",
+      progress,
+      reason: `${limits.maxStopDenials} attempts made no progress`,
+    };
+  }
+  if (attempts.length > limits.maxStopDenials * 2) {
+    return {
+      action: "allow",
+      progress,
+      reason: `${attempts.length - 1} attempts were blocked in total`,
+    };
+  }
+
+  return { action: "block", progress, denials, stuckStreak };
+}
+
+/**
+ * One line telling Claude how its last fix went, escalating when stuck.
+ */
+export function describeProgress(
+  decision: Extract<ValveDecision, { action: "block" }>,
+  previous: StopAttempt | undefined,
+  current: StopAttempt,
+  limits: ValveLimits
+): string {
+  const remaining = limits.maxStopDenials - decision.denials;
+  const budget = `${remaining} more attempt${remaining === 1 ? "" : "s"} without progress before stopping is allowed anyway`;
+
+  switch (decision.progress) {
+    case "first":
+      return `**Attempt 1** (${budget})`;
+    case "improving":
+      return `**Progress:** ${previous!.errorCount} → ${current.errorCount} errors. Keep going; attempts that reduce errors don't count against the limit.`;
+    case "no-progress":
+      return `**No progress:** ${previous!.errorCount} → ${current.errorCount} errors (${budget})`;
+    case "stuck":
+      return `**Stuck:** these are exactly the same errors as last time (${decision.stuckStreak} in a row; stopping is allowed at ${limits.stuckLimit}). Try a different approach, or if they can't be fixed, explain why to the user.`;
+  }
+}
+
+// =============================================================================
+// RESET
+// =============================================================================
+
+/**
+ * Clear the attempt history so the next stop starts with a full budget.
+ * Called when the user submits a new prompt.
+ */
+export async function resetSafetyValve(sessionId: string): Promise<void> {
+  await updateSection(sessionId, "stop", (stop) => {
+    stop.denialCount = 0;
+    stop.attempts = [];
+    stop.valveReleased = false;
+  });
+}